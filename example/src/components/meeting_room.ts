@@ -11,7 +11,9 @@ import {
     VideoConfigSchema,
     AudioConfigSchema,
 VideoTrackSchema,
-AudioTrackSchema
+AudioTrackSchema,
+    VIDEO_PRIORITY,
+    AUDIO_PRIORITY,
 } from "@okutanidaichi/hang/catalog";
 import {
     VideoTrackEncoder,
@@ -67,29 +69,26 @@ export async function setupMeetingRoom(room: RoomElement, local: BroadcastPublis
         //     remoteParticipantsContainer.appendChild(participantDiv);
         // }
 
-        while(true) {
-            const [desc, err] = await member.broadcast.nextTrack();
-            if (err) {
-                console.error("Error receiving track:", err);
-                break;
+        for await (const event of member.broadcast.tracks()) {
+            console.debug("Remote member track event:", event);
+            if (event.type !== "added") {
+                continue;
             }
 
-            console.debug("Remote member track description:", desc);
-
-            switch (desc.name) {
+            switch (event.descriptor.name) {
                 case "camera":
-                    if (desc.schema !== "video") {
+                    if (event.kind !== "video") {
                         console.error("Expected video schema for camera track");
                         break;
                     }
-                    await getCameraTrack(VideoTrackSchema.parse(desc.config), member.broadcast);
+                    await getCameraTrack(event.descriptor, member.broadcast);
                     break;
                 case "microphone":
-                    if (desc.schema !== "audio") {
+                    if (event.kind !== "audio") {
                         console.error("Expected audio schema for microphone track");
                         break;
                     }
-                    await getMicrophoneTrack(AudioTrackSchema.parse(desc.config), member.broadcast);
+                    await getMicrophoneTrack(event.descriptor, member.broadcast);
                     break;
                 default:
                     break;
@@ -168,7 +167,7 @@ async function setCameraTrack(local: BroadcastPublisher, room: RoomElement): Pro
     // Create a video track descriptor
     const videoDesc: VideoTrackDescriptor = {
         name: "camera",
-        priority: 1,
+        priority: VIDEO_PRIORITY,
         schema: "video",
         config: VideoConfigSchema.parse({
             ...cameraDecoderConfig,
@@ -220,7 +219,7 @@ async function setMicrophoneTrack(local: BroadcastPublisher): Promise<void> {
     // Create an audio track descriptor
     const audioDesc: AudioTrackDescriptor = {
         name: "microphone",
-        priority: 2,
+        priority: AUDIO_PRIORITY,
         schema: "audio",
         config: AudioConfigSchema.parse({
             ...microphoneDecoderConfig,
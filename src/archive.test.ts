@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryArchiveStore, NodeArchiveStore, OpfsArchiveStore, ArchiveRecordSchema } from "./archive";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array | Error) => data instanceof Error ? data : new TextDecoder().decode(data);
+
+describe("ArchiveRecordSchema", () => {
+    it("should accept frames and group ends", () => {
+        expect(ArchiveRecordSchema.safeParse({ group: 1, at: 10, data: "AQID" }).success).toBe(true);
+        expect(ArchiveRecordSchema.safeParse({ group: 1, at: 10, end: true }).success).toBe(true);
+        expect(ArchiveRecordSchema.safeParse({ group: -1, at: 10, data: "" }).success).toBe(false);
+    });
+});
+
+describe("MemoryArchiveStore", () => {
+    it("should append to and replace files", async () => {
+        const store = new MemoryArchiveStore();
+
+        await store.append("a", encode("foo"));
+        await store.append("a", encode("bar"));
+        expect(decode(await store.read("a"))).toBe("foobar");
+
+        expect(decode(await store.read("a", 2, 3))).toBe("oba");
+        expect(decode(await store.read("a", 6, 3))).toBe("");
+
+        await store.write("a", encode("baz"));
+        expect(decode(await store.read("a"))).toBe("baz");
+        expect(await store.read("missing")).toBeInstanceOf(Error);
+    });
+});
+
+// A directory of files whose writes show once their writable is closed
+function fakeDirectory() {
+    const files: Map<string, Uint8Array> = new Map();
+    const createWritable = vi.fn(async (file: string, init?: { keepExistingData?: boolean }) => {
+        let data = init?.keepExistingData ? files.get(file) ?? new Uint8Array() : new Uint8Array();
+        let position = 0;
+        return {
+            seek: async (offset: number) => { position = offset; },
+            write: async (chunk: Uint8Array) => {
+                const next = new Uint8Array(Math.max(data.length, position + chunk.length));
+                next.set(data);
+                next.set(chunk, position);
+                data = next;
+                position += chunk.length;
+            },
+            close: async () => { files.set(file, data); },
+            abort: async () => {},
+        };
+    });
+    const dir = {
+        getFileHandle: async (file: string, init?: { create?: boolean }) => {
+            if (!files.has(file)) {
+                if (!init?.create) {
+                    throw new Error(`not found: ${file}`);
+                }
+                files.set(file, new Uint8Array());
+            }
+            return {
+                getFile: async () => {
+                    const data = files.get(file)!;
+                    return {
+                        size: data.length,
+                        slice: (start?: number, end?: number) => ({ arrayBuffer: async () => data.slice(start, end).buffer }),
+                    };
+                },
+                createWritable: (init?: { keepExistingData?: boolean }) => createWritable(file, init),
+            };
+        },
+    };
+    return { dir: dir as unknown as FileSystemDirectoryHandle, createWritable };
+}
+
+describe("OpfsArchiveStore", () => {
+    it("should keep one writable open per appended file", async () => {
+        const { dir, createWritable } = fakeDirectory();
+        const store = new OpfsArchiveStore(dir);
+
+        for (const line of ["foo\n", "bar\n", "baz\n"]) {
+            expect(await store.append("track-0.jsonl", encode(line))).toBeUndefined();
+        }
+        expect(createWritable).toHaveBeenCalledTimes(1);
+
+        // Reading completes the appends so far
+        expect(decode(await store.read("track-0.jsonl", 4))).toBe("bar\nbaz\n");
+        await store.append("track-0.jsonl", encode("qux\n"));
+        expect(await store.flush()).toBeUndefined();
+        expect(decode(await store.read("track-0.jsonl"))).toBe("foo\nbar\nbaz\nqux\n");
+        expect(createWritable).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("NodeArchiveStore", () => {
+    it("should keep the files in the directory", async () => {
+        const dir = await mkdtemp(join(tmpdir(), "archive-"));
+        try {
+            const store = new NodeArchiveStore(join(dir, "meeting"));
+
+            expect(await store.append("track-0.jsonl", encode("foo\n"))).toBeUndefined();
+            await store.append("track-0.jsonl", encode("bar\n"));
+            await store.write("manifest.json", encode("{}"));
+
+            expect(decode(await store.read("track-0.jsonl"))).toBe("foo\nbar\n");
+            expect(decode(await store.read("track-0.jsonl", 4, 16))).toBe("bar\n");
+            expect(decode(await store.read("manifest.json"))).toBe("{}");
+            expect(await store.read("missing")).toBeInstanceOf(Error);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { uint53Schema } from "./catalog/integers";
+
+export const ARCHIVE_VERSION = "1";
+
+// Name of the file describing the recorded broadcasts
+export const ARCHIVE_MANIFEST = "manifest.json";
+
+export const ArchivedTrackSchema = z.object({
+    name: z.string().min(1),
+    file: z.string().min(1), // One ArchiveRecord per JSON line
+});
+
+export type ArchivedTrack = z.infer<typeof ArchivedTrackSchema>;
+
+export const ArchivedBroadcastSchema = z.object({
+    id: z.string().min(1), // Member ID
+    name: z.string(), // Display name
+    path: z.string().min(1), // Original broadcast path
+    // Milliseconds since the recording started
+    joinedAt: uint53Schema,
+    leftAt: uint53Schema.optional(),
+    tracks: z.array(ArchivedTrackSchema),
+});
+
+export type ArchivedBroadcast = z.infer<typeof ArchivedBroadcastSchema>;
+
+export const ArchiveManifestSchema = z.object({
+    version: z.literal(ARCHIVE_VERSION),
+    roomID: z.string(),
+    // Milliseconds since the Unix epoch
+    startedAt: uint53Schema,
+    broadcasts: z.array(ArchivedBroadcastSchema),
+});
+
+export type ArchiveManifest = z.infer<typeof ArchiveManifestSchema>;
+
+export const ArchiveRecordSchema = z.union([
+    z.object({
+        group: uint53Schema, // Group sequence
+        at: uint53Schema, // Arrival in milliseconds since the recording started
+        data: z.string(), // Base64 encoded frame
+    }),
+    z.object({
+        group: uint53Schema,
+        at: uint53Schema,
+        end: z.literal(true), // The group was complete
+    }),
+]);
+
+export type ArchiveRecord = z.infer<typeof ArchiveRecordSchema>;
+
+// Where an archive keeps its files
+export interface ArchiveStore {
+    // Replaces the content of a file
+    write(file: string, data: Uint8Array): Promise<Error | undefined>;
+
+    // Adds data at the end of a file, creating it if needed
+    append(file: string, data: Uint8Array): Promise<Error | undefined>;
+
+    // Reads a file from the offset, at most length bytes; empty at the end of the file
+    read(file: string, offset?: number, length?: number): Promise<Uint8Array | Error>;
+
+    // Completes the appends written so far, e.g. once a recording stopped
+    flush(): Promise<Error | undefined>;
+}
+
+// Keeps the archive in memory, e.g. to upload it afterwards
+export class MemoryArchiveStore implements ArchiveStore {
+    #files: Map<string, Uint8Array[]> = new Map();
+
+    async write(file: string, data: Uint8Array): Promise<Error | undefined> {
+        this.#files.set(file, [data.slice()]);
+        return undefined;
+    }
+
+    async append(file: string, data: Uint8Array): Promise<Error | undefined> {
+        const chunks = this.#files.get(file);
+        if (chunks) {
+            chunks.push(data.slice());
+        } else {
+            this.#files.set(file, [data.slice()]);
+        }
+        return undefined;
+    }
+
+    async read(file: string, offset: number = 0, length?: number): Promise<Uint8Array | Error> {
+        const chunks = this.#files.get(file);
+        if (!chunks) {
+            return new Error(`archive: file not found: ${file}`);
+        }
+        // Joined once, so that reading a file piece by piece does not copy it every time
+        const data = concat(chunks);
+        this.#files.set(file, [data]);
+        return data.slice(offset, length === undefined ? undefined : offset + length);
+    }
+
+    async flush(): Promise<Error | undefined> {
+        return undefined;
+    }
+
+    files(): string[] {
+        return Array.from(this.#files.keys());
+    }
+}
+
+// Keeps the archive in a directory of the origin private file system in browsers
+export class OpfsArchiveStore implements ArchiveStore {
+    #dir: FileSystemDirectoryHandle;
+    // Writes to the same file must not overlap
+    #queues: Map<string, Promise<Error | undefined>> = new Map();
+    // Kept open while appending, as opening one copies the existing data of the file.
+    // The appended data shows in the file once it is closed.
+    #writables: Map<string, FileSystemWritableFileStream> = new Map();
+
+    constructor(dir: FileSystemDirectoryHandle) {
+        this.#dir = dir;
+    }
+
+    write(file: string, data: Uint8Array): Promise<Error | undefined> {
+        return this.#enqueue(file, async () => {
+            await this.#close(file);
+            const handle = await this.#dir.getFileHandle(file, { create: true });
+            const writable = await handle.createWritable();
+            await writable.write(data as Uint8Array<ArrayBuffer>);
+            await writable.close();
+        });
+    }
+
+    append(file: string, data: Uint8Array): Promise<Error | undefined> {
+        return this.#enqueue(file, async () => {
+            let writable = this.#writables.get(file);
+            if (!writable) {
+                const handle = await this.#dir.getFileHandle(file, { create: true });
+                const size = (await handle.getFile()).size;
+                writable = await handle.createWritable({ keepExistingData: true });
+                await writable.seek(size);
+                this.#writables.set(file, writable);
+            }
+
+            try {
+                await writable.write(data as Uint8Array<ArrayBuffer>);
+            } catch (e) {
+                // Start over from what the file has on the next append
+                this.#writables.delete(file);
+                await writable.abort().catch(() => {});
+                throw e;
+            }
+        });
+    }
+
+    async read(file: string, offset: number = 0, length?: number): Promise<Uint8Array | Error> {
+        // Data still being appended is not in the file yet
+        if (this.#writables.has(file)) {
+            await this.#enqueue(file, () => this.#close(file));
+        }
+        await this.#queues.get(file);
+        try {
+            const handle = await this.#dir.getFileHandle(file);
+            const blob = (await handle.getFile()).slice(offset, length === undefined ? undefined : offset + length);
+            return new Uint8Array(await blob.arrayBuffer());
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        }
+    }
+
+    async flush(): Promise<Error | undefined> {
+        const errs = await Promise.all(Array.from(this.#writables.keys(), (file) => this.#enqueue(file, () => this.#close(file))));
+        return errs.find((err) => err !== undefined);
+    }
+
+    async #close(file: string): Promise<void> {
+        const writable = this.#writables.get(file);
+        if (!writable) {
+            return;
+        }
+        this.#writables.delete(file);
+        await writable.close();
+    }
+
+    #enqueue(file: string, op: () => Promise<void>): Promise<Error | undefined> {
+        const prev = this.#queues.get(file) ?? Promise.resolve(undefined);
+        const next = prev.then(async () => {
+            try {
+                await op();
+                return undefined;
+            } catch (e) {
+                return e instanceof Error ? e : new Error(String(e));
+            }
+        });
+        this.#queues.set(file, next);
+        return next;
+    }
+}
+
+// Keeps the archive in a directory on disk in Node
+export class NodeArchiveStore implements ArchiveStore {
+    readonly dir: string;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    async write(file: string, data: Uint8Array): Promise<Error | undefined> {
+        try {
+            const fs = await import("node:fs/promises");
+            await fs.mkdir(this.dir, { recursive: true });
+            await fs.writeFile(this.#path(file), data);
+            return undefined;
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        }
+    }
+
+    async append(file: string, data: Uint8Array): Promise<Error | undefined> {
+        try {
+            const fs = await import("node:fs/promises");
+            await fs.mkdir(this.dir, { recursive: true });
+            await fs.appendFile(this.#path(file), data);
+            return undefined;
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        }
+    }
+
+    async read(file: string, offset: number = 0, length?: number): Promise<Uint8Array | Error> {
+        try {
+            const fs = await import("node:fs/promises");
+            if (length === undefined) {
+                return new Uint8Array(await fs.readFile(this.#path(file))).subarray(offset);
+            }
+
+            const handle = await fs.open(this.#path(file), "r");
+            try {
+                const data = new Uint8Array(length);
+                const { bytesRead } = await handle.read(data, 0, length, offset);
+                return data.subarray(0, bytesRead);
+            } finally {
+                await handle.close();
+            }
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        }
+    }
+
+    async flush(): Promise<Error | undefined> {
+        return undefined;
+    }
+
+    #path(file: string): string {
+        return `${this.dir.replace(/\/+$/, "")}/${file}`;
+    }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return out;
+}
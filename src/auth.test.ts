@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    StaticTokenProvider,
+    RefreshingTokenProvider,
+    AuthError,
+    isUnauthorized,
+} from "./auth";
+
+describe("StaticTokenProvider", () => {
+    it("should always return the same token", async () => {
+        const provider = new StaticTokenProvider("secret");
+        expect(await provider.token()).toBe("secret");
+        expect(await provider.token()).toBe("secret");
+    });
+});
+
+describe("RefreshingTokenProvider", () => {
+    it("should cache a token without expiry", async () => {
+        const refresh = vi.fn().mockResolvedValue("t1");
+        const provider = new RefreshingTokenProvider(refresh);
+
+        expect(await provider.token()).toBe("t1");
+        expect(await provider.token()).toBe("t1");
+        expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refresh an expired token", async () => {
+        const refresh = vi.fn()
+            .mockResolvedValueOnce({ token: "t1", expiresAt: Date.now() - 1 })
+            .mockResolvedValueOnce({ token: "t2", expiresAt: Date.now() + 60_000 });
+        const provider = new RefreshingTokenProvider(refresh, { refreshMarginMs: 0 });
+
+        expect(await provider.token()).toBe("t1");
+        expect(await provider.token()).toBe("t2");
+        expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share a single refresh between concurrent callers", async () => {
+        const refresh = vi.fn().mockResolvedValue("t1");
+        const provider = new RefreshingTokenProvider(refresh);
+
+        const tokens = await Promise.all([provider.token(), provider.token()]);
+        expect(tokens).toEqual(["t1", "t1"]);
+        expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refresh after invalidate", async () => {
+        const refresh = vi.fn()
+            .mockResolvedValueOnce("t1")
+            .mockResolvedValueOnce("t2");
+        const provider = new RefreshingTokenProvider(refresh);
+
+        expect(await provider.token()).toBe("t1");
+        provider.invalidate();
+        expect(await provider.token()).toBe("t2");
+    });
+});
+
+describe("isUnauthorized", () => {
+    it("should detect the errors the provider recognizes", () => {
+        const auth = new StaticTokenProvider("secret", { unauthorized: (err) => (err as { code?: number }).code === 401 });
+
+        expect(isUnauthorized(Object.assign(new Error("denied"), { code: 401 }), auth)).toBe(true);
+        expect(isUnauthorized(Object.assign(new Error("gone"), { code: 404 }), auth)).toBe(false);
+        // Without a provider telling, a relay error is not taken as a rejected token
+        expect(isUnauthorized(Object.assign(new Error("denied"), { code: 401 }))).toBe(false);
+    });
+
+    it("should detect AuthError", () => {
+        expect(isUnauthorized(new AuthError("denied"))).toBe(true);
+    });
+
+    it("should ignore other errors", () => {
+        expect(isUnauthorized(new Error("network"))).toBe(false);
+        expect(isUnauthorized(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,112 @@
+
+/**
+ * Supplies the credentials used when joining a room.
+ * The token is sent along with every announce and subscribe request.
+ */
+export interface AuthProvider {
+    token(): Promise<string>;
+
+    // Called when the relay rejected the last token so the provider can drop it
+    invalidate?(): void;
+
+    // Tells whether the relay rejected the token with this error.
+    // Relays report it in their own way; without this, only AuthErrors count as rejections.
+    isUnauthorized?(err: Error): boolean;
+}
+
+// Recognizes the error a relay rejects a token with, e.g. by its code
+export type UnauthorizedFunc = (err: Error) => boolean;
+
+// Passed to the publish, announce and subscribe calls of the moqt session,
+// which send the token to the relay with the request
+export interface AuthOptions {
+    token: string;
+}
+
+export class StaticTokenProvider implements AuthProvider {
+    readonly #token: string;
+    #unauthorized?: UnauthorizedFunc;
+
+    constructor(token: string, options?: { unauthorized?: UnauthorizedFunc }) {
+        this.#token = token;
+        this.#unauthorized = options?.unauthorized;
+    }
+
+    async token(): Promise<string> {
+        return this.#token;
+    }
+
+    isUnauthorized(err: Error): boolean {
+        return this.#unauthorized?.(err) ?? false;
+    }
+}
+
+export interface RefreshedToken {
+    token: string;
+    // Epoch milliseconds after which the token must be refreshed
+    expiresAt?: number;
+}
+
+export type TokenRefreshFunc = () => Promise<RefreshedToken | string>;
+
+export class RefreshingTokenProvider implements AuthProvider {
+    #refresh: TokenRefreshFunc;
+    #margin: number;
+    #cached?: RefreshedToken;
+    #pending?: Promise<RefreshedToken>;
+    #unauthorized?: UnauthorizedFunc;
+
+    constructor(refresh: TokenRefreshFunc, options?: { refreshMarginMs?: number; unauthorized?: UnauthorizedFunc }) {
+        this.#refresh = refresh;
+        this.#margin = options?.refreshMarginMs ?? 5000;
+        this.#unauthorized = options?.unauthorized;
+    }
+
+    async token(): Promise<string> {
+        const cached = this.#cached;
+        if (cached && (cached.expiresAt === undefined || cached.expiresAt - this.#margin > Date.now())) {
+            return cached.token;
+        }
+
+        // Share a single in-flight refresh between concurrent callers
+        if (!this.#pending) {
+            this.#pending = this.#refresh().then((result) => {
+                return typeof result === "string" ? { token: result } : result;
+            }).finally(() => {
+                this.#pending = undefined;
+            });
+        }
+
+        this.#cached = await this.#pending;
+        return this.#cached.token;
+    }
+
+    invalidate(): void {
+        this.#cached = undefined;
+    }
+
+    isUnauthorized(err: Error): boolean {
+        return this.#unauthorized?.(err) ?? false;
+    }
+}
+
+export class AuthError extends Error {
+    readonly cause?: Error;
+
+    constructor(message: string, cause?: Error) {
+        super(message);
+        this.name = "AuthError";
+        this.cause = cause;
+    }
+}
+
+// Tells whether err rejected the token, as recognized by the provider of the token
+export function isUnauthorized(err: unknown, auth?: AuthProvider): boolean {
+    if (err instanceof AuthError) {
+        return true;
+    }
+    if (!err) {
+        return false;
+    }
+    return auth?.isUnauthorized?.(err as Error) ?? false;
+}
@@ -123,7 +123,7 @@ describe("BroadcastPublisher", () => {
             removeTrack: vi.fn(),
             close: vi.fn(),
         };
-        const publisher = new BroadcastPublisher("room", "path", mockCatalog as any);
+        const publisher = new BroadcastPublisher("room", { id: "path" });
         const track = { name: "video" } as any;
         const encoder = {} as any;
         publisher.setTrack(track, encoder);
@@ -137,7 +137,7 @@ describe("BroadcastPublisher", () => {
             removeTrack: vi.fn(),
             close: vi.fn(),
         };
-        const publisher = new BroadcastPublisher("room", "path", mockCatalog as any);
+        const publisher = new BroadcastPublisher("room", { id: "path" });
         publisher.removeTrack("video");
         expect(mockCatalog.removeTrack).toHaveBeenCalledWith("video");
     });
@@ -149,7 +149,7 @@ describe("BroadcastPublisher", () => {
             removeTrack: vi.fn(),
             close: vi.fn(),
         };
-        const publisher = new BroadcastPublisher("room", "path", mockCatalog as any);
+        const publisher = new BroadcastPublisher("room", { id: "path" });
         const ctx = Promise.resolve();
         const track = { trackName: "video", closeWithError: vi.fn(), close: vi.fn() } as any;
         const encoder = { encodeTo: vi.fn().mockResolvedValue(undefined), close: vi.fn(), encoding: "mock" } as any;
@@ -165,7 +165,7 @@ describe("BroadcastPublisher", () => {
             removeTrack: vi.fn(),
             close: vi.fn(),
         };
-        const publisher = new BroadcastPublisher("room", "path", mockCatalog as any);
+        const publisher = new BroadcastPublisher("room", { id: "path" });
         await publisher.close();
         expect(mockCatalog.close).toHaveBeenCalled();
     });
@@ -1,167 +1,1043 @@
-import type { TrackWriter, Session, TrackReader, TrackHandler } from "@okutanidaichi/moqt";
-import { TrackNotFoundErrorCode, SubscribeCanceledErrorCode } from "@okutanidaichi/moqt";
+import type { TrackWriter, Session, TrackHandler, GroupWriter, GroupErrorCode, Frame } from "@okutanidaichi/moqt";
+import { TrackNotFoundErrorCode, PublishAbortedErrorCode, SubscribeCanceledErrorCode } from "@okutanidaichi/moqt";
 import type { BroadcastPath, TrackName } from "@okutanidaichi/moqt";
+import { EOF } from "@okutanidaichi/moqt/io";
 import {
     JsonEncoder,
     GroupCache,
+    LatestGroupCache,
     type EncodedChunk,
 } from "./internal";
 import {
     CATALOG_TRACK_NAME,
+    CHAT_TRACK_NAME,
+    EVENTS_TRACK_NAME,
+    LEVELS_TRACK_NAME,
+    HEARTBEAT_TRACK_NAME,
     CatalogInitSchema,
-    DEFAULT_CATALOG_VERSION
+    DEFAULT_CATALOG_VERSION,
+    CATALOG_PRIORITY,
+    DATA_PRIORITY,
+    parseTrackDescriptor
 } from "./catalog";
-import type { TrackDescriptor, CatalogInit } from "./catalog";
+import type { TrackDescriptor, CatalogInit, TypedTrackDescriptor } from "./catalog";
 import type { Context, CancelCauseFunc } from "golikejs/context";
 import { withCancelCause, background } from "golikejs/context";
-import { participantName } from "./room";
-import { CatalogEncoder,TrackCatalog,CatalogDecoder } from "./internal/catalog_stream";
+import type { BroadcastPathCodec } from "./path";
+import { DEFAULT_BROADCAST_PATH_CODEC } from "./path";
+import { CatalogEncoder,TrackCatalog,CatalogDecoder,sameDescriptor } from "./internal/catalog_stream";
 import type { EncodeDestination } from "./internal/container";
+import type { JsonLineDestination } from "./internal/json_track";
+import type { ReadableTrack, TrackSubscription } from "./internal/reader";
+import type { AuthProvider, AuthOptions } from "./auth";
+import { AuthError, isUnauthorized } from "./auth";
+import { ChatEncoder, chatTrackDescriptor } from "./chat";
+import { SignalEncoder, eventsTrackDescriptor } from "./signals";
+import { LevelEncoder, levelsTrackDescriptor } from "./speakers";
+import { HeartbeatEncoder, heartbeatTrackDescriptor } from "./heartbeat";
+import { EventStream } from "./internal/event_stream";
+import { FrameScheduler, FrameDroppedError } from "./internal/scheduler";
+import { SimulcastReceiver, renditionOf } from "./simulcast";
+import type { SimulcastRendition, Rendition } from "./simulcast";
+import { keepSubscribed } from "./resubscribe";
+import type { ResubscribeInit, TrackStateChange, TrackSubscriptionState } from "./resubscribe";
+import { DeliveryMeter } from "./stats";
+import type { PublisherStats } from "./stats";
+import { QoEMonitor } from "./qoe";
+import type { QoEEvent, QoEInit, QoEStats } from "./qoe";
+import { FrameEncryptor, FrameDecryptor, DecryptingTrackReader } from "./e2ee";
+import type { KeyProvider, FrameChunk } from "./e2ee";
+import { FrameSigner, VerifyingTrackReader, SignatureError, SignatureCounter } from "./signing";
+import { MODERATION_TRACK_NAME } from "./moderation";
+import type { PublicKeyLookup, VerifiedCounter } from "./signing";
 
 type EncodeCallback = (chunk: EncodedChunk) => Promise<void>;
 
-interface Track {
-    encodeTo(dest: EncodeDestination): Promise<void>;
+// Publishes the frames of a track, e.g. a video or audio encode node, or a JSON line encoder.
+// encodeTo must return once dest.done resolves.
+export interface TrackEncoder {
+    encodeTo(dest: EncodeDestination): Promise<Error | undefined | void>;
+
+    // Makes the next chunk a keyframe, e.g. when a paused track resumes
+    requestKeyframe?(): void;
+}
+
+// A change of a track in the catalog of a remote broadcast
+export type TrackEvent = TypedTrackDescriptor & (
+    | { type: "added" }
+    | { type: "updated"; previous: TypedTrackDescriptor }
+    | { type: "ended" }
+    | { type: "paused" } // The track is kept, but no frames are sent until resumed
+    | { type: "resumed" }
+);
+
+// Tracks served by the publisher itself
+const BUILTIN_TRACK_NAMES = [CATALOG_TRACK_NAME, CHAT_TRACK_NAME, EVENTS_TRACK_NAME, LEVELS_TRACK_NAME, HEARTBEAT_TRACK_NAME];
+
+// Tracks of JSON lines, whose frames are signed without their group sequence
+const JSON_TRACK_NAMES = [CHAT_TRACK_NAME, EVENTS_TRACK_NAME, LEVELS_TRACK_NAME, HEARTBEAT_TRACK_NAME, MODERATION_TRACK_NAME];
+
+// JSON tracks whose frames may be dropped under backpressure; the others never are
+const LOSSY_TRACK_NAMES = [LEVELS_TRACK_NAME];
+
+// Writes JSON lines to each subscriber of a track
+export interface JsonLineSource {
+    encodeTo(dest: JsonLineDestination): Promise<Error | undefined>;
+}
+
+export interface BroadcastPublisherInit {
+    id?: string; // Default: a random UUID
+    // Every frame including the catalog is end-to-end encrypted;
+    // a track stops when there is no encryption key to write it with
+    keys?: KeyProvider;
+    // The catalog chunks and the frames of every other track are signed,
+    // for subscribers to verify with the public key handed out at join
+    signingKey?: CryptoKey;
 }
 
 export class BroadcastPublisher implements TrackHandler {
-    readonly name: string;
-    #encoders: Map<string, TrackEncoder> = new Map();
+    readonly id: string; // Unique member ID used in the broadcast path
+    readonly name: string; // Display name carried in the catalog
+    // The group being written on each track, replayed to new subscribers
+    #caches: Map<string, LatestGroupCache> = new Map();
     #ctx: Context;
     #cancelCtx: CancelCauseFunc;
 
-    #tracks: Map<string, TrackDescriptor> = new Map();
+    // Listed in the catalog until removed; ending one closes its subscriptions
+    #tracks: Map<string, TrackCatalog> = new Map();
+    #encoders: Map<string, TrackEncoder> = new Map();
 
     #catalog: CatalogEncoder;
 
-    constructor(name: string, description?: string) {
+    // Queues the writes of each subscription being served
+    #schedulers: Set<FrameScheduler> = new Set();
+
+    #stats: DeliveryMeter = new DeliveryMeter();
+
+    // Set when the frames are end-to-end encrypted
+    #encryptor?: FrameEncryptor;
+
+    // Set when the catalog and the frames are signed
+    #signingKey?: CryptoKey;
+    // Numbers the frames of the JSON tracks across subscriptions
+    #counter: SignatureCounter = new SignatureCounter();
+
+    // Text chat of the member, published as the chat track
+    readonly chat: ChatEncoder;
+
+    // Reactions, hand and away states, published as the events track
+    readonly signals: SignalEncoder;
+
+    // Audio level of the member for active speaker detection, published as the levels track
+    readonly levels: LevelEncoder;
+
+    // Liveness of the member, published as the heartbeat track
+    readonly heartbeat: HeartbeatEncoder;
+
+    constructor(name: string, init: BroadcastPublisherInit = {}) {
+        const id = init.id ?? crypto.randomUUID();
+        this.id = id;
         this.name = name;
+        if (init.keys) {
+            this.#encryptor = new FrameEncryptor(init.keys);
+        }
+        this.#signingKey = init.signingKey;
         [this.#ctx, this.#cancelCtx] = withCancelCause(background());
 
         this.#catalog = new CatalogEncoder({
             version: DEFAULT_CATALOG_VERSION,
+            name: name,
+            signingKey: init.signingKey,
         });
+
+        this.chat = new ChatEncoder(id);
+        this.signals = new SignalEncoder();
+        this.levels = new LevelEncoder();
+        this.heartbeat = new HeartbeatEncoder();
+        this.#catalog.set([
+            new TrackCatalog(this.#ctx.done(), chatTrackDescriptor(this.chat.history)),
+            new TrackCatalog(this.#ctx.done(), eventsTrackDescriptor(this.signals.rate, this.signals.burst)),
+            new TrackCatalog(this.#ctx.done(), levelsTrackDescriptor(this.levels.interval)),
+            new TrackCatalog(this.#ctx.done(), heartbeatTrackDescriptor(this.heartbeat.interval)),
+        ]);
     }
 
-    setTrack(tracks: {catalog: TrackCatalog}): void {
-        if (track.descriptor.name === CATALOG_TRACK_NAME) {
-            throw new Error("Cannot add catalog track");
+    // Adds a track to the broadcast, or replaces the track with the same name.
+    // Subscribers of a replaced track are closed and have to subscribe again.
+    setTrack(descriptor: TrackDescriptor, encoder: TrackEncoder): void {
+        if (BUILTIN_TRACK_NAMES.includes(descriptor.name)) {
+            throw new Error(`Cannot replace the ${descriptor.name} track`);
         }
 
-        this.#encoders.set(track.descriptor.name, track.encoder);
+        const replaced = this.#tracks.get(descriptor.name);
+        const track = new TrackCatalog(this.#ctx.done(), descriptor);
+        this.#tracks.set(descriptor.name, track);
+        this.#encoders.set(descriptor.name, encoder);
+        replaced?.end();
+        this.#cacheTrack(track, encoder);
+
+        this.#catalog.set([track]);
+    }
+
+    // Publishes one source as several renditions, each its own track in the same simulcast group.
+    // Renditions of the group left out are removed. The encoders should start groups at the
+    // same keyframes so that subscribers can switch between renditions at any group.
+    setSimulcast(group: string, renditions: SimulcastRendition[]): void {
+        const names = new Set(renditions.map((rendition) => rendition.descriptor.name));
+        for (const [name, track] of this.#tracks) {
+            if (track.descriptor.group === group && !names.has(name)) {
+                this.removeTrack(name);
+            }
+        }
 
-        this.#catalog.set()
+        for (const { descriptor, encoder } of renditions) {
+            this.setTrack({ ...descriptor, group }, encoder);
+        }
+    }
+
+    // Removes a track from the broadcast, announcing it as ended in the catalog
+    removeTrack(name: string): void {
+        const track = this.#tracks.get(name);
+        if (!track) {
+            return;
+        }
+        this.#tracks.delete(name);
+        this.#encoders.delete(name);
+        track.end();
+
+        this.#catalog.set([track]);
+    }
+
+    // Stops sending the frames of a track, e.g. while the camera is off, keeping the track
+    // and its subscriptions. Subscribers are told through the catalog.
+    pauseTrack(name: string): void {
+        this.#setPaused(name, true);
+    }
+
+    // Sends the frames of a paused track again, from a fresh keyframe
+    resumeTrack(name: string): void {
+        if (this.#setPaused(name, false)) {
+            this.#encoders.get(name)?.requestKeyframe?.();
+        }
+    }
+
+    isPaused(name: string): boolean {
+        return this.#tracks.get(name)?.paused ?? false;
+    }
+
+    #setPaused(name: string, paused: boolean): boolean {
+        const track = this.#tracks.get(name);
+        if (!track || track.paused === paused) {
+            return false;
+        }
+        track.setPaused(paused);
+
+        this.#catalog.set([track]);
+        return true;
+    }
+
+    hasTrack(name: string): boolean {
+        return this.#tracks.has(name);
+    }
+
+    // What was sent to each subscriber so far, and the totals of each track
+    getStats(): PublisherStats {
+        return {
+            timestamp: Date.now(),
+            tracks: this.#stats.tracks(),
+            subscriptions: this.#stats.subscriptions(),
+            framesDropped: this.#stats.tracks().reduce((sum, track) => sum + track.framesDropped, 0),
+            pendingWrites: Array.from(this.#schedulers).reduce((sum, scheduler) => sum + scheduler.pending, 0),
+        };
     }
 
     async serveTrack(ctx: Promise<void>, track: TrackWriter): Promise<void> {
         if (track.trackName === CATALOG_TRACK_NAME) {
-            await this.#catalog.encodeTo()
+            const meter = this.#stats.subscribe(track.trackName, requestedPriority(track) ?? CATALOG_PRIORITY);
+            await this.#catalog.encodeTo({
+                output: async (chunk: EncodedChunk): Promise<Error | undefined> => {
+                    const [sealed, err] = await this.#seal(chunk);
+                    if (err) {
+                        return err;
+                    }
+                    return await meter.measure(sealed!, () => track.writeFrame(sealed!))();
+                },
+                done: ctx,
+            });
+            meter.close();
+            await track.close();
+            return;
+        }
+
+        const lines = track.trackName === CHAT_TRACK_NAME ? this.chat
+            : track.trackName === EVENTS_TRACK_NAME ? this.signals
+            : track.trackName === LEVELS_TRACK_NAME ? this.levels
+            : track.trackName === HEARTBEAT_TRACK_NAME ? this.heartbeat
+            : undefined;
+        if (lines) {
+            await this.serveLines(ctx, track, lines);
             return;
         }
 
-        const encoder = this.#encoders.get(track.trackName);
-        if (!encoder) {
+        const cache = this.#caches.get(track.trackName);
+        const catalog = this.#tracks.get(track.trackName);
+        if (!cache || !catalog) {
             track.closeWithError(TrackNotFoundErrorCode, `track not found: ${track.trackName}`);
             return;
         }
 
-        await encoder.encodeTo({
-            output: async (chunk: EncodedChunk): Promise<Error | undefined> => {
-                return await track.writeFrame(chunk);
+        const priority = requestedPriority(track) ?? catalog.descriptor.priority;
+        // Stop when the track is removed or replaced as well
+        const done = Promise.race([ctx, catalog.done]);
+        const writers: Set<GroupWriter> = new Set();
+        const meter = this.#stats.subscribe(track.trackName, priority);
+        const scheduler = this.#scheduler();
+
+        // Start with the group being written, from its keyframe, then follow the live groups.
+        // The last group of a paused track is stale, so the next one is awaited instead.
+        let group = catalog.paused
+            ? await cache.next(cache.latest, done)
+            : cache.latest ?? await cache.next(undefined, done);
+        while (group) {
+            const [writer, err] = await track.openGroup(group.sequence);
+            if (err) {
+                break;
+            }
+
+            writers.add(writer!);
+            meter.groupOpened();
+            const sequence = group.sequence;
+            group.flush({
+                writeFrame: async (frame: Frame) => {
+                    const err = await scheduler.schedule(sequence, meter.measure(frame, () => writer!.writeFrame(frame)));
+                    if (err instanceof FrameDroppedError) {
+                        meter.frameDropped();
+                    }
+                    return err;
+                },
+                close: () => writer!.close(),
+                cancel: (code: GroupErrorCode, message: string) => {
+                    meter.groupCancelled();
+                    return writer!.cancel(code, message);
+                },
+            }).finally(() => {
+                writers.delete(writer!);
+                scheduler.release(sequence);
+            });
+
+            group = await cache.next(group, done);
+        }
+
+        for (const writer of writers) {
+            meter.groupCancelled();
+            writer.cancel(PublishAbortedErrorCode, "subscription ended");
+        }
+        this.#schedulers.delete(scheduler);
+        meter.close();
+        await track.close();
+    }
+
+    // Serves a track of JSON lines, encrypted and signed like the built-in ones,
+    // e.g. the replies to the host's commands
+    async serveLines(ctx: Promise<void>, track: TrackWriter, lines: JsonLineSource): Promise<void> {
+        const priority = requestedPriority(track) ?? (track.trackName === HEARTBEAT_TRACK_NAME ? CATALOG_PRIORITY : DATA_PRIORITY);
+        const meter = this.#stats.subscribe(track.trackName, priority);
+        // Levels are superseded by the next ones and may be dropped; a lost chat message,
+        // signal, heartbeat or reply is not, so those are never dropped
+        const scheduler = LOSSY_TRACK_NAMES.includes(track.trackName) ? this.#scheduler() : undefined;
+        const signer = this.#signingKey ? new FrameSigner(this.#signingKey, track.trackName, undefined, this.#counter) : undefined;
+        let sequence = 0n;
+        await lines.encodeTo({
+            output: async (chunk) => {
+                const [sealed, err] = await this.#seal(chunk);
+                if (err) {
+                    return err;
+                }
+                const frame = signer ? await signer.sign(sealed!) : sealed!;
+                const write = meter.measure(frame, () => track.writeFrame(frame));
+                if (!scheduler) {
+                    return await write();
+                }
+
+                const line = sequence++;
+                const werr = await scheduler.schedule(line, write);
+                scheduler.release(line);
+                if (werr instanceof FrameDroppedError) {
+                    // Lossy: the next levels follow
+                    meter.frameDropped();
+                    return undefined;
+                }
+                return werr;
             },
             done: ctx,
         });
+        if (scheduler) {
+            this.#schedulers.delete(scheduler);
+        }
+        meter.close();
+        await track.close();
+    }
+
+    // Encodes a track once for all of its subscribers. A group starts at each chunk
+    // not depending on earlier ones, e.g. a keyframe, and ends at the next one.
+    async #cacheTrack(track: TrackCatalog, encoder: TrackEncoder): Promise<void> {
+        const name = track.descriptor.name;
+        const cache = new LatestGroupCache();
+        this.#caches.set(name, cache);
+
+        let group: GroupCache | undefined;
+        let signer: FrameSigner | undefined;
+        let sequence = 0n;
+        // Set once chunks were dropped while paused, until the next keyframe
+        let resuming = false;
+        const err = await encoder.encodeTo({
+            output: async (chunk: EncodedChunk): Promise<Error | undefined> => {
+                if (track.paused) {
+                    resuming = true;
+                    return undefined;
+                }
+                if (resuming) {
+                    if (chunk.type === "delta") {
+                        return undefined;
+                    }
+                    resuming = false;
+                }
+
+                const [sealed, err] = await this.#seal(chunk);
+                if (err) {
+                    return err;
+                }
+                if (!group || chunk.type !== "delta") {
+                    group = new GroupCache(sequence++, Date.now());
+                    if (this.#signingKey) {
+                        signer = new FrameSigner(this.#signingKey, name, group.sequence);
+                    }
+                    cache.store(group);
+                }
+                await group.append(signer ? await signer.sign(sealed!) : sealed!);
+                return undefined;
+            },
+            done: track.done,
+        });
+        if (err) {
+            console.warn(`[BroadcastPublisher] failed to encode ${name}: ${err}`);
+        }
+
+        await cache.close();
+        if (this.#caches.get(name) === cache) {
+            this.#caches.delete(name);
+        }
+        if (this.#tracks.get(name) === track) {
+            this.#encoders.delete(name);
+        }
+    }
 
-        await track.close(); // Ensure the track is closed after serving; Is this necessary?
+    #scheduler(): FrameScheduler {
+        const scheduler = new FrameScheduler();
+        this.#schedulers.add(scheduler);
+        return scheduler;
+    }
+
+    async #seal(chunk: FrameChunk): Promise<[FrameChunk, undefined] | [undefined, Error]> {
+        if (!this.#encryptor) {
+            return [chunk, undefined];
+        }
+        return await this.#encryptor.encryptChunk(chunk);
     }
 
     async close(cause?: Error): Promise<void> {
-        const catalogEncoder = this.#encoders.get(CATALOG_TRACK_NAME);
-        if (catalogEncoder) {
-            await catalogEncoder.close(cause);
+        for (const track of this.#tracks.values()) {
+            track.end();
         }
+        this.#tracks.clear();
+        this.#cancelCtx(cause);
         this.#catalog.close();
-        this.#encoders.clear();
+        this.chat.close();
+        this.signals.close();
+        this.levels.close();
+        this.heartbeat.close();
     }
 }
 
 interface DecodeNode {
-    decodeFrom(ctx: Promise<void>, reader: TrackReader): Promise<Error | undefined>;
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined>;
+}
+
+// Passed to the subscribe call of the moqt session: the token goes to the relay with the request,
+// and the priority to the publisher, which reads it back from the config of its track writer
+interface SubscribeOptions extends Partial<AuthOptions> {
+    trackPriority?: number;
+}
+
+// The priority a subscriber asked for in place of the one in the catalog, if any
+function requestedPriority(track: TrackWriter): number | undefined {
+    const priority = track.config?.trackPriority;
+    return typeof priority === "number" ? priority : undefined;
+}
+
+export interface BroadcastSubscriberInit {
+    // Token for the subscriptions, refreshed when the relay rejects it
+    auth?: AuthProvider;
+    codec?: BroadcastPathCodec; // Default: DEFAULT_BROADCAST_PATH_CODEC
+    // How the tracks are subscribed again after they end unexpectedly
+    resubscribe?: ResubscribeInit;
+    // Decrypts the frames of every track including the catalog
+    keys?: KeyProvider;
+    // Looks up the public key of the member to verify the catalog and the frames with
+    publicKeys?: PublicKeyLookup;
 }
 
 export class BroadcastSubscriber {
     #path: BroadcastPath;
     readonly roomID: string;
-    readonly session: Session;
+    readonly id: string;
+    #name?: string;
+    #session: Session;
+    #auth?: AuthProvider;
     #decoders: Map<string, DecodeNode> = new Map();
-    #catalog?: CatalogDecoder;
+    #catalog?: Promise<CatalogDecoder | Error>;
+
+    // Tracks listed in the catalog, once tracks() was called
+    #tracks: Map<string, [TrackCatalog, TypedTrackDescriptor]> = new Map();
+    #trackEvents: EventStream<TrackEvent> = new EventStream();
+    #watching: boolean = false;
+    #tracksEnded: boolean = false;
+    // Tracks listed before the last reconnect, until the catalog on the new session lists them again
+    #moved: Set<string> = new Set();
+    // Tracks announced as paused
+    #pausedTracks: Set<string> = new Set();
+
+    #resubscribe: ResubscribeInit;
+    #trackStates: Map<string, TrackStateChange> = new Map();
+    #stateEvents: EventStream<TrackStateChange> = new EventStream();
+
+    // Playback of the tracks being decoded
+    #monitors: Map<string, QoEMonitor> = new Map();
+    #qoeEvents: EventStream<QoEEvent> = new EventStream();
+    #closed: boolean = false;
+
+    // Set when the frames are end-to-end encrypted
+    #decryptor?: FrameDecryptor;
+
+    // Set when the broadcast has to be signed by the member
+    #publicKeys?: PublicKeyLookup;
+    #publicKey?: Promise<CryptoKey | Error>;
+    // The last number verified on the catalog and each JSON track, kept across subscriptions
+    #verified: Map<TrackName, VerifiedCounter> = new Map();
 
     #ctx: Context;
     #cancelCtx: CancelCauseFunc;
+    // Cancelled when the broadcast moves to a new session
+    #sessionCtx: Context;
+    #cancelSession: CancelCauseFunc;
 
     // oncatalog?: CatalogCallbacks
 
-    constructor(path: BroadcastPath, roomID: string, session: Session) {
+    constructor(path: BroadcastPath, roomID: string, session: Session, init: BroadcastSubscriberInit = {}) {
+        const codec = init.codec ?? DEFAULT_BROADCAST_PATH_CODEC;
+        const id = codec.parse(roomID, path);
+        if (id === undefined) {
+            throw new Error(`hang: broadcast path ${path} is not in room ${roomID}`);
+        }
         this.#path = path;
         this.roomID = roomID;
-        this.session = session;
+        this.id = id;
+        this.#session = session;
+        this.#auth = init.auth;
+        this.#resubscribe = init.resubscribe ?? {};
+        if (init.keys) {
+            this.#decryptor = new FrameDecryptor(id, init.keys);
+        }
+        this.#publicKeys = init.publicKeys;
         const [ctx, cancelCtx] = withCancelCause(background());
         this.#ctx = ctx;
         this.#cancelCtx = (cause?: Error) => {
             cancelCtx(cause);
         };
-        this.#catalog = catalog ?? new CatalogDecodeNode({});
+        [this.#sessionCtx, this.#cancelSession] = withCancelCause(ctx);
+    }
 
-        this.subscribeTrack(CATALOG_TRACK_NAME, this.#catalog).then((err) => {
-            // Ignore errors
-            if (err) {
-                console.error("Failed to subscribe to catalog track:", err);
+    // Subscribes to the catalog on first use
+    catalog(): Promise<CatalogDecoder | Error> {
+        if (!this.#catalog) {
+            this.#catalog = (async () => {
+                const key = await this.#verifyKey();
+                if (key instanceof Error) {
+                    this.#catalog = undefined;
+                    return key;
+                }
+
+                const [track, err] = await this.#subscribe(CATALOG_TRACK_NAME);
+                if (err) {
+                    // Let the next call try again
+                    this.#catalog = undefined;
+                    return err;
+                }
+                return new CatalogDecoder({
+                    version: DEFAULT_CATALOG_VERSION,
+                    reader: track!,
+                    verifyKey: key,
+                    verified: this.#verifiedCounter(CATALOG_TRACK_NAME),
+                });
+            })();
+        }
+        return this.#catalog;
+    }
+
+    // Yields an added event for each track already in the catalog, then every track added,
+    // updated or ended. The iteration stops once the catalog track ends, the broadcast is closed
+    // or done resolves. Tracks with an invalid descriptor are skipped.
+    // A catalog lost with the session keeps its tracks listed until reconnect() reads it again.
+    tracks(done?: Promise<void>): AsyncIterableIterator<TrackEvent> {
+        if (!this.#watching) {
+            this.#watching = true;
+            this.#watchTracks();
+        }
+
+        const backlog: TrackEvent[] = Array.from(this.#tracks.values()).flatMap(([, track]): TrackEvent[] => {
+            const added: TrackEvent = { type: "added", ...track };
+            return this.#pausedTracks.has(track.descriptor.name) ? [added, { type: "paused", ...track }] : [added];
+        });
+        const events = this.#trackEvents.subscribe(done, backlog);
+        if (this.#tracksEnded) {
+            events.return!();
+        }
+        return events;
+    }
+
+    async #watchTracks(): Promise<void> {
+        while (true) {
+            const session = this.#sessionCtx;
+            const lost = await this.#watchCatalog(session);
+            if (!lost) {
+                break;
+            }
+            // Wait for reconnect() or close()
+            await session.done();
+            if (this.#ctx.err()) {
+                break;
+            }
+            this.#moved = new Set(this.#tracks.keys());
+        }
+
+        // Every track goes away with the catalog
+        for (const name of Array.from(this.#tracks.keys())) {
+            this.#endTrack(name);
+        }
+        this.#tracksEnded = true;
+        this.#trackEvents.close();
+    }
+
+    // Lists the tracks of the catalog until it ends, or until the broadcast moves to a new session.
+    // Resolves to true when the catalog was lost with the session rather than ended.
+    async #watchCatalog(session: Context): Promise<boolean> {
+        const catalog = await this.catalog();
+        if (catalog instanceof Error) {
+            console.warn(`[BroadcastSubscriber] failed to read the catalog of ${this.id}: ${catalog}`);
+            return false;
+        }
+
+        const update = (tracks: TrackCatalog[]) => {
+            for (const track of tracks) {
+                this.#updateTrack(catalog, track);
             }
+            if (tracks.length > 0 && this.#moved.size > 0) {
+                // The first listing on the new session is complete: the tracks missing from it are gone
+                for (const name of this.#moved) {
+                    this.#endTrack(name);
+                }
+                this.#moved.clear();
+            }
+        };
+        // Take the tracks already listed and the later ones in the same tick, so that none is missed
+        update(catalog.tracks());
+        const err = await catalog.decodeTo(session.done(), update);
+        if (session.err()) {
+            catalog.cancel();
+            return !this.#ctx.err();
+        }
+        return err !== undefined && err !== EOF && !(err instanceof SignatureError);
+    }
+
+    #endTrack(name: string): void {
+        const track = this.#tracks.get(name);
+        if (!track) {
+            return;
+        }
+        this.#tracks.delete(name);
+        this.#pausedTracks.delete(name);
+        this.#closeMonitor(name);
+        this.#trackEvents.emit({ type: "ended", ...track[1] });
+    }
+
+    #updateTrack(decoder: CatalogDecoder, catalog: TrackCatalog): void {
+        const name = catalog.descriptor.name;
+        const typed = parseTrackDescriptor(catalog.descriptor);
+        if (typed instanceof Error) {
+            console.warn(`[BroadcastSubscriber] ${typed.message}`);
+            return;
+        }
+
+        const previous = this.#tracks.get(name);
+        if (previous?.[0] === catalog) {
+            // Paused or resumed in place
+            this.#pauseChanged(name, catalog.paused);
+            return;
+        }
+
+        // A track listed again on the new session is not updated unless its descriptor changed
+        const relisted = this.#moved.delete(name) && sameDescriptor(previous![0].descriptor, catalog.descriptor);
+        this.#tracks.set(name, [catalog, typed]);
+        if (!previous) {
+            this.#trackEvents.emit({ type: "added", ...typed });
+        } else if (!relisted) {
+            this.#trackEvents.emit({ type: "updated", ...typed, previous: previous[1] });
+        }
+        this.#pauseChanged(name, catalog.paused);
+
+        catalog.done.then(() => {
+            // A replaced track is not ended, and the tracks still listed end with the catalog itself
+            if (this.#tracks.get(name)?.[0] !== catalog || decoder.tracks().includes(catalog)) {
+                return;
+            }
+            this.#endTrack(name);
         });
     }
 
-    async catalog(): Promise<CatalogDecoder | Error> {
-        if (this.#catalog) {
-            return this.#catalog;
+    #pauseChanged(name: string, paused: boolean): void {
+        const typed = this.#tracks.get(name)?.[1];
+        if (!typed || paused === this.#pausedTracks.has(name)) {
+            return;
+        }
+        if (paused) {
+            this.#pausedTracks.add(name);
+        } else {
+            this.#pausedTracks.delete(name);
         }
 
-        const [track, err] = await this.session.subscribe(this.#path, CATALOG_TRACK_NAME);
-        if (err) {
-            return err;
+        // No frames are expected while paused
+        const monitor = this.#monitors.get(name);
+        if (paused) {
+            monitor?.stop();
+        } else if (this.trackState(name) === "active") {
+            monitor?.start();
         }
 
-        this.#catalog = new CatalogDecoder({
-            version: DEFAULT_CATALOG_VERSION,
-            reader: track,
+        this.#trackEvents.emit({ type: paused ? "paused" : "resumed", ...typed });
+    }
+
+    // Whether the publisher paused the track, as last listed in the catalog
+    isPaused(name: string): boolean {
+        return this.#tracks.get(name)?.[0].paused ?? false;
+    }
+
+    get path(): BroadcastPath {
+        return this.#path;
+    }
+
+    get session(): Session {
+        return this.#session;
+    }
+
+    // Moves the broadcast to a new session after the previous one was lost.
+    // The catalog is read again, and the subscribed tracks are subscribed again on the new session.
+    // Tracks still listed by the new catalog are not reported as updated or ended.
+    reconnect(session: Session): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#session = session;
+
+        const catalog = this.#catalog;
+        this.#catalog = undefined;
+        catalog?.then((catalog) => {
+            if (!(catalog instanceof Error)) {
+                catalog.cancel();
+            }
         });
 
-        return this.#catalog;
+        const cancel = this.#cancelSession;
+        [this.#sessionCtx, this.#cancelSession] = withCancelCause(this.#ctx);
+        cancel(new Error(`hang: broadcast ${this.id} moved to a new session`));
     }
 
     hasTrack(name: string): boolean {
         return this.#decoders.has(name);
     }
 
+    // The display name once it was read from the catalog, the member ID until then
     get name(): string {
-        return participantName(this.roomID, this.#path);
+        return this.#name ?? this.id;
+    }
+
+    async displayName(): Promise<string | Error> {
+        const catalog = await this.catalog();
+        if (catalog instanceof Error) {
+            return catalog;
+        }
+
+        const init = await catalog.init();
+        if (init instanceof Error) {
+            return init;
+        }
+
+        this.#name = init.name;
+        return this.name;
+    }
+
+    // Decodes the track until the broadcast is closed, or until done resolves when given.
+    // A priority overrides the one in the catalog for this subscription, sent along with the subscribe request.
+    // Failed or lost subscriptions are made again with a backoff until the catalog reports the track
+    // as ended, or right away after reconnect(); resolves with the last error if the retries run out.
+    async subscribeTrack(name: TrackName, decoder: DecodeNode, done?: Promise<void>, priority?: number): Promise<Error | undefined> {
+        const ctx = done ? Promise.race([this.#ctx.done(), done]) : this.#ctx.done();
+        const stop = Promise.race([ctx, this.#ended(name, ctx)]);
+
+        return await keepSubscribed(
+            name,
+            () => this.#subscribe(name, priority),
+            async (ctx, track) => {
+                const session = this.#sessionCtx;
+                const err = await decoder.decodeFrom(Promise.race([ctx, session.done()]), track);
+                // Subscribe again once moved to a new session
+                return err ?? (this.#ctx.err() ? undefined : session.err());
+            },
+            stop,
+            this.#resubscribe,
+            (change) => this.#setTrackState(change),
+            () => this.#sessionCtx.done(),
+        );
+    }
+
+    trackState(name: string): TrackSubscriptionState | undefined {
+        return this.#trackStates.get(name)?.state;
+    }
+
+    // Yields the current state of each subscribed track, then every change until the broadcast is closed
+    trackStates(done?: Promise<void>): AsyncIterableIterator<TrackStateChange> {
+        const states = this.#stateEvents.subscribe(done, Array.from(this.#trackStates.values()));
+        if (this.#closed) {
+            states.return!();
+        }
+        return states;
     }
 
-    async subscribeTrack(name: TrackName, decoder: DecodeNode): Promise<Error | undefined> {
-        // Make a new subscription
-        const [track, err] = await this.session.subscribe(this.#path, name);
+    #setTrackState(change: TrackStateChange): void {
+        if (change.state === "ended") {
+            this.#trackStates.delete(change.name);
+        } else {
+            this.#trackStates.set(change.name, change);
+        }
+
+        // Frames are only expected while subscribed
+        if (change.state === "active") {
+            this.#monitors.get(change.name)?.start();
+        } else {
+            this.#monitors.get(change.name)?.stop();
+        }
+
+        this.#stateEvents.emit(change);
+    }
+
+    // Follows the playback of a track. Pass it to the decode node of the track, e.g.
+    // new VideoDecodeNode(context, { monitor: broadcast.monitor(name) }).
+    // Its events end once the track ends in the catalog or the broadcast is closed.
+    monitor(name: string, init?: QoEInit): QoEMonitor {
+        let monitor = this.#monitors.get(name);
+        if (!monitor) {
+            monitor = new QoEMonitor(name, (event) => this.#qoeEvents.emit(event), init);
+            if (this.#closed) {
+                monitor.close();
+                return monitor;
+            }
+            this.#monitors.set(name, monitor);
+            if (this.trackState(name) === "active") {
+                monitor.start();
+            }
+        }
+        return monitor;
+    }
+
+    // Freezes, underruns, decoder errors and keyframe waits of the monitored tracks,
+    // until the broadcast is closed
+    qoeEvents(done?: Promise<void>): AsyncIterableIterator<QoEEvent> {
+        const events = this.#qoeEvents.subscribe(done);
+        if (this.#closed) {
+            events.return!();
+        }
+        return events;
+    }
+
+    #closeMonitor(name: string): void {
+        this.#monitors.get(name)?.close();
+        this.#monitors.delete(name);
+    }
+
+    // Cumulative playback counters of each monitored track
+    qoeStats(): QoEStats[] {
+        return Array.from(this.#monitors.values(), (monitor) => monitor.stats);
+    }
+
+    // Resolves once the catalog reports the track as ended, or when ctx resolves
+    async #ended(name: string, ctx: Promise<void>): Promise<void> {
+        for await (const event of this.tracks(ctx)) {
+            if (event.type === "ended" && event.descriptor.name === name) {
+                return;
+            }
+        }
+        // The catalog is gone without listing the track
+        await ctx;
+    }
+
+    // Decodes a simulcast group as one track, switching renditions as the receiver is told
+    // the tile size and bandwidth. Renditions are followed in the catalog.
+    subscribeSimulcast(group: string, decoder: DecodeNode, done?: Promise<void>): SimulcastReceiver {
+        const receiver = new SimulcastReceiver(group, (name) => this.#subscribe(name));
+        const ctx = done ? Promise.race([this.#ctx.done(), done]) : this.#ctx.done();
+
+        (async () => {
+            const renditions: Map<string, Rendition> = new Map();
+            for await (const event of this.tracks(ctx)) {
+                if (event.kind !== "video" || event.descriptor.group !== group) {
+                    if (event.type === "updated" && renditions.delete(event.descriptor.name)) {
+                        // Moved out of the group
+                        receiver.setRenditions(Array.from(renditions.values()));
+                    }
+                    continue;
+                }
+                if (event.type === "ended") {
+                    renditions.delete(event.descriptor.name);
+                } else {
+                    renditions.set(event.descriptor.name, renditionOf(event.descriptor));
+                }
+                receiver.setRenditions(Array.from(renditions.values()));
+            }
+        })();
+
+        decoder.decodeFrom(ctx, receiver).then((err) => {
+            receiver.close(err);
+        });
+
+        return receiver;
+    }
+
+    // The public key of the member, or undefined when the broadcast is not verified
+    async #verifyKey(): Promise<CryptoKey | undefined | Error> {
+        const lookup = this.#publicKeys;
+        if (!lookup) {
+            return undefined;
+        }
+        if (!this.#publicKey) {
+            this.#publicKey = lookup(this.id).then((key) => {
+                return key ?? new SignatureError(`no public key for ${this.id}`);
+            }, (e) => {
+                return e instanceof Error ? e : new Error(String(e));
+            });
+            this.#publicKey.then((key) => {
+                if (key instanceof Error) {
+                    // Let the next call look up again
+                    this.#publicKey = undefined;
+                }
+            });
+        }
+        return await this.#publicKey;
+    }
+
+    // Wraps the reader of a track of signed frames
+    async #verify(name: TrackName, track: TrackSubscription): Promise<[TrackSubscription, undefined] | [undefined, Error]> {
+        const catalog = await this.catalog();
+        if (catalog instanceof Error) {
+            return [undefined, catalog];
+        }
+        const init = await catalog.init();
+        if (init instanceof Error) {
+            return [undefined, init];
+        }
+
+        const key = await this.#verifyKey();
+        if (key instanceof Error) {
+            return [undefined, key];
+        }
+        if (!init.signed) {
+            if (key) {
+                return [undefined, new SignatureError(`${name}: track is not signed`)];
+            }
+            return [track, undefined];
+        }
+
+        if (!JSON_TRACK_NAMES.includes(name)) {
+            return [new VerifyingTrackReader(track, name, key), undefined];
+        }
+        return [new VerifyingTrackReader(track, name, key, false, this.#verifiedCounter(name)), undefined];
+    }
+
+    #verifiedCounter(name: TrackName): VerifiedCounter {
+        let verified = this.#verified.get(name);
+        if (!verified) {
+            verified = { last: -1 };
+            this.#verified.set(name, verified);
+        }
+        return verified;
+    }
+
+    async #subscribe(name: TrackName, priority?: number): Promise<[TrackSubscription, undefined] | [undefined, Error]> {
+        let token: string | undefined;
+        if (this.#auth) {
+            try {
+                token = await this.#auth.token();
+            } catch (e) {
+                return [undefined, new AuthError(`failed to obtain token for track: ${name}`, e instanceof Error ? e : new Error(String(e)))];
+            }
+        }
+
+        let options: SubscribeOptions | undefined;
+        if (token !== undefined || priority !== undefined) {
+            options = {};
+            if (token !== undefined) {
+                options.token = token;
+            }
+            if (priority !== undefined) {
+                options.trackPriority = priority;
+            }
+        }
+
+        const [track, err] = await this.#session.subscribe(this.#path, name, options);
         if (err) {
-            console.debug("Failed to subscribe to track:", name);
-            return err;
+            if (isUnauthorized(err, this.#auth)) {
+                this.#auth?.invalidate?.();
+                return [undefined, new AuthError(`token rejected for track: ${name}`, err)];
+            }
+            return [undefined, err];
         }
 
-        await decoder.decodeFrom(this.#ctx.done(), track);
+        let reader: TrackSubscription = track;
+        // The catalog signs its own lines
+        if (name !== CATALOG_TRACK_NAME) {
+            // Signatures cover the frames as written, so they are verified before decrypting
+            const [verified, verr] = await this.#verify(name, reader);
+            if (verr) {
+                await reader.closeWithError(SubscribeCanceledErrorCode, "signature check failed");
+                return [undefined, verr];
+            }
+            reader = verified!;
+        }
 
-        // When the decoder is done, ensure to close the track
-        await track.closeWithError(SubscribeCanceledErrorCode, "decoder closed");
+        if (this.#decryptor) {
+            reader = new DecryptingTrackReader(reader, this.#decryptor);
+        }
+
+        return [reader, undefined];
     }
 
     async close(cause?: Error): Promise<void> {
+        this.#closed = true;
         this.#decoders.clear();
+        for (const monitor of this.#monitors.values()) {
+            monitor.close();
+        }
+        this.#monitors.clear();
+        this.#qoeEvents.close();
+        this.#stateEvents.close();
 
         // Cancel context to stop all decoders
         // This will also close all active subscriptions
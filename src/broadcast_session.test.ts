@@ -0,0 +1,483 @@
+import { describe, it, expect, vi } from "vitest";
+import { BroadcastPublisher, BroadcastSubscriber } from "./broadcast";
+import type { TrackEncoder, TrackEvent } from "./broadcast";
+import type { EncodeDestination, EncodedChunk } from "./internal/container";
+import { CatalogEncoder, TrackCatalog } from "./internal/catalog_stream";
+import { DEFAULT_CATALOG_VERSION } from "./catalog/init";
+import { CATALOG_TRACK_NAME } from "./catalog";
+import { VerifyingTrackReader } from "./signing";
+import { Moderator, ReplyEncoder, MODERATION_TRACK_NAME } from "./moderation";
+import type { TrackHandler } from "@okutanidaichi/moqt";
+import { background, withCancel } from "golikejs/context";
+
+// Runs the publisher and the subscriber against fake sessions, with the real catalog and caches
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    TrackNotFoundErrorCode: 1,
+    PublishAbortedErrorCode: 2,
+    SubscribeCanceledErrorCode: 3,
+    InternalSubscribeErrorCode: 4,
+    InternalGroupErrorCode: 5,
+    ExpiredGroupErrorCode: 6,
+}));
+
+vi.mock("@okutanidaichi/moqt/io", () => ({ EOF: new Error("EOF") }));
+
+vi.mock("./internal/audio_hijack_worklet", () => ({
+    importWorkletUrl: vi.fn(() => "mock-url"),
+}));
+
+vi.mock("./internal/audio_offload_worklet", () => ({
+    importUrl: vi.fn(() => "mock-url"),
+}));
+
+function chunk(type: "key" | "delta", timestamp: number): EncodedChunk {
+    return {
+        type,
+        byteLength: 1,
+        timestamp,
+        copyTo(dest: AllowSharedBufferSource) {
+            const view = ArrayBuffer.isView(dest) ? new Uint8Array(dest.buffer, dest.byteOffset, dest.byteLength) : new Uint8Array(dest);
+            view[0] = timestamp;
+        },
+    };
+}
+
+// A track encoder whose chunks are pushed by the test
+function fakeEncoder(): TrackEncoder & { push(chunk: EncodedChunk): Promise<void> } {
+    let dest: EncodeDestination | undefined;
+    let started!: () => void;
+    const ready = new Promise<void>((resolve) => { started = resolve; });
+    return {
+        async encodeTo(d: EncodeDestination) {
+            dest = d;
+            started();
+            await d.done;
+            return undefined;
+        },
+        async push(chunk: EncodedChunk) {
+            await ready;
+            await dest!.output(chunk);
+        },
+    };
+}
+
+type FakeGroup = { sequence: bigint; frames: unknown[]; closed: boolean; cancelled: boolean };
+
+// A subscription served by the publisher; writes on a stalled one never complete,
+// writes on a slow one take writeMs each
+function fakeSubscription(trackName: string, stalled: boolean = false, writeMs: number = 0) {
+    const groups: FakeGroup[] = [];
+    const frames: unknown[] = [];
+    const write = async (frame: unknown, into: unknown[]) => {
+        if (stalled) {
+            await new Promise(() => {});
+        }
+        if (writeMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, writeMs));
+        }
+        into.push(frame);
+        return undefined;
+    };
+    const writer = {
+        trackName,
+        config: undefined,
+        openGroup: vi.fn(async (sequence: bigint) => {
+            const group: FakeGroup = { sequence, frames: [], closed: false, cancelled: false };
+            groups.push(group);
+            return [{
+                writeFrame: (frame: unknown) => write(frame, group.frames),
+                close: vi.fn(async () => { group.closed = true; }),
+                cancel: vi.fn(async () => { group.cancelled = true; }),
+            }, undefined];
+        }),
+        writeFrame: vi.fn((frame: unknown) => write(frame, frames)),
+        close: vi.fn(async () => {}),
+        closeWithError: vi.fn(async () => {}),
+    };
+    return { writer, groups, frames };
+}
+
+const videoDescriptor = {
+    name: "video",
+    priority: 64,
+    schema: "video",
+    config: { codec: "vp8", container: "loc" },
+};
+
+describe("BroadcastPublisher init", () => {
+    it("should take the member ID from its init", async () => {
+        const publisher = new BroadcastPublisher("Alice", { id: "alice" });
+        expect(publisher.id).toBe("alice");
+        expect(publisher.name).toBe("Alice");
+        await publisher.close();
+
+        // The second parameter used to be the member ID
+        // @ts-expect-error a string is not an init
+        const legacy = new BroadcastPublisher("Alice", "alice");
+        expect(legacy.id).not.toBe("alice");
+        await legacy.close();
+    });
+});
+
+describe("BroadcastPublisher delivery", () => {
+    it("should keep serving subscribers while another one is stalled", async () => {
+        const publisher = new BroadcastPublisher("Alice", { id: "alice" });
+        const encoder = fakeEncoder();
+        publisher.setTrack(videoDescriptor as any, encoder);
+
+        const fast = fakeSubscription("video");
+        const slow = fakeSubscription("video", true);
+        const ctx = new Promise<void>(() => {});
+        publisher.serveTrack(ctx, slow.writer);
+        await encoder.push(chunk("key", 0));
+        publisher.serveTrack(ctx, fast.writer);
+
+        for (let i = 1; i < 20; i++) {
+            await encoder.push(chunk(i % 5 === 0 ? "key" : "delta", i));
+        }
+
+        await vi.waitFor(() => {
+            expect(fast.groups.map((group) => group.frames.length)).toEqual([5, 5, 5, 5]);
+        });
+        expect(fast.groups.slice(0, 3).every((group) => group.closed && !group.cancelled)).toBe(true);
+        expect(publisher.getStats().subscriptions.find((stats) => stats.framesWritten === 20)).toBeDefined();
+
+        await publisher.close();
+    });
+});
+
+describe("BroadcastPublisher heartbeats", () => {
+    it("should write every heartbeat at the priority of the catalog while the connection is backed up", async () => {
+        vi.useFakeTimers();
+        try {
+            const publisher = new BroadcastPublisher("Alice", { id: "alice" });
+            const encoder = fakeEncoder();
+            publisher.setTrack(videoDescriptor as any, encoder);
+
+            const ctx = new Promise<void>(() => {});
+            const video = fakeSubscription("video", true);
+            const levels = fakeSubscription("levels", true);
+            const heartbeat = fakeSubscription("heartbeat", false, 1500);
+            publisher.serveTrack(ctx, video.writer);
+            publisher.serveTrack(ctx, levels.writer);
+            publisher.serveTrack(ctx, heartbeat.writer);
+
+            for (let i = 0; i < 50; i++) {
+                await encoder.push(chunk(i % 5 === 0 ? "key" : "delta", i));
+                publisher.levels.report(0.5);
+                await vi.advanceTimersByTimeAsync(200);
+            }
+
+            // A beat every interval plus the time its write takes
+            expect(heartbeat.frames).toHaveLength(4);
+            const stats = publisher.getStats().tracks.find((track) => track.trackName === "heartbeat");
+            expect(stats).toMatchObject({ framesWritten: 4, framesDropped: 0 });
+            expect(publisher.getStats().subscriptions.find((sub) => sub.trackName === "heartbeat")?.priority).toBe(0);
+            expect(publisher.getStats().framesDropped).toBeGreaterThan(0);
+
+            await publisher.close();
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+// Reads the frames written by the publisher as a track of one group per written group or frame
+function writtenTrack(groups: { sequence: bigint; frames: unknown[] }[]) {
+    const pending = [...groups];
+    return {
+        acceptGroup: async () => {
+            const group = pending.shift();
+            if (!group) {
+                return [undefined, new Error("EOF")];
+            }
+            const frames = group.frames.map((frame: any) => {
+                const bytes = new Uint8Array(frame.byteLength);
+                frame.copyTo(bytes);
+                return bytes;
+            });
+            return [{
+                sequence: group.sequence,
+                readFrame: async () => {
+                    const bytes = frames.shift();
+                    return [bytes ? { bytes } : undefined, undefined];
+                },
+                cancel: async () => {},
+            }, undefined];
+        },
+        closeWithError: async () => {},
+    } as any;
+}
+
+async function readFrames(reader: VerifyingTrackReader, groups: number): Promise<[number[][], Error | undefined]> {
+    const read: number[][] = [];
+    for (let i = 0; i < groups; i++) {
+        const [group, err] = await reader.acceptGroup(new Promise(() => {}));
+        if (err) {
+            return [read, err];
+        }
+        while (true) {
+            const [frame, ferr] = await group!.readFrame();
+            if (ferr || !frame) {
+                if (ferr) {
+                    return [read, ferr];
+                }
+                break;
+            }
+            read.push(Array.from(frame.bytes));
+        }
+    }
+    return [read, undefined];
+}
+
+describe("BroadcastPublisher signing", () => {
+    it("should sign every media frame and every chat frame", async () => {
+        const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const publisher = new BroadcastPublisher("Alice", { id: "alice", signingKey: keys.privateKey });
+        const encoder = fakeEncoder();
+        publisher.setTrack(videoDescriptor as any, encoder);
+
+        const ctx = new Promise<void>(() => {});
+        const video = fakeSubscription("video");
+        const chat = fakeSubscription("chat");
+        await encoder.push(chunk("key", 1));
+        publisher.serveTrack(ctx, video.writer);
+        publisher.serveTrack(ctx, chat.writer);
+        await encoder.push(chunk("delta", 2));
+        publisher.chat.send("hello");
+
+        await vi.waitFor(() => {
+            expect(video.groups[0]?.frames).toHaveLength(2);
+            expect(chat.frames).toHaveLength(1);
+        });
+
+        const [media, err] = await readFrames(new VerifyingTrackReader(writtenTrack(video.groups), "video", keys.publicKey), 1);
+        expect(err).toBeUndefined();
+        expect(media).toEqual([[1], [2]]);
+
+        const lines = new VerifyingTrackReader(writtenTrack([{ sequence: 5n, frames: chat.frames }]), "chat", keys.publicKey, false);
+        const [[line]] = await readFrames(lines, 1);
+        expect(JSON.parse(new TextDecoder().decode(new Uint8Array(line!)))).toMatchObject({ text: "hello" });
+
+        // A chat frame does not verify as another track
+        const [, cerr] = await readFrames(new VerifyingTrackReader(writtenTrack([{ sequence: 5n, frames: chat.frames }]), "events", keys.publicKey, false), 1);
+        expect(cerr?.name).toBe("SignatureError");
+
+        await publisher.close();
+    });
+});
+
+describe("BroadcastSubscriber playback events", () => {
+    it("should end the event streams once closed", async () => {
+        const session = { subscribe: vi.fn(() => new Promise(() => {})) };
+        const subscriber = new BroadcastSubscriber("/room/alice.hang", "room", session);
+        const monitorEvents = subscriber.monitor("video").events();
+        const qoeEvents = subscriber.qoeEvents();
+        const states = subscriber.trackStates();
+
+        await subscriber.close();
+
+        expect((await monitorEvents.next()).done).toBe(true);
+        expect((await qoeEvents.next()).done).toBe(true);
+        expect((await states.next()).done).toBe(true);
+        expect((await subscriber.monitor("audio").events().next()).done).toBe(true);
+    });
+});
+
+// The catalog frames of a publisher listing the given tracks
+async function catalogFrames(descriptors: object[]): Promise<Uint8Array[]> {
+    const forever = new Promise<void>(() => {});
+    const encoder = new CatalogEncoder({ version: DEFAULT_CATALOG_VERSION });
+    await encoder.set(descriptors.map((descriptor) => new TrackCatalog(forever, descriptor as any)));
+
+    const frames: Uint8Array[] = [];
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => { finish = resolve; });
+    const encoding = encoder.encodeTo({
+        output: async (chunk) => {
+            const bytes = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(bytes);
+            frames.push(bytes);
+            return undefined;
+        },
+        done,
+    });
+    await vi.waitFor(() => expect(frames).toHaveLength(2));
+    finish();
+    await encoding;
+    return frames;
+}
+
+// A session whose tracks deliver the given frames in one group, and fail once the session is lost
+function fakeSession(catalog: Uint8Array[]) {
+    let lose!: () => void;
+    const lost = new Promise<void>((resolve) => { lose = resolve; });
+    const [context, cancel] = withCancel(background());
+    lost.then(() => cancel());
+
+    const track = (frames: Uint8Array[]) => {
+        let accepted = false;
+        return {
+            context,
+            acceptGroup: vi.fn(async (ctx: Promise<void>) => {
+                if (!accepted && frames.length > 0) {
+                    accepted = true;
+                    let next = 0;
+                    return [{
+                        sequence: 0n,
+                        readFrame: async () => {
+                            if (next < frames.length) {
+                                return [{ bytes: frames[next++] }, undefined];
+                            }
+                            await lost;
+                            return [undefined, new Error("session lost")];
+                        },
+                        cancel: vi.fn(async () => {}),
+                    }, undefined];
+                }
+                await Promise.race([ctx, lost]);
+                return [undefined, new Error("session lost")];
+            }),
+            closeWithError: vi.fn(async () => {}),
+        };
+    };
+
+    const session = {
+        subscribe: vi.fn(async (_path: string, name: string) => [track(name === CATALOG_TRACK_NAME ? catalog : []), undefined]),
+    };
+    return { session, lose };
+}
+
+describe("BroadcastSubscriber reconnect", () => {
+    it("should read the catalog again and resubscribe the tracks on the new session", async () => {
+        const camera = { ...videoDescriptor, name: "camera" };
+        const screen = { ...videoDescriptor, name: "screen" };
+        const first = fakeSession(await catalogFrames([videoDescriptor, screen]));
+        const second = fakeSession(await catalogFrames([videoDescriptor, camera]));
+
+        const subscriber = new BroadcastSubscriber("/room/alice.hang", "room", first.session, { resubscribe: { initialDelayMs: 60_000 } });
+        const events: TrackEvent[] = [];
+        (async () => {
+            for await (const event of subscriber.tracks()) {
+                events.push(event);
+            }
+        })();
+        await vi.waitFor(() => expect(events).toHaveLength(2));
+
+        const decoder = {
+            decodeFrom: vi.fn(async (ctx: Promise<void>, reader: any) => {
+                const [, err] = await reader.acceptGroup(ctx);
+                return err;
+            }),
+        };
+        subscriber.subscribeTrack("video", decoder);
+        await vi.waitFor(() => expect(subscriber.trackState("video")).toBe("active"));
+
+        first.lose();
+        await vi.waitFor(() => expect(subscriber.trackState("video")).toBe("retrying"));
+        expect(events.map((event) => event.type)).toEqual(["added", "added"]);
+
+        subscriber.reconnect(second.session);
+
+        await vi.waitFor(() => expect(subscriber.trackState("video")).toBe("active"));
+        expect(second.session.subscribe).toHaveBeenCalledWith("/room/alice.hang", "video", undefined);
+        await vi.waitFor(() => expect(events).toHaveLength(4));
+        expect(events.slice(2).map((event) => [event.type, event.descriptor.name])).toEqual([
+            ["added", "camera"],
+            ["ended", "screen"],
+        ]);
+
+        await subscriber.close();
+    });
+});
+
+describe("BroadcastSubscriber requests", () => {
+    it("should send the token and the priority with the subscribe request", async () => {
+        const { session } = fakeSession(await catalogFrames([videoDescriptor]));
+        const auth = { token: vi.fn(async () => "secret") };
+        const subscriber = new BroadcastSubscriber("/room/alice.hang", "room", session, { auth });
+        const decoder = { decodeFrom: vi.fn(async () => undefined) };
+
+        await subscriber.subscribeTrack("video", decoder, undefined, 7);
+
+        expect(session.subscribe).toHaveBeenCalledWith("/room/alice.hang", CATALOG_TRACK_NAME, { token: "secret" });
+        expect(session.subscribe).toHaveBeenCalledWith("/room/alice.hang", "video", { token: "secret", trackPriority: 7 });
+
+        await subscriber.close();
+    });
+});
+
+// Connects subscriptions to the tracks a handler serves, with the frames written to a track in one group
+function loopbackSession(handler: TrackHandler) {
+    const [context] = withCancel(background());
+    const session = {
+        subscribe: vi.fn(async (_path: string, name: string) => {
+            const frames: Uint8Array[] = [];
+            let wake = () => {};
+            const writer = {
+                trackName: name,
+                config: undefined,
+                writeFrame: async (frame: { byteLength: number; copyTo(dest: AllowSharedBufferSource): void }) => {
+                    const bytes = new Uint8Array(frame.byteLength);
+                    frame.copyTo(bytes);
+                    frames.push(bytes);
+                    wake();
+                    return undefined;
+                },
+                close: async () => {},
+                closeWithError: async () => {},
+            };
+            handler.serveTrack(new Promise(() => {}), writer as any);
+
+            const next = async (): Promise<Uint8Array> => {
+                while (frames.length === 0) {
+                    await new Promise<void>((resolve) => { wake = resolve; });
+                }
+                return frames.shift()!;
+            };
+            let accepted = false;
+            const reader = {
+                context,
+                acceptGroup: async (ctx: Promise<void>) => {
+                    if (accepted) {
+                        await ctx;
+                        return [undefined, new Error("track ended")];
+                    }
+                    accepted = true;
+                    return [{
+                        sequence: 0n,
+                        readFrame: async () => [{ bytes: await next() }, undefined],
+                        cancel: async () => {},
+                    }, undefined];
+                },
+                closeWithError: async () => {},
+            };
+            return [reader, undefined];
+        }),
+    };
+    return session;
+}
+
+describe("Moderation replies", () => {
+    it("should acknowledge a mute in a signed room", async () => {
+        const bob = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const host = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const publisher = new BroadcastPublisher("Bob", { id: "bob", signingKey: bob.privateKey });
+        const replies = new ReplyEncoder();
+        const session = loopbackSession(replies.wrap(publisher));
+        const subscriber = new BroadcastSubscriber("/room/bob.hang", "room", session, { publicKeys: async () => bob.publicKey });
+        const moderator = new Moderator(host.privateKey, "room", vi.fn(), () => [], 1000);
+
+        subscriber.subscribeTrack(MODERATION_TRACK_NAME, moderator.replies("bob"));
+        await vi.waitFor(() => expect(subscriber.trackState(MODERATION_TRACK_NAME)).toBe("active"));
+
+        const muted = moderator.mute("bob", "audio");
+        replies.reply({ seq: 1, status: "ack" });
+
+        expect(await muted).toEqual({ seq: 1, status: "ack" });
+
+        await subscriber.close();
+        await publisher.close();
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+import { ChatTrackSchema, ChatMessageSchema } from './chat';
+
+const validDescriptor = {
+	name: 'chat',
+	priority: 128,
+	schema: 'chat' as const,
+	config: {
+		format: 'jsonl' as const,
+		history: 100,
+	},
+};
+
+describe('ChatTrackSchema', () => {
+	test('accepts a valid chat descriptor', () => {
+		const parsed = ChatTrackSchema.parse(validDescriptor);
+
+		expect(parsed).toMatchObject(validDescriptor);
+	});
+
+	test('rejects other formats', () => {
+		const result = ChatTrackSchema.safeParse({
+			...validDescriptor,
+			config: { format: 'json' },
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe('ChatMessageSchema', () => {
+	const message = {
+		id: 'm1',
+		timestamp: 1_700_000_000_000,
+		author: 'alice',
+		text: 'hello',
+	};
+
+	test('accepts messages with and without reply', () => {
+		expect(ChatMessageSchema.parse(message)).toEqual(message);
+		expect(ChatMessageSchema.parse({ ...message, replyTo: 'm0' }).replyTo).toBe('m0');
+	});
+
+	test('rejects messages without author', () => {
+		const result = ChatMessageSchema.safeParse({ ...message, author: '' });
+
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { TrackDescriptorSchema } from "../track"
+import { uint53Schema } from "../integers";
+
+export const CHAT_TRACK_NAME = "chat";
+
+export const ChatMessageSchema = z.object({
+	// Unique per author
+	id: z.string().min(1),
+
+	// Milliseconds since the Unix epoch
+	timestamp: uint53Schema,
+
+	// Member ID of the sender
+	author: z.string().min(1),
+
+	text: z.string().max(4000),
+
+	// ID of the message this one replies to
+	replyTo: z.string().min(1).optional(),
+});
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+export const ChatTrackSchema = TrackDescriptorSchema.extend({
+	schema: z.literal('chat'),
+	config: z.object({
+		// One ChatMessage per JSON line
+		format: z.literal('jsonl'),
+
+		// Number of past messages replayed to new subscribers
+		history: uint53Schema.optional(),
+	}),
+});
+
+export type ChatTrackDescriptor = z.infer<typeof ChatTrackSchema>;
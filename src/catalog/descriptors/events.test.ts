@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest';
+import { EventsTrackSchema, SignalSchema } from './events';
+
+describe('EventsTrackSchema', () => {
+	test('accepts a valid events descriptor', () => {
+		const descriptor = {
+			name: 'events',
+			priority: 128,
+			schema: 'events' as const,
+			config: { format: 'jsonl' as const, rate: 5, burst: 10 },
+		};
+
+		expect(EventsTrackSchema.parse(descriptor)).toMatchObject(descriptor);
+	});
+
+	test('rejects a zero rate', () => {
+		const result = EventsTrackSchema.safeParse({
+			name: 'events',
+			schema: 'events',
+			config: { format: 'jsonl', rate: 0, burst: 1 },
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe('SignalSchema', () => {
+	test('parses every signal type', () => {
+		expect(SignalSchema.parse({ type: 'reaction', emoji: '👍', timestamp: 1 }).type).toBe('reaction');
+		expect(SignalSchema.parse({ type: 'hand', raised: true, timestamp: 1 }).type).toBe('hand');
+		expect(SignalSchema.parse({ type: 'away', away: false, timestamp: 1 }).type).toBe('away');
+	});
+
+	test('rejects unknown types and oversized reactions', () => {
+		expect(SignalSchema.safeParse({ type: 'wave', timestamp: 1 }).success).toBe(false);
+		expect(SignalSchema.safeParse({ type: 'reaction', emoji: 'x'.repeat(17), timestamp: 1 }).success).toBe(false);
+	});
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { TrackDescriptorSchema } from "../track"
+import { uint53Schema } from "../integers";
+
+export const EVENTS_TRACK_NAME = "events";
+
+export const ReactionSignalSchema = z.object({
+	type: z.literal('reaction'),
+	emoji: z.string().min(1).max(16),
+	// Milliseconds since the Unix epoch
+	timestamp: uint53Schema,
+});
+
+export const HandSignalSchema = z.object({
+	type: z.literal('hand'),
+	raised: z.boolean(),
+	timestamp: uint53Schema,
+});
+
+export const AwaySignalSchema = z.object({
+	type: z.literal('away'),
+	away: z.boolean(),
+	timestamp: uint53Schema,
+});
+
+export const SignalSchema = z.discriminatedUnion('type', [
+	ReactionSignalSchema,
+	HandSignalSchema,
+	AwaySignalSchema,
+]);
+
+export type Signal = z.infer<typeof SignalSchema>;
+
+export const EventsTrackSchema = TrackDescriptorSchema.extend({
+	schema: z.literal('events'),
+	config: z.object({
+		// One Signal per JSON line
+		format: z.literal('jsonl'),
+
+		// Maximum number of signals per second, shared by every signal type
+		rate: uint53Schema.min(1),
+
+		// Signals allowed in a burst above the rate
+		burst: uint53Schema.min(1),
+	}),
+});
+
+export type EventsTrackDescriptor = z.infer<typeof EventsTrackSchema>;
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+import { HeartbeatTrackSchema, HeartbeatSchema } from './heartbeat';
+
+describe('HeartbeatTrackSchema', () => {
+	test('accepts a valid heartbeat descriptor', () => {
+		const descriptor = {
+			name: 'heartbeat',
+			priority: 128,
+			schema: 'heartbeat' as const,
+			config: { format: 'jsonl' as const, interval: 1000 },
+		};
+
+		expect(HeartbeatTrackSchema.parse(descriptor)).toMatchObject(descriptor);
+	});
+
+	test('rejects a zero interval', () => {
+		const result = HeartbeatTrackSchema.safeParse({
+			name: 'heartbeat',
+			schema: 'heartbeat',
+			config: { format: 'jsonl', interval: 0 },
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe('HeartbeatSchema', () => {
+	test('requires a timestamp', () => {
+		expect(HeartbeatSchema.parse({ timestamp: 1 }).timestamp).toBe(1);
+		expect(HeartbeatSchema.safeParse({}).success).toBe(false);
+	});
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { TrackDescriptorSchema } from "../track"
+import { uint53Schema } from "../integers";
+
+export const HEARTBEAT_TRACK_NAME = "heartbeat";
+
+export const HeartbeatSchema = z.object({
+	// Milliseconds since the Unix epoch
+	timestamp: uint53Schema,
+});
+
+export type Heartbeat = z.infer<typeof HeartbeatSchema>;
+
+export const HeartbeatTrackSchema = TrackDescriptorSchema.extend({
+	schema: z.literal('heartbeat'),
+	config: z.object({
+		// One Heartbeat per JSON line
+		format: z.literal('jsonl'),
+
+		// Interval between two heartbeats in milliseconds
+		interval: uint53Schema.min(1),
+	}),
+});
+
+export type HeartbeatTrackDescriptor = z.infer<typeof HeartbeatTrackSchema>;
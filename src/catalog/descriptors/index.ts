@@ -2,4 +2,9 @@ export * from "./video"
 export * from "./audio"
 export * from "./profile"
 export * from "./captions"
-export * from "./timeseries"
\ No newline at end of file
+export * from "./timeseries"
+export * from "./chat"
+export * from "./events"
+export * from "./levels"
+export * from "./heartbeat"
+export * from "./typed"
\ No newline at end of file
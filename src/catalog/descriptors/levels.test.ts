@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'vitest';
+import { LevelsTrackSchema, AudioLevelSchema } from './levels';
+
+describe('LevelsTrackSchema', () => {
+	test('accepts a valid levels descriptor', () => {
+		const descriptor = {
+			name: 'levels',
+			priority: 128,
+			schema: 'levels' as const,
+			config: { format: 'jsonl' as const, interval: 100 },
+		};
+
+		expect(LevelsTrackSchema.parse(descriptor)).toMatchObject(descriptor);
+	});
+
+	test('rejects a zero interval', () => {
+		const result = LevelsTrackSchema.safeParse({
+			name: 'levels',
+			schema: 'levels',
+			config: { format: 'jsonl', interval: 0 },
+		});
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe('AudioLevelSchema', () => {
+	test('accepts levels between 0 and 1', () => {
+		expect(AudioLevelSchema.parse({ level: 0.25, timestamp: 1 }).level).toBe(0.25);
+	});
+
+	test('rejects levels out of range', () => {
+		expect(AudioLevelSchema.safeParse({ level: 1.5, timestamp: 1 }).success).toBe(false);
+		expect(AudioLevelSchema.safeParse({ level: -0.1, timestamp: 1 }).success).toBe(false);
+	});
+});
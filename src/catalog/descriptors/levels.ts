@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { TrackDescriptorSchema } from "../track"
+import { uint53Schema } from "../integers";
+
+export const LEVELS_TRACK_NAME = "levels";
+
+export const AudioLevelSchema = z.object({
+	// RMS of the outgoing audio, from 0 (silence) to 1 (full scale)
+	level: z.number().min(0).max(1),
+	// Milliseconds since the Unix epoch
+	timestamp: uint53Schema,
+});
+
+export type AudioLevel = z.infer<typeof AudioLevelSchema>;
+
+export const LevelsTrackSchema = TrackDescriptorSchema.extend({
+	schema: z.literal('levels'),
+	config: z.object({
+		// One AudioLevel per JSON line
+		format: z.literal('jsonl'),
+
+		// Minimum interval between two levels in milliseconds
+		interval: uint53Schema.min(1),
+	}),
+});
+
+export type LevelsTrackDescriptor = z.infer<typeof LevelsTrackSchema>;
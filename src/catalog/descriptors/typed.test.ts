@@ -0,0 +1,50 @@
+import { parseTrackDescriptor } from "./typed";
+import { describe, expect, test } from "vitest";
+
+describe("parseTrackDescriptor", () => {
+    test("parses video descriptors with the video schema", () => {
+        const typed = parseTrackDescriptor({
+            name: "camera",
+            priority: 64,
+            schema: "video",
+            config: { codec: "avc1.640028", container: "cmaf" },
+        });
+
+        expect(typed).not.toBeInstanceOf(Error);
+        if (typed instanceof Error || typed.kind !== "video") {
+            throw new Error("expected a video descriptor");
+        }
+        expect(typed.descriptor.config.codec).toBe("avc1.640028");
+        expect(typed.descriptor.config.optimizeForLatency).toBe(true);
+    });
+
+    test("parses timeseries measurements given as an object", () => {
+        const typed = parseTrackDescriptor({
+            name: "sensors",
+            priority: 128,
+            schema: "timeseries",
+            config: {
+                measurements: {
+                    temperature: { type: "temperature", unit: "celsius", interval: 1000 },
+                },
+            },
+        });
+
+        if (typed instanceof Error || typed.kind !== "timeseries") {
+            throw new Error("expected a timeseries descriptor");
+        }
+        expect(typed.descriptor.config.measurements.get("temperature")?.unit).toBe("celsius");
+    });
+
+    test("keeps descriptors of other schemas as they are", () => {
+        const descriptor = { name: "chat", priority: 128, schema: "chat", config: { format: "jsonl" } };
+
+        expect(parseTrackDescriptor(descriptor)).toEqual({ kind: "other", descriptor });
+    });
+
+    test("rejects descriptors not matching their schema", () => {
+        const typed = parseTrackDescriptor({ name: "profile", priority: 128, schema: "profile", config: {} });
+
+        expect(typed).toBeInstanceOf(Error);
+    });
+});
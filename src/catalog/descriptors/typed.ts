@@ -0,0 +1,54 @@
+import type { TrackDescriptor } from "../track"
+import { VideoTrackSchema } from "./video"
+import type { VideoTrackDescriptor } from "./video"
+import { AudioTrackSchema } from "./audio"
+import type { AudioTrackDescriptor } from "./audio"
+import { CaptionsTrackSchema } from "./captions"
+import type { CaptionsTrackDescriptor } from "./captions"
+import { TimeseriesTrackSchema } from "./timeseries"
+import type { TimeseriesTrackDescriptor } from "./timeseries"
+import { ProfileTrackSchema } from "./profile"
+import type { ProfileTrackDescriptor } from "./profile"
+
+// A track descriptor parsed with the schema it names.
+// Tracks of other schemas keep their generic descriptor.
+export type TypedTrackDescriptor =
+	| { kind: 'video'; descriptor: VideoTrackDescriptor }
+	| { kind: 'audio'; descriptor: AudioTrackDescriptor }
+	| { kind: 'captions'; descriptor: CaptionsTrackDescriptor }
+	| { kind: 'timeseries'; descriptor: TimeseriesTrackDescriptor }
+	| { kind: 'profile'; descriptor: ProfileTrackDescriptor }
+	| { kind: 'other'; descriptor: TrackDescriptor };
+
+export function parseTrackDescriptor(descriptor: TrackDescriptor): TypedTrackDescriptor | Error {
+	let result;
+	switch (descriptor.schema) {
+		case 'video':
+			result = VideoTrackSchema.safeParse(descriptor);
+			return result.success ? { kind: 'video', descriptor: result.data } : invalid(descriptor);
+		case 'audio':
+			result = AudioTrackSchema.safeParse(descriptor);
+			return result.success ? { kind: 'audio', descriptor: result.data } : invalid(descriptor);
+		case 'captions':
+			result = CaptionsTrackSchema.safeParse(descriptor);
+			return result.success ? { kind: 'captions', descriptor: result.data } : invalid(descriptor);
+		case 'timeseries': {
+			// JSON has no maps, so measurements arrive as an object
+			const measurements = descriptor.config.measurements;
+			const config = measurements instanceof Map || typeof measurements !== 'object' || measurements === null
+				? descriptor.config
+				: { ...descriptor.config, measurements: new Map(Object.entries(measurements)) };
+			result = TimeseriesTrackSchema.safeParse({ ...descriptor, config });
+			return result.success ? { kind: 'timeseries', descriptor: result.data } : invalid(descriptor);
+		}
+		case 'profile':
+			result = ProfileTrackSchema.safeParse(descriptor);
+			return result.success ? { kind: 'profile', descriptor: result.data } : invalid(descriptor);
+		default:
+			return { kind: 'other', descriptor };
+	}
+}
+
+function invalid(descriptor: TrackDescriptor): Error {
+	return new Error(`catalog: invalid ${descriptor.schema} descriptor for track ${descriptor.name}`);
+}
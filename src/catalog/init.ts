@@ -7,6 +7,10 @@ export const DEFAULT_CATALOG_VERSION = "@gomoqt/v1"
 export const CatalogInitSchema = z.object({
 	version: z.string(),
 	$schema: z.url().optional(),
+	// Display name of the member publishing the broadcast
+	name: z.string().optional(),
+	// Every frame of the tracks other than the catalog carries its signature
+	signed: z.boolean().optional(),
 });
 
 export type CatalogInit = z.infer<typeof CatalogInitSchema>;
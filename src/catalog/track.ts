@@ -2,13 +2,20 @@ import { z } from "zod"
 import { uint8Schema, uint62Schema } from "./integers"
 import { ContainerSchema } from "./container"
 
+// Delivery priorities by kind of track; lower values are sent first under backpressure
+export const CATALOG_PRIORITY = 0;
+export const AUDIO_PRIORITY = 32;
+export const VIDEO_PRIORITY = 64;
+export const DATA_PRIORITY = 128;
+
 export const TrackDescriptorSchema = z.object({
 	name: z.string().min(1),
 	description: z.string().max(500).optional(),
-	// priority: uint8Schema,
+	priority: uint8Schema, // Lower values are delivered first
 	schema: z.string().min(1), // name, URL or path to the track schema
 	config: z.record(z.string(), z.any()), // Flexible config object as Record<string, any>
 	dependencies: z.array(z.string().min(1)).optional(), // List of other track names this track depends on
+	group: z.string().min(1).optional(), // Simulcast group; tracks sharing it are renditions of the same source
 });
 
 export const TrackDescriptorsSchema = z.array(TrackDescriptorSchema);
@@ -18,6 +25,7 @@ export type TrackDescriptor = z.infer<typeof TrackDescriptorSchema>;
 export const ActiveTrackSchema = z.object({
     active: z.literal(true),
     track: TrackDescriptorSchema,
+    paused: z.boolean().optional(), // No frames are sent until resumed; the track is kept
 })
 
 export type ActiveTrackLine = z.infer<typeof ActiveTrackSchema>;
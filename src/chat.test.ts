@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import { ChatEncoder, ChatDecoder, ChatLog, chatTrackDescriptor } from "./chat";
+import { ChatTrackSchema } from "./catalog";
+import type { ChatMessage } from "./catalog";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+}));
+
+const message = (author: string, id: string, timestamp: number): ChatMessage => ({
+    id,
+    timestamp,
+    author,
+    text: `${author}:${id}`,
+});
+
+describe("chatTrackDescriptor", () => {
+    it("should be a valid chat descriptor", () => {
+        expect(ChatTrackSchema.safeParse(chatTrackDescriptor(10)).success).toBe(true);
+    });
+});
+
+describe("ChatEncoder", () => {
+    it("should replay the latest messages to late subscribers", async () => {
+        const encoder = new ChatEncoder("alice", 2);
+        encoder.send("one");
+        encoder.send("two");
+        const three = encoder.send("three", "reply-to-id");
+
+        expect(three).toEqual(expect.objectContaining({ author: "alice", text: "three", replyTo: "reply-to-id" }));
+
+        const written: string[] = [];
+        const encoding = encoder.encodeTo({
+            output: async (chunk) => {
+                written.push(new TextDecoder().decode(chunk.data));
+                return undefined;
+            },
+            done: new Promise(() => {}),
+        });
+        encoder.close();
+        await encoding;
+
+        const texts = written.join("\n").split("\n").map((line) => JSON.parse(line).text);
+        expect(texts).toEqual(["two", "three"]);
+    });
+});
+
+describe("ChatDecoder", () => {
+    it("should attribute messages to the broadcast they came from", async () => {
+        const handle = vi.fn();
+        const decoder = new ChatDecoder("bob", handle);
+        const lines = [message("mallory", "m1", 1), { text: "invalid" }];
+        const reader = {
+            acceptGroup: vi.fn()
+                .mockResolvedValueOnce([{
+                    readFrame: vi.fn()
+                        .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) }, undefined])
+                        .mockResolvedValue([undefined, undefined]),
+                    cancel: vi.fn(),
+                }, undefined])
+                .mockResolvedValue([undefined, new Error("track ended")]),
+        };
+
+        await decoder.decodeFrom(new Promise(() => {}), reader as any);
+
+        expect(handle).toHaveBeenCalledTimes(1);
+        expect(handle).toHaveBeenCalledWith(expect.objectContaining({ id: "m1", author: "bob" }));
+    });
+});
+
+describe("ChatLog", () => {
+    it("should order messages by timestamp and drop duplicates", () => {
+        const log = new ChatLog();
+        log.add(message("alice", "a2", 20));
+        log.add(message("bob", "b1", 10));
+        log.add(message("alice", "a2", 20));
+        log.add(message("bob", "b2", 30));
+
+        expect(log.history().map((m) => m.id)).toEqual(["b1", "a2", "b2"]);
+    });
+
+    it("should keep only the latest messages", () => {
+        const log = new ChatLog(2);
+        log.add(message("alice", "a1", 10));
+        log.add(message("alice", "a2", 20));
+        log.add(message("alice", "a3", 30));
+        log.add(message("bob", "b0", 5));
+
+        expect(log.history().map((m) => m.id)).toEqual(["a2", "a3"]);
+    });
+
+    it("should yield the history before new messages", async () => {
+        const log = new ChatLog();
+        log.add(message("alice", "a1", 10));
+        const messages = log.subscribe();
+        log.add(message("bob", "b1", 20));
+
+        expect((await messages.next()).value.id).toBe("a1");
+        expect((await messages.next()).value.id).toBe("b1");
+    });
+});
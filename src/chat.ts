@@ -0,0 +1,145 @@
+import { ChatMessageSchema, CHAT_TRACK_NAME, DATA_PRIORITY } from "./catalog";
+import type { ChatMessage, ChatTrackDescriptor } from "./catalog";
+import { JsonLineTrackEncoder, JsonLineTrackDecoder } from "./internal/json_track";
+import type { JsonLineDestination } from "./internal/json_track";
+import type { ReadableTrack } from "./internal/reader";
+import { EventStream } from "./internal/event_stream";
+
+const DEFAULT_CHAT_HISTORY = 100;
+
+export function chatTrackDescriptor(history: number = DEFAULT_CHAT_HISTORY): ChatTrackDescriptor {
+    return {
+        name: CHAT_TRACK_NAME,
+        priority: DATA_PRIORITY,
+        schema: "chat",
+        config: {
+            format: "jsonl",
+            history,
+        },
+    };
+}
+
+// Publishes the chat messages of the local member.
+// The latest messages are replayed to late subscribers.
+export class ChatEncoder {
+    readonly author: string;
+    readonly history: number;
+    #encoder: JsonLineTrackEncoder<ChatMessage> = new JsonLineTrackEncoder();
+    #sent: ChatMessage[] = [];
+
+    constructor(author: string, history: number = DEFAULT_CHAT_HISTORY) {
+        this.author = author;
+        this.history = history;
+    }
+
+    send(text: string, replyTo?: string): ChatMessage {
+        const message: ChatMessage = {
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            author: this.author,
+            text,
+        };
+        if (replyTo !== undefined) {
+            message.replyTo = replyTo;
+        }
+
+        this.#sent.push(message);
+        if (this.#sent.length > this.history) {
+            this.#sent.shift();
+        }
+        this.#encoder.retain([...this.#sent]);
+        this.#encoder.send([message]);
+
+        return message;
+    }
+
+    encodeTo(dest: JsonLineDestination): Promise<Error | undefined> {
+        return this.#encoder.encodeTo(dest);
+    }
+
+    close(): void {
+        this.#encoder.close();
+    }
+}
+
+// Reads the chat messages of a remote member.
+// The author is taken from the broadcast, so members cannot speak for each other.
+export class ChatDecoder {
+    #decoder: JsonLineTrackDecoder;
+
+    constructor(author: string, handle: (message: ChatMessage) => void) {
+        this.#decoder = new JsonLineTrackDecoder((line) => {
+            const { success, data } = ChatMessageSchema.safeParse(line);
+            if (!success) {
+                return;
+            }
+            handle({ ...data, author });
+        });
+    }
+
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        return this.#decoder.decodeFrom(ctx, reader);
+    }
+}
+
+// Merges the messages of every member into one history ordered by timestamp
+export class ChatLog {
+    readonly limit: number;
+    #messages: ChatMessage[] = [];
+    #seen: Set<string> = new Set();
+    #stream: EventStream<ChatMessage> = new EventStream();
+
+    constructor(limit: number = 500) {
+        this.limit = limit;
+    }
+
+    add(message: ChatMessage): void {
+        // Backfilled history may overlap with live messages
+        const key = `${message.author}/${message.id}`;
+        if (this.#seen.has(key)) {
+            return;
+        }
+        this.#seen.add(key);
+
+        // Most messages are the newest, so search from the end
+        let i = this.#messages.length;
+        while (i > 0 && compare(this.#messages[i - 1]!, message) > 0) {
+            i--;
+        }
+        this.#messages.splice(i, 0, message);
+
+        if (this.#messages.length > this.limit) {
+            const dropped = this.#messages.shift()!;
+            this.#seen.delete(`${dropped.author}/${dropped.id}`);
+            if (dropped === message) {
+                // Older than anything we keep
+                return;
+            }
+        }
+
+        this.#stream.emit(message);
+    }
+
+    history(): ChatMessage[] {
+        return [...this.#messages];
+    }
+
+    // Yields the history first, then every message as it arrives.
+    // Backfilled messages may be older than the ones already yielded.
+    subscribe(done?: Promise<void>): AsyncIterableIterator<ChatMessage> {
+        return this.#stream.subscribe(done, this.#messages);
+    }
+
+    clear(): void {
+        this.#messages = [];
+        this.#seen.clear();
+    }
+}
+
+function compare(a: ChatMessage, b: ChatMessage): number {
+    if (a.timestamp !== b.timestamp) {
+        return a.timestamp - b.timestamp;
+    }
+    // Keep a stable order for messages sent in the same millisecond
+    return a.author < b.author ? -1 : a.author > b.author ? 1 : 0;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { KeyRing, FrameEncryptor, FrameDecryptor, DecryptingTrackReader, importKey } from "./e2ee";
+
+vi.mock("@okutanidaichi/moqt", () => ({}));
+
+const secret = (fill: number) => new Uint8Array(16).fill(fill);
+
+async function keyRings() {
+    const alice = new KeyRing("alice");
+    const bob = new KeyRing("bob");
+    const key = await importKey(secret(1));
+    alice.setEncryptionKey(1, key);
+    bob.setKey("alice", 1, key);
+    return { alice, bob };
+}
+
+describe("FrameEncryptor", () => {
+    it("should round-trip frames between senders", async () => {
+        const { alice, bob } = await keyRings();
+        const data = new Uint8Array([1, 2, 3, 4]);
+
+        const [frame] = await new FrameEncryptor(alice).encrypt(data);
+        expect(frame).toBeDefined();
+        expect(frame!.length).toBeGreaterThan(data.length);
+
+        const [decrypted, err] = await new FrameDecryptor("alice", bob).decrypt(frame!);
+        expect(err).toBeUndefined();
+        expect(decrypted).toEqual(data);
+    });
+
+    it("should decrypt frames under an earlier key after a rotation", async () => {
+        const { alice, bob } = await keyRings();
+        const encryptor = new FrameEncryptor(alice);
+        const decryptor = new FrameDecryptor("alice", bob);
+
+        const [before] = await encryptor.encrypt(new Uint8Array([1]));
+        const rotated = await importKey(secret(2));
+        alice.setEncryptionKey(2, rotated);
+        bob.setKey("alice", 2, rotated);
+        const [after] = await encryptor.encrypt(new Uint8Array([2]));
+
+        expect((await decryptor.decrypt(before!))[0]).toEqual(new Uint8Array([1]));
+        expect((await decryptor.decrypt(after!))[0]).toEqual(new Uint8Array([2]));
+
+        bob.removeKey("alice", 1);
+        expect((await decryptor.decrypt(before!))[1]?.message).toMatch(/unknown key 1/);
+    });
+
+    it("should refuse a key ID another sender has", async () => {
+        const { bob } = await keyRings();
+        const key = await importKey(secret(1));
+
+        expect(bob.setKey("carol", 1, key)?.message).toMatch(/key 1 is a key of alice/);
+        expect(bob.setEncryptionKey(1, key)).toBeInstanceOf(Error);
+        expect(bob.setEncryptionKey(2, key)).toBeUndefined();
+    });
+
+    it("should refuse keys of other lengths", async () => {
+        await expect(importKey(new Uint8Array(24))).rejects.toThrow(RangeError);
+    });
+
+    it("should fail without an encryption key", async () => {
+        const [frame, err] = await new FrameEncryptor(new KeyRing("alice")).encrypt(new Uint8Array([1]));
+
+        expect(frame).toBeUndefined();
+        expect(err).toBeInstanceOf(Error);
+    });
+
+    it("should reject tampered frames", async () => {
+        const { alice, bob } = await keyRings();
+        const [frame] = await new FrameEncryptor(alice).encrypt(new Uint8Array([1, 2, 3]));
+        frame![frame!.length - 1]! ^= 1;
+
+        const [, err] = await new FrameDecryptor("alice", bob).decrypt(frame!);
+
+        expect(err?.message).toMatch(/failed to decrypt/);
+    });
+
+    it("should keep the type and timing of chunks", async () => {
+        const { alice } = await keyRings();
+        const chunk = {
+            type: "key",
+            byteLength: 3,
+            timestamp: 1000,
+            duration: 33,
+            copyTo: (dest: AllowSharedBufferSource) => (dest as Uint8Array).set([1, 2, 3]),
+        };
+
+        const [sealed] = await new FrameEncryptor(alice).encryptChunk(chunk);
+
+        expect(sealed).toMatchObject({ type: "key", timestamp: 1000, duration: 33 });
+        const bytes = new Uint8Array(sealed!.byteLength);
+        sealed!.copyTo(bytes);
+        expect(bytes.some((byte) => byte !== 0)).toBe(true);
+    });
+});
+
+describe("DecryptingTrackReader", () => {
+    it("should hand decrypted frames to the decoder", async () => {
+        const { alice, bob } = await keyRings();
+        const [frame] = await new FrameEncryptor(alice).encrypt(new Uint8Array([7]));
+        const frames = [{ bytes: frame! }];
+        const group = {
+            sequence: 4n,
+            readFrame: vi.fn(async () => [frames.shift(), undefined]),
+            cancel: vi.fn(async () => {}),
+        };
+        const track = {
+            acceptGroup: vi.fn(async () => [group, undefined]),
+            closeWithError: vi.fn(async () => {}),
+        };
+        const reader = new DecryptingTrackReader(track as any, new FrameDecryptor("alice", bob));
+
+        const [accepted] = await reader.acceptGroup(new Promise(() => {}));
+        expect(accepted!.sequence).toBe(4n);
+        expect(await accepted!.readFrame()).toEqual([{ bytes: new Uint8Array([7]) }, undefined]);
+        expect(await accepted!.readFrame()).toEqual([undefined, undefined]);
+
+        await reader.closeWithError(1 as any, "done");
+        expect(track.closeWithError).toHaveBeenCalledWith(1, "done");
+    });
+});
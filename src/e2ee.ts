@@ -0,0 +1,283 @@
+import type { GroupSequence, GroupErrorCode, SubscribeErrorCode } from "@okutanidaichi/moqt";
+import { encodeHeader, decodeHeader, deriveKey, nonce, AES_128_GCM_SHA256_128, AES_256_GCM_SHA512_128 } from "./internal/sframe";
+import type { CipherSuite, SFrameKey } from "./internal/sframe";
+import type { ReadableFrame, ReadableGroup, TrackSubscription } from "./internal/reader";
+
+export type { CipherSuite } from "./internal/sframe";
+
+/**
+ * Key material of the end-to-end encryption. The AES-GCM key and the nonce salt
+ * of each key ID are derived from it as in RFC 9605.
+ */
+export interface BaseKey {
+    secret: CryptoKey; // HKDF key
+    cipherSuite: CipherSuite;
+}
+
+/**
+ * Supplies the base keys of the end-to-end encryption.
+ * Each sender has its own keys, told apart by a key ID carried in every frame.
+ * Key IDs must be unique across the senders: senders sharing a base key under
+ * the same key ID would encrypt with the same key and nonces.
+ */
+export interface KeyProvider {
+    // The key the local member encrypts with now
+    encryptionKey(): Promise<[keyID: number, key: BaseKey] | undefined>;
+
+    // The key a sender encrypted with, or undefined when not known (yet)
+    decryptionKey(senderID: string, keyID: number): Promise<BaseKey | undefined>;
+}
+
+// Imports raw key material: 16 bytes for AES-128-GCM, 32 bytes for AES-256-GCM
+export async function importKey(raw: Uint8Array): Promise<BaseKey> {
+    if (raw.length !== 16 && raw.length !== 32) {
+        throw new RangeError(`e2ee: key of ${raw.length} bytes, expected 16 or 32`);
+    }
+    const secret = await crypto.subtle.importKey("raw", raw as BufferSource, "HKDF", false, ["deriveBits"]);
+    return { secret, cipherSuite: raw.length === 16 ? AES_128_GCM_SHA256_128 : AES_256_GCM_SHA512_128 };
+}
+
+/**
+ * Keeps the keys handed out by the application.
+ * Setting a new encryption key rotates to it; frames under earlier keys still
+ * decrypt until those keys are removed.
+ */
+export class KeyRing implements KeyProvider {
+    readonly senderID: string; // Member ID of the local member
+    #current?: [number, BaseKey];
+    #keys: Map<string, Map<number, BaseKey>> = new Map();
+
+    constructor(senderID: string) {
+        this.senderID = senderID;
+    }
+
+    // Encrypts the frames of the local member with this key from now on
+    setEncryptionKey(keyID: number, key: BaseKey): Error | undefined {
+        const err = this.setKey(this.senderID, keyID, key);
+        if (err) {
+            return err;
+        }
+        this.#current = [keyID, key];
+        return undefined;
+    }
+
+    // Returns an error when another sender has the key ID, as their nonces could collide
+    setKey(senderID: string, keyID: number, key: BaseKey): Error | undefined {
+        for (const [other, keys] of this.#keys) {
+            if (other !== senderID && keys.has(keyID)) {
+                return new Error(`e2ee: key ${keyID} is a key of ${other}`);
+            }
+        }
+
+        let keys = this.#keys.get(senderID);
+        if (!keys) {
+            keys = new Map();
+            this.#keys.set(senderID, keys);
+        }
+        keys.set(keyID, key);
+        return undefined;
+    }
+
+    // Forgets a key, e.g. some time after a rotation. Removing every key of a sender forgets the sender.
+    removeKey(senderID: string, keyID?: number): void {
+        if (keyID === undefined) {
+            this.#keys.delete(senderID);
+            return;
+        }
+        this.#keys.get(senderID)?.delete(keyID);
+        if (senderID === this.senderID && this.#current?.[0] === keyID) {
+            this.#current = undefined;
+        }
+    }
+
+    async encryptionKey(): Promise<[number, BaseKey] | undefined> {
+        return this.#current;
+    }
+
+    async decryptionKey(senderID: string, keyID: number): Promise<BaseKey | undefined> {
+        return this.#keys.get(senderID)?.get(keyID);
+    }
+}
+
+// A chunk written as a frame, e.g. an encoded media chunk or a JSON line chunk
+export interface FrameChunk {
+    type: string;
+    byteLength: number;
+    timestamp?: number;
+    duration?: number | null;
+    copyTo(dest: AllowSharedBufferSource): void;
+}
+
+// Derives the keys of the key IDs in use, once per base key
+class DerivedKeys {
+    #keys: Map<number, [BaseKey, SFrameKey]> = new Map();
+
+    async get(keyID: number, base: BaseKey): Promise<SFrameKey> {
+        const cached = this.#keys.get(keyID);
+        if (cached && cached[0] === base) {
+            return cached[1];
+        }
+        const derived = await deriveKey(base.secret, BigInt(keyID), base.cipherSuite);
+        this.#keys.set(keyID, [base, derived]);
+        return derived;
+    }
+}
+
+/**
+ * Encrypts the frames of a sender as SFrame ciphertexts: the header carrying the key ID
+ * and the counter, followed by the AES-GCM ciphertext authenticating the header.
+ * One encryptor has to be shared by all the tracks of a sender so that nonces are not reused.
+ */
+export class FrameEncryptor {
+    #keys: KeyProvider;
+    #derived: DerivedKeys = new DerivedKeys();
+    // Starts at a random 48-bit value so that a sender starting over with the same key
+    // does not reuse the nonces of its previous session
+    #counter: bigint = BigInt(Math.floor(Math.random() * 2 ** 48));
+
+    constructor(keys: KeyProvider) {
+        this.#keys = keys;
+    }
+
+    async encrypt(data: Uint8Array): Promise<[Uint8Array, undefined] | [undefined, Error]> {
+        const current = await this.#keys.encryptionKey();
+        if (!current) {
+            return [undefined, new Error("e2ee: no encryption key")];
+        }
+        const [keyID, base] = current;
+
+        const counter = this.#counter++;
+        const header = encodeHeader({ keyID: BigInt(keyID), counter });
+        try {
+            const { key, salt } = await this.#derived.get(keyID, base);
+            const ciphertext = await crypto.subtle.encrypt(
+                { name: "AES-GCM", iv: nonce(salt, counter) as BufferSource, additionalData: header as BufferSource },
+                key,
+                data as BufferSource,
+            );
+            const frame = new Uint8Array(header.length + ciphertext.byteLength);
+            frame.set(header);
+            frame.set(new Uint8Array(ciphertext), header.length);
+            return [frame, undefined];
+        } catch (e) {
+            return [undefined, e instanceof Error ? e : new Error(String(e))];
+        }
+    }
+
+    // Encrypts an encoded chunk, keeping its type and timing
+    async encryptChunk(chunk: FrameChunk): Promise<[FrameChunk, undefined] | [undefined, Error]> {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+
+        const [frame, err] = await this.encrypt(data);
+        if (err) {
+            return [undefined, err];
+        }
+
+        return [{
+            type: chunk.type,
+            byteLength: frame!.byteLength,
+            timestamp: chunk.timestamp,
+            duration: chunk.duration,
+            copyTo(dest: AllowSharedBufferSource): void {
+                const view = ArrayBuffer.isView(dest)
+                    ? new Uint8Array(dest.buffer, dest.byteOffset, dest.byteLength)
+                    : new Uint8Array(dest);
+                view.set(frame!);
+            },
+        }, undefined];
+    }
+}
+
+// Decrypts the frames of one sender
+export class FrameDecryptor {
+    readonly senderID: string;
+    #keys: KeyProvider;
+    #derived: DerivedKeys = new DerivedKeys();
+
+    constructor(senderID: string, keys: KeyProvider) {
+        this.senderID = senderID;
+        this.#keys = keys;
+    }
+
+    async decrypt(frame: Uint8Array): Promise<[Uint8Array, undefined] | [undefined, Error]> {
+        const decoded = decodeHeader(frame);
+        if (decoded instanceof Error) {
+            return [undefined, decoded];
+        }
+        const [{ keyID, counter }, length] = decoded;
+
+        const base = await this.#keys.decryptionKey(this.senderID, Number(keyID));
+        if (!base) {
+            return [undefined, new Error(`e2ee: unknown key ${keyID} of ${this.senderID}`)];
+        }
+
+        try {
+            const { key, salt } = await this.#derived.get(Number(keyID), base);
+            const data = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv: nonce(salt, counter) as BufferSource, additionalData: frame.subarray(0, length) as BufferSource },
+                key,
+                frame.subarray(length) as BufferSource,
+            );
+            return [new Uint8Array(data), undefined];
+        } catch {
+            // The frame was tampered with or the key is wrong
+            return [undefined, new Error(`e2ee: failed to decrypt a frame of ${this.senderID}`)];
+        }
+    }
+}
+
+// Reads the decrypted frames of a track, in place of the track reader given to a decoder
+export class DecryptingTrackReader implements TrackSubscription {
+    #track: TrackSubscription;
+    #decryptor: FrameDecryptor;
+
+    constructor(track: TrackSubscription, decryptor: FrameDecryptor) {
+        this.#track = track;
+        this.#decryptor = decryptor;
+    }
+
+    async acceptGroup(ctx: Promise<void>): Promise<[DecryptingGroupReader, undefined] | [undefined, Error]> {
+        const [group, err] = await this.#track.acceptGroup(ctx);
+        if (err) {
+            return [undefined, err];
+        }
+        return [new DecryptingGroupReader(group!, this.#decryptor), undefined];
+    }
+
+    closeWithError(code: SubscribeErrorCode, message: string): Promise<void> {
+        return this.#track.closeWithError(code, message);
+    }
+}
+
+export class DecryptingGroupReader implements ReadableGroup {
+    #group: ReadableGroup;
+    #decryptor: FrameDecryptor;
+
+    constructor(group: ReadableGroup, decryptor: FrameDecryptor) {
+        this.#group = group;
+        this.#decryptor = decryptor;
+    }
+
+    get sequence(): GroupSequence {
+        return this.#group.sequence;
+    }
+
+    // Fails on a frame that cannot be decrypted, so that no frame is skipped silently
+    async readFrame(): Promise<[ReadableFrame | undefined, Error | undefined]> {
+        const [frame, err] = await this.#group.readFrame();
+        if (err || !frame) {
+            return [undefined, err];
+        }
+
+        const [bytes, derr] = await this.#decryptor.decrypt(frame.bytes);
+        if (derr) {
+            return [undefined, derr];
+        }
+        return [{ bytes: bytes! }, undefined];
+    }
+
+    cancel(code: GroupErrorCode, message: string): Promise<void> {
+        return this.#group.cancel(code, message);
+    }
+}
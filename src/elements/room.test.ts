@@ -7,13 +7,13 @@ vi.mock("../room", () => ({
         join: vi.fn().mockImplementation(async (session, local) => {
             // Simulate calling onJoin callback
             if (config.onmember?.onJoin) {
-                config.onmember.onJoin({ name: "test-member", remote: true });
+                config.onmember.onJoin({ id: "test-member", name: "test-member", remote: true });
             }
         }),
         leave: vi.fn().mockImplementation(() => {
             // Simulate calling onLeave callback when leave is called
             if (config.onmember?.onLeave) {
-                config.onmember.onLeave({ name: "test-member", remote: true });
+                config.onmember.onLeave({ id: "test-member", name: "test-member", remote: true });
             }
         }),
         roomID: "mock-room",
@@ -113,6 +113,17 @@ describe("RoomElement", () => {
             expect(element.room?.roomID).toBe("mock-room");
         });
 
+        it("should join as a spectator without a local broadcast", async () => {
+            element.setAttribute('room-id', 'test-room');
+
+            const statusSpy = vi.fn();
+            element.onstatus = statusSpy;
+
+            await element.join({} as any);
+
+            expect(statusSpy).toHaveBeenLastCalledWith({ type: 'success', message: '✓ Joined room mock-room as spectator' });
+        });
+
         it("should set error status when room-id is missing", async () => {
             const mockSession = {};
             const mockPublisher = { name: "test-publisher" };
@@ -156,7 +167,7 @@ describe("RoomElement", () => {
 
             await element.join(mockSession as any, mockPublisher as any);
 
-            expect(onjoinSpy).toHaveBeenCalledWith({ name: "test-member", remote: true });
+            expect(onjoinSpy).toHaveBeenCalledWith({ id: "test-member", name: "test-member", remote: true });
         });
 
         it("should call onleave callback when member leaves", async () => {
@@ -173,7 +184,7 @@ describe("RoomElement", () => {
             // Simulate leave by calling room.leave
             element.room?.leave();
 
-            expect(onleaveSpy).toHaveBeenCalledWith({ name: "test-member", remote: true });
+            expect(onleaveSpy).toHaveBeenCalledWith({ id: "test-member", name: "test-member", remote: true });
         });
 
         it("dispatches 'join' event and adds DOM participant when member joins", async () => {
@@ -220,6 +231,31 @@ describe("RoomElement", () => {
             expect(element.querySelector('.remote-member-test-member')).toBeFalsy();
         });
 
+        it("reflects reconnection states in the status", async () => {
+            const RoomMock = vi.mocked(Room);
+            RoomMock.mockImplementationOnce((config: any) => ({
+                join: vi.fn().mockImplementation(async () => {
+                    config.onstate?.("reconnecting");
+                    config.onstate?.("reconnected");
+                }),
+                leave: vi.fn(),
+                roomID: "mock-room",
+            }) as any);
+
+            element.setAttribute('room-id', 'test-room');
+            element.reconnect = { session: vi.fn() };
+
+            const statusSpy = vi.fn();
+            element.onstatus = statusSpy;
+
+            await element.join({} as any, { name: "test-publisher" } as any);
+
+            const types = statusSpy.mock.calls.map((c) => c[0].type);
+            expect(types).toContain('reconnecting');
+            expect(types).toContain('reconnected');
+            expect(RoomMock).toHaveBeenLastCalledWith(expect.objectContaining({ reconnect: element.reconnect }));
+        });
+
         it('sets error status when onjoin handler throws', async () => {
             const mockSession = {};
             const mockPublisher = { name: 'test-publisher' };
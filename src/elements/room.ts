@@ -2,6 +2,8 @@ import type {
     JoinedMember,
     LeftMember,
     BroadcastPublisher,
+    RoomReconnectInit,
+    RoomState,
 } from "../";
 import {
     Room,
@@ -11,7 +13,7 @@ import type {
 } from "@okutanidaichi/moqt";
 
 // Extended status type includes lifecycle states
-export type RoomLifecycleStatus = { type: 'idle' | 'connecting' | 'success' | 'error' | 'left' | 'disconnected'; message: string };
+export type RoomLifecycleStatus = { type: 'idle' | 'connecting' | 'success' | 'error' | 'left' | 'disconnected' | 'reconnecting' | 'reconnected'; message: string };
 
 export class RoomElement extends HTMLElement {
     // Private properties
@@ -22,6 +24,9 @@ export class RoomElement extends HTMLElement {
     onjoin?: (meta: JoinedMember) => void;
     onleave?: (meta: LeftMember) => void;
     onstatus?: (status: RoomLifecycleStatus) => void;
+
+    // Set before join to reconnect automatically when the session is lost
+    reconnect?: RoomReconnectInit;
     // localHandler?: (publisher: BroadcastPublisher) => void;
 
     // Static methods
@@ -59,7 +64,8 @@ export class RoomElement extends HTMLElement {
     }
 
     // Public methods
-    async join(session: Session, local: BroadcastPublisher): Promise<void> {
+    // Omit the local broadcast to join as a receive-only spectator
+    async join(session: Session, local?: BroadcastPublisher): Promise<void> {
         const roomId = this.getAttribute('room-id');
         // const localName = this.getAttribute('local-name');
         const description = this.getAttribute('description');
@@ -81,7 +87,9 @@ export class RoomElement extends HTMLElement {
                 onmember: {
                     onJoin: this.#onJoin.bind(this),
                     onLeave: this.#onLeave.bind(this)
-                }
+                },
+                reconnect: this.reconnect,
+                onstate: (state) => this.#onState(roomId, state),
             });
 
             await room.join(session, local);
@@ -89,7 +97,8 @@ export class RoomElement extends HTMLElement {
             this.room = room;
             // Do not overwrite an error status that may have been set by onjoin handler
             if (this.#statusState.type !== 'error') {
-                this.#setStatus({ type: 'success', message: `✓ Joined room ${room.roomID} as ${local.name}` });
+                const as = local ? local.name : 'spectator';
+                this.#setStatus({ type: 'success', message: `✓ Joined room ${room.roomID} as ${as}` });
             }
         } catch (e) {
             this.#setStatus({ type: 'error', message: `Failed to join: ${e instanceof Error ? e.message : String(e)}` });
@@ -135,13 +144,31 @@ export class RoomElement extends HTMLElement {
         this.dispatchEvent(new CustomEvent('statuschange', { detail: status, bubbles: true, composed: true }));
     }
 
+    #onState(roomId: string, state: RoomState): void {
+        switch (state) {
+            case 'reconnecting':
+                this.#setStatus({ type: 'reconnecting', message: `Reconnecting to room ${roomId}...` });
+                break;
+            case 'reconnected':
+                this.#setStatus({ type: 'reconnected', message: `✓ Reconnected to room ${roomId}` });
+                break;
+            case 'disconnected':
+                this.#setStatus({ type: 'disconnected', message: `Disconnected from room ${roomId}` });
+                break;
+            default:
+                // 'connected' is reported by join itself
+                break;
+        }
+    }
+
     #onJoin(member: JoinedMember): void {
-        // Add participant to Light DOM (idempotent by name+type)
+        // Add participant to Light DOM (idempotent by id+type)
         const container = member.remote ? this.querySelector('.remote-participants') : this.querySelector('.local-participant');
         if (!container) {
         } else {
             const participantDiv = document.createElement('div');
-            participantDiv.className = member.remote ? `remote-member remote-member-${member.name}` : `local-member local-member-${member.name}`;
+            participantDiv.className = member.remote ? `remote-member remote-member-${member.id}` : `local-member local-member-${member.id}`;
+            participantDiv.setAttribute('data-member-id', member.id);
             participantDiv.setAttribute('data-member-name', member.name);
             participantDiv.setAttribute('data-member-type', member.remote ? 'remote' : 'local');
             participantDiv.textContent = member.name;
@@ -162,14 +189,16 @@ export class RoomElement extends HTMLElement {
     }
 
     #onLeave(member: LeftMember): void {
-        // Remove participant from Light DOM by matching name+type
+        // Remove participant from Light DOM by matching id+type
         const container = member.remote ? this.querySelector('.remote-participants') : this.querySelector('.local-participant');
         if (!container) {
             return;
         }
 
-        const selector = `[data-member-name="${member.name}"][data-member-type="${member.remote ? 'remote' : 'local'}"]`;
-        const participantDiv = container.querySelector(selector);
+        // Compare attributes directly since member IDs may contain characters that are not valid in selectors
+        const type = member.remote ? 'remote' : 'local';
+        const participantDiv = Array.from(container.querySelectorAll(`[data-member-type="${type}"]`))
+            .find((el) => el.getAttribute('data-member-id') === member.id);
         if (participantDiv) {
             participantDiv.remove();
         } else {
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { HeartbeatEncoder, HeartbeatDecoder, heartbeatTrackDescriptor } from "./heartbeat";
+import { HeartbeatTrackSchema } from "./catalog";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+}));
+
+describe("heartbeatTrackDescriptor", () => {
+    it("should be a valid heartbeat descriptor", () => {
+        expect(HeartbeatTrackSchema.safeParse(heartbeatTrackDescriptor()).success).toBe(true);
+    });
+});
+
+describe("HeartbeatEncoder", () => {
+    it("should beat every interval until closed", async () => {
+        vi.useFakeTimers();
+        try {
+            const encoder = new HeartbeatEncoder(1000);
+            const output = vi.fn(async () => undefined);
+            const encoding = encoder.encodeTo({ output, done: new Promise(() => {}) });
+
+            await vi.advanceTimersByTimeAsync(2500);
+            expect(output).toHaveBeenCalledTimes(3);
+
+            encoder.close();
+            expect(await encoding).toBeUndefined();
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("should stop on a write error", async () => {
+        const encoder = new HeartbeatEncoder(1000);
+        const err = new Error("stream closed");
+
+        expect(await encoder.encodeTo({ output: async () => err, done: new Promise(() => {}) })).toBe(err);
+    });
+});
+
+describe("HeartbeatDecoder", () => {
+    it("should hand over valid heartbeats", async () => {
+        const handle = vi.fn();
+        const decoder = new HeartbeatDecoder(handle);
+        const reader = {
+            acceptGroup: vi.fn()
+                .mockResolvedValueOnce([{
+                    readFrame: vi.fn()
+                        .mockResolvedValueOnce([{ bytes: new TextEncoder().encode('{"timestamp":1}\n{"bogus":true}') }, undefined])
+                        .mockResolvedValue([undefined, undefined]),
+                    cancel: vi.fn(),
+                }, undefined])
+                .mockResolvedValue([undefined, new Error("track ended")]),
+        };
+
+        await decoder.decodeFrom(new Promise(() => {}), reader as any);
+
+        expect(handle).toHaveBeenCalledTimes(1);
+        expect(handle).toHaveBeenCalledWith({ timestamp: 1 });
+    });
+});
@@ -0,0 +1,78 @@
+import { HeartbeatSchema, HEARTBEAT_TRACK_NAME, CATALOG_PRIORITY } from "./catalog";
+import type { Heartbeat, HeartbeatTrackDescriptor } from "./catalog";
+import { JsonLineEncoder } from "./internal/json";
+import { JsonLineTrackDecoder } from "./internal/json_track";
+import type { JsonLineDestination } from "./internal/json_track";
+import type { ReadableTrack } from "./internal/reader";
+import { sleep } from "./internal/timer";
+
+const DEFAULT_HEARTBEAT_INTERVAL = 1000; // Milliseconds
+
+// Heartbeats go ahead of media like the catalog, so that a loaded connection does not make
+// a healthy member look stale
+export function heartbeatTrackDescriptor(interval: number = DEFAULT_HEARTBEAT_INTERVAL): HeartbeatTrackDescriptor {
+    return {
+        name: HEARTBEAT_TRACK_NAME,
+        priority: CATALOG_PRIORITY,
+        schema: "heartbeat",
+        config: {
+            format: "jsonl",
+            interval,
+        },
+    };
+}
+
+// Tells the subscribers of the heartbeat track that the member is still around
+export class HeartbeatEncoder {
+    readonly interval: number;
+    #encoder: JsonLineEncoder = new JsonLineEncoder();
+    #closed: Promise<void>;
+    #close!: () => void;
+
+    constructor(interval: number = DEFAULT_HEARTBEAT_INTERVAL) {
+        this.interval = interval;
+        this.#closed = new Promise((resolve) => {
+            this.#close = resolve;
+        });
+    }
+
+    async encodeTo(dest: JsonLineDestination): Promise<Error | undefined> {
+        const stop = Promise.race([dest.done, this.#closed]);
+        let stopped = false;
+        stop.then(() => { stopped = true; });
+
+        while (!stopped) {
+            const beat: Heartbeat = { timestamp: Date.now() };
+            const err = await dest.output(this.#encoder.encode([beat]));
+            if (err) {
+                return err;
+            }
+            await sleep(this.interval, stop);
+        }
+
+        return undefined;
+    }
+
+    close(): void {
+        this.#close();
+    }
+}
+
+// Reads the heartbeats of a remote member
+export class HeartbeatDecoder {
+    #decoder: JsonLineTrackDecoder;
+
+    constructor(handle: (beat: Heartbeat) => void) {
+        this.#decoder = new JsonLineTrackDecoder((line) => {
+            const { success, data } = HeartbeatSchema.safeParse(line);
+            if (!success) {
+                return;
+            }
+            handle(data);
+        });
+    }
+
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        return this.#decoder.decodeFrom(ctx, reader);
+    }
+}
@@ -1,4 +1,20 @@
 export * from "./broadcast";
 export * from "./room";
+export * from "./path";
 export * from "./member";
+export * from "./auth";
+export * from "./moderation";
+export * from "./lobby";
+export * from "./chat";
+export * from "./signals";
+export * from "./speakers";
+export * from "./last_n";
+export * from "./simulcast";
+export * from "./resubscribe";
+export * from "./stats";
+export * from "./qoe";
+export * from "./e2ee";
+export * from "./signing";
+export * from "./archive";
+export * from "./recording";
 export * from "./elements";
@@ -3,10 +3,11 @@
 // Uses Web Audio API AudioEncoder/AudioDecoder for encoding/decoding
 import { GroupCache } from "./cache";
 import { EncodedContainer, cloneChunk } from "./container";
-import type { EncodedChunk, EncodeDestination } from "./container";
+import type { EncodedChunk, EncodeDestination, DecodeMonitor } from "./container";
 import { TrackWriter, TrackReader,InternalSubscribeErrorCode } from "@okutanidaichi/moqt";
 import { readVarint } from "@okutanidaichi/moqt/io";
 import { importWorkletUrl as importOffloadWorkletUrl, workletName as offloadWorkletName} from "./audio_offload_worklet";
+import type { OffloadMessage } from "./audio_offload_worklet";
 import { workletName as hijackWorkletName, importWorkletUrl as importHijackWorkletUrl } from "./audio_hijack_worklet";
 
 export class AudioEncodeNode implements AudioNode {
@@ -201,8 +202,11 @@ export class AudioDecodeNode implements AudioNode {
 	context: AudioContext;
 	#worklet?: AudioWorkletNode;
 
-	constructor(context: AudioContext, init: { latency?: number; } = {}) {
+	#monitor?: DecodeMonitor;
+
+	constructor(context: AudioContext, init: { latency?: number; monitor?: DecodeMonitor; } = {}) {
 		this.context = context;
+		this.#monitor = init.monitor;
 
         context.audioWorklet.addModule(importOffloadWorkletUrl()).then(() => {
 			// Create AudioWorkletNode
@@ -219,17 +223,24 @@ export class AudioDecodeNode implements AudioNode {
 					},
 				}
 			);
+			this.#worklet.port.onmessage = ({ data }: { data: OffloadMessage }) => {
+				if (data.type === 'underrun') {
+					this.#monitor?.underrun(data.samples / context.sampleRate * 1000);
+				}
+			};
 		}).catch((error) => {
 			console.error('failed to load AudioWorklet module:', error);
 		});
 
 		this.#decoder = new AudioDecoder({
 			output: async (frame) => {
+				this.#monitor?.frameDecoded();
 				// Pass audio frame
                 this.process(frame);
 			},
 			error: (e) => {
 				console.error('AudioDecoder error:', e);
+				this.#monitor?.decodeError(e);
 			},
 		});
 	}
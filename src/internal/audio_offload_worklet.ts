@@ -5,6 +5,9 @@ export function importWorkletUrl(): string {
 
 export const workletName: string = 'audio-offloader';
 
+// Posted to the main thread once the playback catches up after running out of samples
+export type OffloadMessage = { type: 'underrun'; samples: number };
+
 // Check if we're in a worklet context
 if (typeof AudioWorkletProcessor !== 'undefined') {
 	// AudioWorkletProcessor for AudioEmitter
@@ -14,6 +17,10 @@ if (typeof AudioWorkletProcessor !== 'undefined') {
         #readIndex: number = 0;
         #writeIndex: number = 0;
 
+        // Samples played out as silence since the buffer ran dry
+        #started: boolean = false;
+        #missing: number = 0;
+
         constructor(options: AudioWorkletNodeOptions) {
             super();
             if (!options.processorOptions) {
@@ -92,6 +99,7 @@ if (typeof AudioWorkletProcessor !== 'undefined') {
             }
 
             this.#writeIndex += numberOfFrames;
+            this.#started = true;
         }
 
         process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
@@ -109,6 +117,16 @@ if (typeof AudioWorkletProcessor !== 'undefined') {
             const available = (this.#writeIndex - this.#readIndex + this.#channelsBuffer[0].length) % this.#channelsBuffer[0].length;
             const numberOfFrames = Math.min(available, outputs[0].length);
 
+            // Report an underrun once samples are available again
+            const quantum = outputs[0][0]?.length ?? 0;
+            if (this.#started && available < quantum) {
+                this.#missing += quantum - available;
+            } else if (this.#missing > 0) {
+                const message: OffloadMessage = { type: 'underrun', samples: this.#missing };
+                this.port.postMessage(message);
+                this.#missing = 0;
+            }
+
             // No data to read
             if (numberOfFrames <= 0) return true;
 
@@ -11,7 +11,7 @@ vi.mock("@okutanidaichi/moqt", () => ({
 // DO NOT mock golikejs/sync - use the real Mutex and Cond implementations!
 // This gives us real synchronization behavior and catches integration bugs.
 
-import { GroupCache, TrackCache } from "./cache";
+import { GroupCache, TrackCache, LatestGroupCache, cacheFrom } from "./cache";
 import { ExpiredGroupErrorCode, InternalGroupErrorCode } from "@okutanidaichi/moqt";
 import type { GroupSequence, Frame, GroupWriter } from "@okutanidaichi/moqt";
 import type { Source } from "@okutanidaichi/moqt/io";
@@ -475,3 +475,117 @@ describe("Integration Scenarios with Real Synchronization", () => {
         expect(cache.frames).toHaveLength(0);
     });
 });
+
+describe("LatestGroupCache", () => {
+    it("should keep the latest group and close the previous one", async () => {
+        const cache = new LatestGroupCache();
+        const first = new GroupCache(0n, Date.now());
+        const second = new GroupCache(1n, Date.now());
+
+        cache.store(first);
+        cache.store(second);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(cache.latest).toBe(second);
+        expect(first.closed).toBe(true);
+        expect(second.closed).toBe(false);
+    });
+
+    it("should expire the group before the previous one", async () => {
+        const cache = new LatestGroupCache();
+        const groups = [0n, 1n, 2n].map(sequence => new GroupCache(sequence, Date.now()));
+
+        groups.forEach(group => cache.store(group));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(groups.map(group => group.expired)).toEqual([true, false, false]);
+    });
+
+    it("should wait for the next group", async () => {
+        const cache = new LatestGroupCache();
+        const first = new GroupCache(0n, Date.now());
+        cache.store(first);
+
+        const next = cache.next(first, new Promise(() => {}));
+        const second = new GroupCache(1n, Date.now());
+        cache.store(second);
+
+        expect(await next).toBe(second);
+    });
+
+    it("should stop waiting once closed or done", async () => {
+        const cache = new LatestGroupCache();
+        let resolve!: () => void;
+        const done = new Promise<void>(r => { resolve = r; });
+
+        const waiting = cache.next(undefined, done);
+        resolve();
+        expect(await waiting).toBeUndefined();
+
+        const closing = cache.next(undefined, new Promise(() => {}));
+        await cache.close();
+        expect(await closing).toBeUndefined();
+    });
+
+    it("should watch done once across the groups of a subscriber", async () => {
+        const cache = new LatestGroupCache();
+        const done = new Promise<void>(() => {});
+        const then = vi.spyOn(done, "then");
+
+        let group: GroupCache | undefined;
+        for (let i = 0n; i < 5n; i++) {
+            const next = cache.next(group, done);
+            cache.store(new GroupCache(i, Date.now()));
+            group = await next;
+        }
+
+        expect(group?.sequence).toBe(4n);
+        expect(then).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let a late flush start from the first frame of the group", async () => {
+        const cache = new LatestGroupCache();
+        const group = new GroupCache(0n, Date.now());
+        const keyframe = createMockFrame();
+        const delta = createMockFrame();
+        cache.store(group);
+        await group.append(keyframe);
+        await group.append(delta);
+
+        const groupWriter = createMockGroupWriter();
+        const flushing = cache.latest!.flush(groupWriter);
+        cache.store(new GroupCache(1n, Date.now()));
+        await flushing;
+
+        expect(groupWriter.writeFrame).toHaveBeenNthCalledWith(1, keyframe);
+        expect(groupWriter.writeFrame).toHaveBeenNthCalledWith(2, delta);
+        expect(groupWriter.close).toHaveBeenCalled();
+    });
+});
+
+describe("cacheFrom", () => {
+    it("should copy the frames of a group and close the cache at the end", async () => {
+        const frame = createMockFrame();
+        const group = {
+            readFrame: vi.fn()
+                .mockResolvedValueOnce([frame, undefined])
+                .mockResolvedValueOnce([undefined, undefined]),
+        } as any;
+        const cache = new GroupCache(3n, Date.now());
+
+        expect(await cacheFrom(group, cache)).toBeUndefined();
+
+        expect(cache.frames).toEqual([frame]);
+        expect(cache.closed).toBe(true);
+    });
+
+    it("should expire the cache when the group fails", async () => {
+        const failure = new Error("stream reset");
+        const group = { readFrame: vi.fn().mockResolvedValueOnce([undefined, failure]) } as any;
+        const cache = new GroupCache(3n, Date.now());
+
+        expect(await cacheFrom(group, cache)).toBe(failure);
+
+        expect(cache.expired).toBe(true);
+    });
+});
@@ -1,7 +1,5 @@
 import {
     ExpiredGroupErrorCode,
-    PublishAbortedErrorCode,
-    TrackWriter,
     InternalGroupErrorCode
 } from "@okutanidaichi/moqt";
 import {
@@ -12,15 +10,15 @@ import type {
 GroupReader,
     GroupSequence,
     GroupWriter,
-    GroupErrorCode,
 } from "@okutanidaichi/moqt";
 import type { Frame } from "@okutanidaichi/moqt";
+import type { Source } from "@okutanidaichi/moqt/io";
 import { EOF } from "@okutanidaichi/moqt/io";
 
 export class GroupCache {
     readonly sequence: GroupSequence;
     readonly timestamp: number;
-    frames: Frame[] = [];
+    frames: Array<Frame | Source> = [];
 
     closed: boolean = false;
     expired: boolean = false;
@@ -32,7 +30,7 @@ export class GroupCache {
         this.timestamp = timestamp;
     }
 
-    async append(frame: Frame): Promise<void> {
+    async append(frame: Frame | Source): Promise<void> {
         await this.#mutex.lock();
 
         if (this.closed) {
@@ -42,103 +40,168 @@ export class GroupCache {
 
         this.frames.push(frame);
 
-        // Signal one waiting flush that a new frame is available
-        this.#cond.signal();
+        // Wake every flush waiting for a new frame
+        this.#cond.broadcast();
 
         this.#mutex.unlock();
     }
 
-    // async connect(group: GroupWriter): Promise<void> {
-    //     await this.#mutex.lock();
-
-    //     // Write current frames to group
-    //     let err: Error | undefined;
-    //     let framesCount = 0;
-    //     for (const frame of this.frames) {
-    //         if (frame) {
-    //             err = await group.writeFrame(frame);
-    //             if (err) {
-    //                 group.cancel(InternalGroupErrorCode, `failed to write frame: ${err.message}`);
-    //                 this.#mutex.unlock();
-    //                 return;
-    //             }
-    //             framesCount++;
-    //         }
-    //     }
-
-    //     // Release lock before entering the wait loop
-    //     this.#mutex.unlock();
-
-    //     // Wait for new frames or close/expire signals
-    //     while (true) {
-    //         // Write any new frames that arrived
-    //         while (framesCount < this.frames.length) {
-    //             const frame = this.frames[framesCount];
-    //             err = await group.writeFrame(frame!);
-    //             if (err) {
-    //                 group.cancel(InternalGroupErrorCode, `failed to write frame: ${err.message}`);
-    //                 return;
-    //             }
-    //             framesCount++;
-    //         }
-
-    //         // Lock and wait for signal
-    //         this.#mutex.lock();
-    //         await this.#cond.wait();
-    //         this.#mutex.unlock();
-
-    //         // Check termination conditions
-    //         if (this.closed) {
-    //             group.close();
-    //             return;
-    //         }
-    //         if (this.expired) {
-    //             group.cancel(ExpiredGroupErrorCode, 'cache expired');
-    //             return;
-    //         }
-    //     }
-    // }
-
-    // async close(): Promise<void> {
-    //     await this.#mutex.lock();
-
-    //     if (this.closed) {
-    //         this.#mutex.unlock();
-    //         return;
-    //     }
-
-    //     this.closed = true;
-
-    //     // Broadcast to all waiting flush operations
-    //     this.#cond.broadcast();
-
-    //     this.#mutex.unlock();
-    // }
-
-    // async expire(): Promise<void> {
-    //     await this.#mutex.lock();
-
-    //     if (this.expired) {
-    //         this.#mutex.unlock();
-    //         return;
-    //     }
-
-    //     this.expired = true;
-    //     this.frames.length = 0;
-
-    //     // Broadcast to all waiting flush operations
-    //     this.#cond.broadcast();
-
-    //     this.#mutex.unlock();
-    // }
+    // Writes the frames of the group from the first one, then every frame appended later,
+    // until the group is closed or expired
+    async flush(group: Pick<GroupWriter, "writeFrame" | "close" | "cancel">): Promise<void> {
+        let written = 0;
+
+        await this.#mutex.lock();
+        while (true) {
+            if (this.expired) {
+                this.#mutex.unlock();
+                group.cancel(ExpiredGroupErrorCode, "cache expired");
+                return;
+            }
+
+            if (written < this.frames.length) {
+                const frame = this.frames[written]!;
+                // Do not hold the lock while writing
+                this.#mutex.unlock();
+                const err = await group.writeFrame(frame as Frame);
+                if (err) {
+                    group.cancel(InternalGroupErrorCode, `failed to write frame: ${err.message}`);
+                    return;
+                }
+                written++;
+                await this.#mutex.lock();
+                continue;
+            }
+
+            if (this.closed) {
+                this.#mutex.unlock();
+                group.close();
+                return;
+            }
+
+            await this.#cond.wait();
+        }
+    }
+
+    // Marks the group as complete; flushes end after writing the remaining frames
+    async close(): Promise<void> {
+        await this.#mutex.lock();
+
+        if (this.closed) {
+            this.#mutex.unlock();
+            return;
+        }
+
+        this.closed = true;
+        this.#cond.broadcast();
+
+        this.#mutex.unlock();
+    }
+
+    // Drops the frames of the group; flushes end without writing the rest
+    async expire(): Promise<void> {
+        await this.#mutex.lock();
+
+        if (this.expired) {
+            this.#mutex.unlock();
+            return;
+        }
+
+        this.expired = true;
+        this.frames.length = 0;
+        this.#cond.broadcast();
+
+        this.#mutex.unlock();
+    }
 }
 
-async function cacheFrom(group: GroupReader): Promise<GroupCache> {
-    const [frame, err] = await group.readFrame();
-    if (err) {
-        throw new Error(`failed to read first frame from group: ${err.message}`);
+export interface TrackCache {
+    store(group: GroupCache): void;
+    close(): Promise<void>;
+}
+
+// Keeps the group being written on a track, so that new subscribers start from its first frame.
+// Storing a group closes the previous one and expires the one before.
+export class LatestGroupCache implements TrackCache {
+    #latest?: GroupCache;
+    #previous?: GroupCache;
+    #closed: boolean = false;
+    #waiters: Array<() => void> = [];
+    // Whether each done given to next resolved, watched once however many groups a subscriber waits for
+    #done: WeakMap<Promise<void>, { ended: boolean }> = new WeakMap();
+
+    get latest(): GroupCache | undefined {
+        return this.#latest;
+    }
+
+    store(group: GroupCache): void {
+        if (this.#closed) {
+            return;
+        }
+
+        this.#previous?.expire();
+        this.#previous = this.#latest;
+        this.#latest?.close();
+        this.#latest = group;
+
+        this.#wake();
     }
 
-    
-    return new GroupCache(group.sequence, group.timestamp);
-}
\ No newline at end of file
+    // Resolves with the latest group once it is not `after`, or with undefined once the cache is closed or done resolves
+    async next(after: GroupCache | undefined, done: Promise<void>): Promise<GroupCache | undefined> {
+        let state = this.#done.get(done);
+        if (!state) {
+            const watched = { ended: false };
+            done.then(() => {
+                watched.ended = true;
+                this.#wake();
+            });
+            this.#done.set(done, watched);
+            state = watched;
+        }
+
+        while (true) {
+            if (this.#closed || state.ended) {
+                return undefined;
+            }
+            if (this.#latest && this.#latest !== after) {
+                return this.#latest;
+            }
+            await new Promise<void>((resolve) => {
+                this.#waiters.push(resolve);
+            });
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+        this.#wake();
+
+        await Promise.all([this.#previous?.close(), this.#latest?.close()]);
+    }
+
+    #wake(): void {
+        for (const wake of this.#waiters.splice(0)) {
+            wake();
+        }
+    }
+}
+
+// Copies the frames of a group into a cache as they arrive, closing the cache at the end of the group
+export async function cacheFrom(group: GroupReader, cache: GroupCache): Promise<Error | undefined> {
+    while (true) {
+        const [frame, err] = await group.readFrame();
+        if (err === EOF || (!err && !frame)) {
+            await cache.close();
+            return undefined;
+        }
+        if (err) {
+            await cache.expire();
+            return err;
+        }
+        await cache.append(frame!);
+    }
+}
@@ -4,6 +4,7 @@ import { CatalogEncoder, CatalogDecoder, TrackCatalog } from "./catalog_stream";
 import type { TrackWriter, TrackReader, GroupWriter, GroupReader, Frame } from "@okutanidaichi/moqt";
 import type { TrackDescriptor } from "../catalog/track";
 import { JsonLineEncoder, JsonLineDecoder, EncodedJsonChunk } from "../internal/json";
+import { splitSignature, verifyLines, SignatureError } from "./signature";
 import { background, withCancel, ContextCancelledError, Context } from "golikejs/context";
 
 // Helper to create mock GroupWriter
@@ -83,8 +84,8 @@ describe("CatalogEncoder", () => {
     it("should encode active tracks when tracks provided", async () => {
       const encoder = new CatalogEncoder({ version: "1.0" });
 
-      const activeTrack = new TrackCatalog(background(), { name: "track1", schema: "vp8", config: {} });
-      const endedTrack = new TrackCatalog(background(), { name: "track2", schema: "opus", config: {} });
+      const activeTrack = new TrackCatalog(background(), { name: "track1", priority: 0, schema: "vp8", config: {} });
+      const endedTrack = new TrackCatalog(background(), { name: "track2", priority: 0, schema: "opus", config: {} });
       endedTrack.end(); // Mark as ended
 
       const err = await encoder.set([activeTrack, endedTrack]);
@@ -246,7 +247,7 @@ describe("CatalogDecoder", () => {
       const ctx = background();
       const [cancelCtx, cancel] = withCancel(ctx);
       
-      const trackDescriptor = { name: "video", schema: "vp8", config: {} };
+      const trackDescriptor = { name: "video", priority: 0, schema: "vp8", config: {} };
       const initFrame = { bytes: encoder.encode([{ version: "1.0" }]).data } as Frame;
       const trackFrame = { 
         bytes: encoder.encode([{ active: true, track: trackDescriptor }]).data 
@@ -288,8 +289,8 @@ describe("CatalogDecoder", () => {
       const ctx = background();
       const encoderObj = new CatalogEncoder({ version: "1.0" });
       
-      const activeTrack = new TrackCatalog(ctx, { name: "active", schema: "vp8", config: {} });
-      const endedTrack = new TrackCatalog(ctx, { name: "ended", schema: "opus", config: {} });
+      const activeTrack = new TrackCatalog(ctx, { name: "active", priority: 0, schema: "vp8", config: {} });
+      const endedTrack = new TrackCatalog(ctx, { name: "ended", priority: 0, schema: "opus", config: {} });
       endedTrack.end();
       
       // Set tracks - ended track should be skipped
@@ -319,7 +320,7 @@ describe("CatalogDecoder", () => {
       const jsonEncoder = new JsonLineEncoder();
       const testData = [
         { version: "1.0" },
-        { active: true, track: { name: "video", schema: "vp8", config: {} } }
+        { active: true, track: { name: "video", priority: 0, schema: "vp8", config: {} } }
       ];
       
       const encoded = jsonEncoder.encode(testData);
@@ -336,7 +337,7 @@ describe("CatalogDecoder", () => {
 describe("TrackCatalog", () => {
   it("should initialize with descriptor and be active", () => {
     const ctx = background();
-    const descriptor = { name: "video", schema: "vp8", config: {} };
+    const descriptor = { name: "video", priority: 0, schema: "vp8", config: {} };
     const catalog = new TrackCatalog(ctx, descriptor);
     expect(catalog.descriptor).toEqual(descriptor);
     expect(catalog.active).toBe(true);
@@ -344,7 +345,7 @@ describe("TrackCatalog", () => {
 
   it("should mark as inactive when ended", async () => {
     const ctx = background();
-    const descriptor = { name: "audio", schema: "opus", config: {} };
+    const descriptor = { name: "audio", priority: 0, schema: "opus", config: {} };
     const catalog = new TrackCatalog(ctx, descriptor);
     expect(catalog.active).toBe(true);
     
@@ -358,7 +359,7 @@ describe("TrackCatalog", () => {
 
   it("should return descriptor properties", () => {
     const ctx = background();
-    const descriptor = { name: "screen", schema: "h264", config: { profile: "high" } };
+    const descriptor = { name: "screen", priority: 0, schema: "h264", config: { profile: "high" } };
     const catalog = new TrackCatalog(ctx, descriptor);
     expect(catalog.descriptor.name).toBe("screen");
     expect(catalog.descriptor.schema).toBe("h264");
@@ -384,9 +385,9 @@ describe("CatalogEncoder - additional coverage", () => {
     const ctx = background();
     const encoder = new CatalogEncoder({ version: "1.0" });
 
-    const t1 = new TrackCatalog(ctx, { name: "video1", schema: "vp8", config: {} });
-    const t2 = new TrackCatalog(ctx, { name: "video2", schema: "vp9", config: {} });
-    const t3 = new TrackCatalog(ctx, { name: "audio", schema: "opus", config: {} });
+    const t1 = new TrackCatalog(ctx, { name: "video1", priority: 0, schema: "vp8", config: {} });
+    const t2 = new TrackCatalog(ctx, { name: "video2", priority: 0, schema: "vp9", config: {} });
+    const t3 = new TrackCatalog(ctx, { name: "audio", priority: 0, schema: "opus", config: {} });
 
     const err = await encoder.set([t1, t2, t3]);
     expect(err).toBeUndefined();
@@ -396,8 +397,8 @@ describe("CatalogEncoder - additional coverage", () => {
     const ctx = background();
     const encoder = new CatalogEncoder({ version: "2.0" });
 
-    const activeTrack = new TrackCatalog(ctx, { name: "active", schema: "vp8", config: {} });
-    const endedTrack = new TrackCatalog(ctx, { name: "ended", schema: "opus", config: {} });
+    const activeTrack = new TrackCatalog(ctx, { name: "active", priority: 0, schema: "vp8", config: {} });
+    const endedTrack = new TrackCatalog(ctx, { name: "ended", priority: 0, schema: "opus", config: {} });
     endedTrack.end();
 
     const err = await encoder.set([activeTrack, endedTrack]);
@@ -419,9 +420,9 @@ describe("CatalogEncoder - additional coverage", () => {
     const ctx = background();
     const encoder = new CatalogEncoder({ version: "1.0" });
 
-    const t1 = new TrackCatalog(ctx, { name: "t1", schema: "vp8", config: {} });
-    const t2 = new TrackCatalog(ctx, { name: "t2", schema: "opus", config: {} });
-    const t3 = new TrackCatalog(ctx, { name: "t3", schema: "h264", config: {} });
+    const t1 = new TrackCatalog(ctx, { name: "t1", priority: 0, schema: "vp8", config: {} });
+    const t2 = new TrackCatalog(ctx, { name: "t2", priority: 0, schema: "opus", config: {} });
+    const t3 = new TrackCatalog(ctx, { name: "t3", priority: 0, schema: "h264", config: {} });
 
     let err = await encoder.set([t1]);
     expect(err).toBeUndefined();
@@ -443,7 +444,7 @@ describe("CatalogEncoder - additional coverage", () => {
 
     const ctx = background();
     const encoder = new CatalogEncoder({ version: "1.0" });
-    const t1 = new TrackCatalog(ctx, { name: "t1", schema: "vp8", config: {} });
+    const t1 = new TrackCatalog(ctx, { name: "t1", priority: 0, schema: "vp8", config: {} });
     await encoder.set([t1]);
 
     const err = await encoder.encodeTo(ctx.done(), mockTrackWriter);
@@ -463,7 +464,7 @@ describe("CatalogEncoder - additional coverage", () => {
 
     const ctx = background();
     const encoder = new CatalogEncoder({ version: "1.0" });
-    const t1 = new TrackCatalog(ctx, { name: "t1", schema: "vp8", config: {} });
+    const t1 = new TrackCatalog(ctx, { name: "t1", priority: 0, schema: "vp8", config: {} });
     await encoder.set([t1]);
 
     const err = await encoder.encodeTo(ctx.done(), mockTrackWriter);
@@ -471,3 +472,150 @@ describe("CatalogEncoder - additional coverage", () => {
     expect((err as Error).message).toContain("Failed to write existing tracks");
   });
 });
+
+describe("CatalogEncoder - track lifecycle", () => {
+  function collect() {
+    const lines: unknown[] = [];
+    const decoder = new JsonLineDecoder();
+    const output = async (chunk: any) => {
+      lines.push(...decoder.decode(chunk as EncodedJsonChunk));
+      return undefined;
+    };
+    return { lines, output };
+  }
+
+  it("should announce tracks ended after being set", async () => {
+    const encoder = new CatalogEncoder({ version: "1.0" });
+    const { lines, output } = collect();
+    const encoding = encoder.encodeTo({ output, done: new Promise(() => {}) });
+    await vi.waitFor(() => expect(lines).toHaveLength(1));
+
+    const screen = new TrackCatalog(new Promise(() => {}), { name: "screen", priority: 0, schema: "video", config: {} });
+    await encoder.set([screen]);
+    screen.end();
+    await encoder.set([screen]);
+
+    await vi.waitFor(() => expect(lines).toEqual([
+      { version: "1.0" },
+      { active: true, track: { name: "screen", priority: 0, schema: "video", config: {} } },
+      { active: false, name: "screen" },
+    ]));
+
+    encoder.close();
+    expect(await encoding).toBeUndefined();
+  });
+
+  it("should announce paused and resumed tracks", async () => {
+    const encoder = new CatalogEncoder({ version: "1.0" });
+    const camera = new TrackCatalog(new Promise(() => {}), { name: "camera", schema: "video", config: {} } as any);
+    await encoder.set([camera]);
+    camera.setPaused(true);
+
+    // New subscribers get the track as paused
+    const { lines, output } = collect();
+    const encoding = encoder.encodeTo({ output, done: new Promise(() => {}) });
+    await vi.waitFor(() => expect(lines).toHaveLength(2));
+
+    camera.setPaused(false);
+    await encoder.set([camera]);
+
+    await vi.waitFor(() => expect(lines).toEqual([
+      { version: "1.0" },
+      { active: true, track: { name: "camera", schema: "video", config: {} }, paused: true },
+      { active: true, track: { name: "camera", schema: "video", config: {} } },
+    ]));
+
+    encoder.close();
+    await encoding;
+  });
+
+  it("should not list ended tracks to new subscribers", async () => {
+    const encoder = new CatalogEncoder({ version: "1.0" });
+    const screen = new TrackCatalog(new Promise(() => {}), { name: "screen", priority: 0, schema: "video", config: {} });
+    await encoder.set([screen]);
+    screen.end();
+
+    const { lines, output } = collect();
+    const encoding = encoder.encodeTo({ output, done: new Promise(() => {}) });
+    await vi.waitFor(() => expect(lines).toHaveLength(1));
+
+    encoder.close();
+    await encoding;
+    expect(lines).toEqual([{ version: "1.0" }]);
+  });
+});
+
+describe("CatalogEncoder - signing", () => {
+  it("should sign every chunk and mark the catalog as signed", async () => {
+    const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    const encoder = new CatalogEncoder({ version: "1.0", signingKey: keys.privateKey });
+    const chunks: Uint8Array[] = [];
+    const encoding = encoder.encodeTo({
+      output: async (chunk: any) => {
+        chunks.push((chunk as EncodedJsonChunk).data);
+        return undefined;
+      },
+      done: new Promise(() => {}),
+    });
+    await vi.waitFor(() => expect(chunks).toHaveLength(1));
+    await encoder.set([new TrackCatalog(new Promise(() => {}), { name: "screen", schema: "video", config: {} } as any)]);
+    await vi.waitFor(() => expect(chunks).toHaveLength(2));
+
+    const decoder = new JsonLineDecoder();
+    let last = -1;
+    for (const data of chunks) {
+      const [lines, signature, counter] = splitSignature(data) as [Uint8Array, Uint8Array, number];
+      expect(counter).toBeGreaterThan(last);
+      expect(await verifyLines(keys.publicKey, lines, signature, counter)).toBe(true);
+      last = counter;
+    }
+    const [init] = splitSignature(chunks[0]!) as [Uint8Array, Uint8Array, number];
+    expect(decoder.decode(new EncodedJsonChunk({ type: "jsonl", data: init }))).toEqual([{ version: "1.0", signed: true }]);
+
+    encoder.close();
+    await encoding;
+  });
+});
+
+describe("CatalogDecoder - signing", () => {
+  // The chunks a new subscription to the encoder receives first
+  async function subscribe(encoder: CatalogEncoder): Promise<Frame[]> {
+    const frames: Frame[] = [];
+    const [ctx, cancel] = withCancel(background());
+    const encoding = encoder.encodeTo({
+      output: async (chunk: any) => {
+        frames.push({ bytes: (chunk as EncodedJsonChunk).data } as Frame);
+        return undefined;
+      },
+      done: ctx.done(),
+    });
+    await vi.waitFor(() => expect(frames).toHaveLength(2));
+    cancel();
+    await encoding;
+    return frames;
+  }
+
+  // A catalog subscription delivering the frames in one group
+  function track(frames: Frame[]): TrackReader {
+    return Object.assign(createMockTrackReader([frames]), { context: background() });
+  }
+
+  it("should reject chunks replayed from an earlier subscription", async () => {
+    const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    const encoder = new CatalogEncoder({ version: "1.0", signingKey: keys.privateKey });
+    await encoder.set([new TrackCatalog(new Promise(() => {}), { name: "video", schema: "video", config: {} } as any)]);
+    const first = await subscribe(encoder);
+    const second = await subscribe(encoder);
+    const verified = { last: -1 };
+
+    const decoder = new CatalogDecoder({ version: "1.0", reader: track(first), verifyKey: keys.publicKey, verified });
+    expect(await decoder.init()).toEqual({ version: "1.0", signed: true });
+
+    // A relay serving the first subscription again
+    const replayed = new CatalogDecoder({ version: "1.0", reader: track(first), verifyKey: keys.publicKey, verified });
+    expect(await replayed.init()).toBeInstanceOf(SignatureError);
+
+    const resubscribed = new CatalogDecoder({ version: "1.0", reader: track(second), verifyKey: keys.publicKey, verified });
+    expect(await resubscribed.init()).toEqual({ version: "1.0", signed: true });
+  });
+});
@@ -22,17 +22,21 @@ import type {
 } from "@okutanidaichi/moqt";
 import { Channel } from "golikejs/channel";
 import { JsonLineDecoder, EncodedJsonChunk,JsonLineEncoder } from "../internal/json";
-import type { JsonObject } from "../internal/json";
+import type { JsonValue } from "../internal/json";
 import type { EncodedChunk, EncodeDestination } from "./container";
+import { SignatureCounter, SignatureError, signLines, splitSignature, verifyLines } from "./signature";
+import type { VerifiedCounter } from "./signature";
 
 export class TrackCatalog {
     readonly descriptor: TrackDescriptor;
     readonly done: Promise<void>;
     #end!: () => void;
     #active: boolean = true;
+    #paused: boolean;
 
-    constructor(ctx: Promise<void>, descriptor: TrackDescriptor) {
+    constructor(ctx: Promise<void>, descriptor: TrackDescriptor, paused: boolean = false) {
         this.descriptor = descriptor;
+        this.#paused = paused;
         this.done = new Promise<void>((resolve) => {
             this.#end = () => {
                 this.#active = false;
@@ -49,17 +53,38 @@ export class TrackCatalog {
         return this.#active;
     }
 
+    get paused(): boolean {
+        return this.#paused;
+    }
+
+    setPaused(paused: boolean): void {
+        this.#paused = paused;
+    }
+
     end(): void {
         this.#end();
     }
 }
 
+function activeLine(track: TrackCatalog): CatalogLine {
+    if (track.paused) {
+        return {active: true, track: track.descriptor, paused: true};
+    }
+    return {active: true, track: track.descriptor};
+}
+
 export interface CatalogEncoderInit {
     version: string;
+    name?: string;
+    // Signs every chunk, with a signature line at its end; the other tracks are marked as signed
+    signingKey?: CryptoKey;
 }
 
 export class CatalogEncoder {
     readonly version: string;
+    readonly name?: string;
+    #signingKey?: CryptoKey;
+    #counter: SignatureCounter = new SignatureCounter();
 
     #tracks: Map<string, TrackCatalog> = new Map();
 
@@ -69,10 +94,25 @@ export class CatalogEncoder {
 
     constructor(init: CatalogEncoderInit) {
         this.version = init.version;
+        this.name = init.name;
+        this.#signingKey = init.signingKey;
 
         this.#encoder = new JsonLineEncoder();
     }
 
+    // Chunks are numbered as they are encoded, before signing, so they are numbered in the order they are sent
+    async #encode(lines: JsonValue[]): Promise<EncodedJsonChunk> {
+        const chunk = this.#encoder.encode(lines);
+        if (!this.#signingKey) {
+            return chunk;
+        }
+        const counter = this.#counter.next();
+        return new EncodedJsonChunk({
+            type: "jsonl",
+            data: await signLines(this.#signingKey, chunk.data, counter),
+        });
+    }
+
     async set(tracks: TrackCatalog[]): Promise<Error | undefined> {
         if (tracks.length === 0) {
             return undefined;
@@ -86,18 +126,28 @@ export class CatalogEncoder {
                 continue;
             }
             if (!track.active) {
-                // Skip ended tracks
+                // Tracks ended since they were set are announced as ended, others are skipped
+                if (this.#tracks.get(track.descriptor.name) === track) {
+                    this.#tracks.delete(track.descriptor.name);
+                    lines.push({active: false, name: track.descriptor.name});
+                }
                 continue;
             }
             set.add(track.descriptor.name);
             this.#tracks.set(track.descriptor.name, track);
-            lines.push({active: true, track: track.descriptor});
+            lines.push(activeLine(track));
         }
 
-        const chunk = this.#encoder.encode(lines);
+        if (lines.length === 0) {
+            return undefined;
+        }
+
+        // Subscribers joining from here on get these lines with the existing tracks
+        const channels = Array.from(this.#channels);
+        const chunk = await this.#encode(lines);
 
         await Promise.allSettled(
-            Array.from(this.#channels, async chan => {
+            channels.map(async chan => {
                 await chan.send(chunk);
             })
         );
@@ -109,9 +159,14 @@ export class CatalogEncoder {
         let err: Error | undefined;
         let group: GroupWriter | undefined;
 
-        const initChunk = this.#encoder.encode([{
-            version: this.version,
-        }]);
+        const initLine: CatalogInit = { version: this.version };
+        if (this.name !== undefined) {
+            initLine.name = this.name;
+        }
+        if (this.#signingKey) {
+            initLine.signed = true;
+        }
+        const initChunk = await this.#encode([initLine]);
 
         err = await dest.output(initChunk);
         if (err) {
@@ -120,22 +175,21 @@ export class CatalogEncoder {
 
         let chunk: EncodedChunk | undefined;
 
-        const existings: CatalogLine[] = Array.from(this.#tracks.values()).map(track => {
-            return {active: true, track: track.descriptor};
-        });
-        if (existings.length > 0) {
-            chunk = this.#encoder.encode(existings)
-            err = await dest.output(chunk);
-            if (err) {
-                return new Error("Failed to write existing tracks: " + err.message);
-            }
-        }
-
+        // Listens for the lines set after the existing tracks are listed
         const chan = new Channel<EncodedChunk>(2);
         this.#channels.add(chan);
 
         // Integrated encode loop
         try {
+            const existings: CatalogLine[] = Array.from(this.#tracks.values()).filter(track => track.active).map(activeLine);
+            if (existings.length > 0) {
+                chunk = await this.#encode(existings);
+                err = await dest.output(chunk);
+                if (err) {
+                    return new Error("Failed to write existing tracks: " + err.message);
+                }
+            }
+
             const watchCtx = watchPromise(background(), dest.done);
             let ok: boolean;
             while (true) {
@@ -173,17 +227,36 @@ export class CatalogEncoder {
             chan.close();
         }
     }
+
+    // Ends every encodeTo in progress
+    close(): void {
+        for (const chan of this.#channels) {
+            chan.close();
+        }
+        this.#channels.clear();
+    }
 }
 
 export interface CatalogReaderInit {
     version: string;
     reader: TrackReader;
+    // Rejects the catalog unless every chunk is signed with the matching private key
+    verifyKey?: CryptoKey;
+    // The number of the last chunk verified, kept across subscriptions to reject replayed chunks
+    verified?: VerifiedCounter;
+}
+
+// Lines from the same publisher serialize a descriptor the same way
+export function sameDescriptor(a: TrackDescriptor, b: TrackDescriptor): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
 }
 
 export class CatalogDecoder {
     readonly version: string;
 
     #source: TrackReader;
+    #verifyKey?: CryptoKey;
+    #verified: VerifiedCounter;
 
     #tracks: Map<string, TrackCatalog> = new Map();
 
@@ -193,14 +266,40 @@ export class CatalogDecoder {
 
     #cancelFunc: CancelFunc;
 
+    #init: Promise<CatalogInit | Error>;
+    #settleInit!: (init: CatalogInit | Error) => void;
+
+    // Resolves once the catalog track ended
+    #decoding: Promise<Error | undefined>;
+
     constructor(init: CatalogReaderInit) {
         this.version = init.version;
         this.#source = init.reader;
+        this.#verifyKey = init.verifyKey;
+        this.#verified = init.verified ?? { last: -1 };
+
+        this.#init = new Promise((resolve) => {
+            this.#settleInit = resolve;
+        });
 
         const [ctx, cancel] = withCancel(this.#source.context);
         this.#cancelFunc = cancel;
 
-        this.#decodeFrom(ctx, this.#source)
+        this.#decoding = this.#decodeFrom(ctx, this.#source).then((err) => {
+            // No effect when the init line was already decoded
+            this.#settleInit(err ?? new Error("catalog ended before init"));
+            return err;
+        });
+    }
+
+    // Resolves with the init line of the catalog, or an error if it could not be decoded
+    init(): Promise<CatalogInit | Error> {
+        return this.#init;
+    }
+
+    // Tracks currently active in the catalog
+    tracks(): TrackCatalog[] {
+        return Array.from(this.#tracks.values());
     }
 
     async #decodeFrom(ctx: Context, track: TrackReader): Promise<Error | undefined> {
@@ -237,9 +336,28 @@ export class CatalogDecoder {
                         break;
                     }
 
+                    const split = splitSignature(frame.bytes);
+                    if (split instanceof Error) {
+                        return split;
+                    }
+                    const [data, signature, counter] = split;
+                    if (this.#verifyKey) {
+                        if (!signature) {
+                            return new SignatureError("catalog: missing signature");
+                        }
+                        // Chunks may be dropped, but not replayed or reordered
+                        if (counter <= this.#verified.last) {
+                            return new SignatureError(`catalog: chunk ${counter} replayed`);
+                        }
+                        if (!(await verifyLines(this.#verifyKey, data, signature, counter))) {
+                            return new SignatureError("catalog: invalid signature");
+                        }
+                        this.#verified.last = counter;
+                    }
+
                     const chunk = new EncodedJsonChunk({
                         type: "jsonl",
-                        data: frame.bytes,
+                        data: data,
                     });
 
                     let lines: any[];
@@ -262,6 +380,7 @@ export class CatalogDecoder {
                             break;
                         }
 
+                        this.#settleInit(init);
                         isInit = false;
                     }
 
@@ -274,11 +393,18 @@ export class CatalogDecoder {
 
                         if (track.active) {
                             const existing = this.#tracks.get(track.track.name);
+                            const paused = track.paused ?? false;
+                            if (existing && existing.paused !== paused && sameDescriptor(existing.descriptor, track.track)) {
+                                // Paused or resumed in place
+                                existing.setPaused(paused);
+                                catalogs.push(existing);
+                                continue;
+                            }
                             if (existing) {
                                 // End the old track since we're replacing it
                                 existing.end();
                             }
-                            const trackCatalog = new TrackCatalog(ctx.done(), track.track);
+                            const trackCatalog = new TrackCatalog(ctx.done(), track.track, paused);
                             this.#tracks.set(track.track.name, trackCatalog);
                             catalogs.push(trackCatalog);
                         } else {
@@ -308,10 +434,12 @@ export class CatalogDecoder {
         }
     }
 
-    async decodeTo(ctx: Promise<void>, dest: (tracks: TrackCatalog[]) => void): Promise<void> {
+    // Passes the tracks added or replaced in the catalog to dest until ctx resolves or the catalog track ends.
+    // Resolves with the error that ended the catalog track, if any.
+    async decodeTo(ctx: Promise<void>, dest: (tracks: TrackCatalog[]) => void): Promise<Error | undefined> {
         this.#dests.add(dest);
         try {
-            await ctx;
+            return await Promise.race([ctx.then(() => undefined), this.#decoding]);
         } finally {
             this.#dests.delete(dest);
         }
@@ -92,6 +92,15 @@ export interface EncodeDestination {
     done: Promise<void>;
 }
 
+// Told about the playback of a decode node, e.g. a QoEMonitor
+export interface DecodeMonitor {
+    // Returns false while the chunk cannot be decoded before a keyframe
+    chunkReceived(keyframe: boolean): boolean;
+    frameDecoded(): void;
+    decodeError(err: Error): void;
+    underrun(durationMs: number): void;
+}
+
 function decodeContainer(frame: Frame): EncodedChunk {
 
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import { EventStream } from "./event_stream";
+
+describe("EventStream", () => {
+    test("delivers events to every subscriber independently", async () => {
+        const stream = new EventStream<number>();
+        const a = stream.subscribe();
+        const b = stream.subscribe();
+
+        stream.emit(1);
+        stream.emit(2);
+
+        expect(await a.next()).toEqual({ value: 1, done: false });
+        expect(await a.next()).toEqual({ value: 2, done: false });
+        expect(await b.next()).toEqual({ value: 1, done: false });
+    });
+
+    test("only delivers events emitted after subscribing", async () => {
+        const stream = new EventStream<number>();
+        stream.emit(1);
+        const sub = stream.subscribe();
+        stream.emit(2);
+
+        expect(await sub.next()).toEqual({ value: 2, done: false });
+    });
+
+    test("delivers the backlog before live events", async () => {
+        const stream = new EventStream<number>();
+        const sub = stream.subscribe(undefined, [1, 2]);
+        stream.emit(3);
+
+        expect(await sub.next()).toEqual({ value: 1, done: false });
+        expect(await sub.next()).toEqual({ value: 2, done: false });
+        expect(await sub.next()).toEqual({ value: 3, done: false });
+    });
+
+    test("resolves a pending next when an event arrives", async () => {
+        const stream = new EventStream<string>();
+        const sub = stream.subscribe();
+
+        const next = sub.next();
+        stream.emit("hello");
+
+        expect(await next).toEqual({ value: "hello", done: false });
+    });
+
+    test("unsubscribes when the consumer breaks out of the loop", async () => {
+        const stream = new EventStream<number>();
+        const sub = stream.subscribe();
+        stream.emit(1);
+
+        for await (const _ of sub) {
+            break;
+        }
+
+        expect(stream.subscribers).toBe(0);
+        expect(await sub.next()).toEqual({ value: undefined, done: true });
+    });
+
+    test("ends the iteration when done settles", async () => {
+        const stream = new EventStream<number>();
+        let cancel!: () => void;
+        const done = new Promise<void>((resolve) => { cancel = resolve; });
+        const sub = stream.subscribe(done);
+
+        const next = sub.next();
+        cancel();
+
+        expect(await next).toEqual({ value: undefined, done: true });
+        expect(stream.subscribers).toBe(0);
+    });
+
+    test("close ends every subscriber after buffered events", async () => {
+        const stream = new EventStream<number>();
+        const sub = stream.subscribe();
+        stream.emit(1);
+        stream.close();
+
+        expect(await sub.next()).toEqual({ value: 1, done: false });
+        expect(await sub.next()).toEqual({ value: undefined, done: true });
+    });
+});
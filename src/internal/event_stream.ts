@@ -0,0 +1,103 @@
+// Fans events out to any number of independent async iterators.
+// Each subscriber buffers the events it has not consumed yet.
+export class EventStream<T> {
+    #subscribers: Set<EventSubscription<T>> = new Set();
+
+    emit(event: T): void {
+        for (const sub of this.#subscribers) {
+            sub.push(event);
+        }
+    }
+
+    // Iterates over the backlog, then over the events emitted from now on.
+    // The iteration stops when the consumer breaks out of it or the done signal settles.
+    subscribe(done?: Promise<void>, backlog: T[] = []): AsyncIterableIterator<T> {
+        const sub = new EventSubscription<T>(() => {
+            this.#subscribers.delete(sub);
+        }, backlog);
+        this.#subscribers.add(sub);
+
+        done?.then(() => {
+            sub.close();
+        });
+
+        return sub;
+    }
+
+    // Ends every iteration
+    close(): void {
+        for (const sub of this.#subscribers) {
+            sub.close();
+        }
+        this.#subscribers.clear();
+    }
+
+    get subscribers(): number {
+        return this.#subscribers.size;
+    }
+}
+
+class EventSubscription<T> implements AsyncIterableIterator<T> {
+    #queue: T[] = [];
+    #waiting?: (result: IteratorResult<T>) => void;
+    #closed: boolean = false;
+    #onclose: () => void;
+
+    constructor(onclose: () => void, backlog: T[]) {
+        this.#onclose = onclose;
+        this.#queue = [...backlog];
+    }
+
+    push(event: T): void {
+        if (this.#closed) {
+            return;
+        }
+
+        if (this.#waiting) {
+            const resolve = this.#waiting;
+            this.#waiting = undefined;
+            resolve({ value: event, done: false });
+            return;
+        }
+
+        this.#queue.push(event);
+    }
+
+    close(): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+        this.#onclose();
+
+        if (this.#waiting) {
+            const resolve = this.#waiting;
+            this.#waiting = undefined;
+            resolve({ value: undefined, done: true });
+        }
+    }
+
+    next(): Promise<IteratorResult<T>> {
+        if (this.#queue.length > 0) {
+            return Promise.resolve({ value: this.#queue.shift()!, done: false });
+        }
+
+        if (this.#closed) {
+            return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve) => {
+            this.#waiting = resolve;
+        });
+    }
+
+    async return(): Promise<IteratorResult<T>> {
+        this.#queue = [];
+        this.close();
+        return { value: undefined, done: true };
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+}
@@ -5,4 +5,11 @@ export * from "./audio_config";
 export * from "./error";
 export * from "./container";
 export * from "./video_node";
-export * from "./audio_node";
\ No newline at end of file
+export * from "./audio_node";
+export * from "./timer";
+export * from "./event_stream";
+export * from "./json_track";
+export * from "./signature";
+export * from "./rate_limit";
+export * from "./scheduler";
+export * from "./reader";
@@ -0,0 +1,74 @@
+import { describe, test, expect, vi } from 'vitest';
+import { JsonLineTrackEncoder, JsonLineTrackDecoder } from "./json_track";
+import type { EncodedJsonChunk } from "./json";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+}));
+
+function decodeChunk(chunk: EncodedJsonChunk): unknown[] {
+    return new TextDecoder().decode(chunk.data).split("\n").map((line) => JSON.parse(line));
+}
+
+describe("JsonLineTrackEncoder", () => {
+    test("replays retained lines before live ones", async () => {
+        const encoder = new JsonLineTrackEncoder();
+        encoder.retain([{ state: 1 }]);
+
+        const written: unknown[][] = [];
+        const encoding = encoder.encodeTo({
+            output: async (chunk) => {
+                written.push(decodeChunk(chunk));
+                return undefined;
+            },
+            done: new Promise(() => {}),
+        });
+
+        encoder.send([{ live: 1 }, { live: 2 }]);
+        encoder.close();
+
+        expect(await encoding).toBeUndefined();
+        expect(written).toEqual([[{ state: 1 }], [{ live: 1 }, { live: 2 }]]);
+    });
+
+    test("stops on output errors", async () => {
+        const encoder = new JsonLineTrackEncoder();
+        const err = new Error("closed");
+
+        const encoding = encoder.encodeTo({
+            output: async () => err,
+            done: new Promise(() => {}),
+        });
+        encoder.send([1]);
+
+        expect(await encoding).toBe(err);
+    });
+});
+
+describe("JsonLineTrackDecoder", () => {
+    test("hands over every line of every frame", async () => {
+        const handle = vi.fn();
+        const decoder = new JsonLineTrackDecoder(handle);
+        const frame = (text: string) => [{ bytes: new TextEncoder().encode(text) }, undefined];
+        const group = {
+            readFrame: vi.fn()
+                .mockResolvedValueOnce(frame('{"a":1}\n{"b":2}'))
+                .mockResolvedValueOnce(frame("not json"))
+                .mockResolvedValueOnce(frame("3"))
+                .mockResolvedValue([undefined, undefined]),
+            cancel: vi.fn(),
+        };
+        const ended = new Error("track ended");
+        const reader = {
+            acceptGroup: vi.fn()
+                .mockResolvedValueOnce([group, undefined])
+                .mockResolvedValue([undefined, ended]),
+        };
+
+        const err = await decoder.decodeFrom(new Promise(() => {}), reader as any);
+
+        expect(err).toBe(ended);
+        expect(handle.mock.calls).toEqual([[{ a: 1 }], [{ b: 2 }], [3]]);
+        expect(group.cancel).toHaveBeenCalled();
+    });
+});
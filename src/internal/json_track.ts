@@ -0,0 +1,107 @@
+import type { ReadableTrack, ReadableFrame } from "./reader";
+import { InternalSubscribeErrorCode } from "@okutanidaichi/moqt";
+import { JsonLineEncoder, JsonLineDecoder, EncodedJsonChunk } from "./json";
+import type { JsonValue } from "./json";
+import { EventStream } from "./event_stream";
+
+export interface JsonLineDestination {
+    output: (chunk: EncodedJsonChunk) => Promise<Error | undefined>;
+    done: Promise<void>;
+}
+
+// Encodes JSON lines for any number of subscribers of a track.
+// Retained lines are replayed to every new subscriber before the live ones.
+export class JsonLineTrackEncoder<T extends JsonValue = JsonValue> {
+    #encoder: JsonLineEncoder = new JsonLineEncoder();
+    #lines: EventStream<T[]> = new EventStream();
+    #retained: T[] = [];
+
+    send(lines: T[]): void {
+        if (lines.length === 0) {
+            return;
+        }
+        this.#lines.emit(lines);
+    }
+
+    retain(lines: T[]): void {
+        this.#retained = lines;
+    }
+
+    async encodeTo(dest: JsonLineDestination): Promise<Error | undefined> {
+        // Subscribe before replaying so that no line sent in between is lost
+        const lines = this.#lines.subscribe(dest.done);
+
+        if (this.#retained.length > 0) {
+            const err = await dest.output(this.#encoder.encode(this.#retained));
+            if (err) {
+                await lines.return?.();
+                return err;
+            }
+        }
+
+        for await (const batch of lines) {
+            const err = await dest.output(this.#encoder.encode(batch));
+            if (err) {
+                await lines.return?.();
+                return err;
+            }
+        }
+
+        return undefined;
+    }
+
+    close(): void {
+        this.#lines.close();
+    }
+}
+
+// Decodes JSON lines from a track and hands them over one by one
+export class JsonLineTrackDecoder {
+    #decoder: JsonLineDecoder = new JsonLineDecoder();
+    #handle: (line: JsonValue) => void | Promise<void>;
+
+    constructor(handle: (line: JsonValue) => void | Promise<void>) {
+        this.#handle = handle;
+    }
+
+    async decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        while (true) {
+            const [group, err] = await reader.acceptGroup(ctx);
+            if (err) {
+                return err;
+            }
+
+            try {
+                while (true) {
+                    let frame: ReadableFrame | undefined;
+                    let ferr: Error | undefined;
+                    [frame, ferr] = await group!.readFrame();
+                    if (ferr) {
+                        return ferr;
+                    }
+                    if (!frame) {
+                        break;
+                    }
+
+                    let lines: JsonValue[];
+                    try {
+                        lines = this.#decoder.decode(new EncodedJsonChunk({
+                            type: "jsonl",
+                            data: frame.bytes,
+                        }));
+                    } catch (e) {
+                        // Skip malformed frames
+                        console.warn(`[JsonLineTrackDecoder] failed to decode frame: ${e}`);
+                        continue;
+                    }
+
+                    for (const line of lines) {
+                        await this.#handle(line);
+                    }
+                }
+            } finally {
+                await group!.cancel(InternalSubscribeErrorCode, "group consumed");
+            }
+        }
+    }
+}
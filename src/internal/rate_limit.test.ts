@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'vitest';
+import { RateLimiter } from "./rate_limit";
+
+describe("RateLimiter", () => {
+    test("allows a burst, then the rate", () => {
+        let now = 0;
+        const limiter = new RateLimiter(2, 3, () => now);
+
+        expect([limiter.allow(), limiter.allow(), limiter.allow(), limiter.allow()]).toEqual([true, true, true, false]);
+
+        now = 500;
+        expect(limiter.allow()).toBe(true);
+        expect(limiter.allow()).toBe(false);
+    });
+
+    test("does not accumulate more than the burst", () => {
+        let now = 0;
+        const limiter = new RateLimiter(1, 2, () => now);
+
+        now = 60_000;
+        expect([limiter.allow(), limiter.allow(), limiter.allow()]).toEqual([true, true, false]);
+    });
+});
@@ -0,0 +1,29 @@
+// Token bucket allowing `rate` events per second with bursts of up to `burst` events
+export class RateLimiter {
+    readonly rate: number;
+    readonly burst: number;
+    #tokens: number;
+    #last: number;
+    #now: () => number;
+
+    constructor(rate: number, burst: number = rate, now: () => number = Date.now) {
+        this.rate = rate;
+        this.burst = burst;
+        this.#tokens = burst;
+        this.#now = now;
+        this.#last = now();
+    }
+
+    // Takes a token if one is available
+    allow(): boolean {
+        const now = this.#now();
+        this.#tokens = Math.min(this.burst, this.#tokens + (now - this.#last) * this.rate / 1000);
+        this.#last = now;
+
+        if (this.#tokens < 1) {
+            return false;
+        }
+        this.#tokens -= 1;
+        return true;
+    }
+}
@@ -0,0 +1,24 @@
+import type { GroupSequence, GroupErrorCode, SubscribeErrorCode } from "@okutanidaichi/moqt";
+
+export interface ReadableFrame {
+    bytes: Uint8Array;
+}
+
+// The part of a group reader that decoders use. Implemented by the moqt group reader,
+// and by the readers wrapping it to verify or decrypt its frames.
+export interface ReadableGroup {
+    readonly sequence: GroupSequence;
+    // Resolves with no frame and no error, or with EOF, at the end of the group
+    readFrame(): Promise<[ReadableFrame | undefined, Error | undefined]>;
+    cancel(code: GroupErrorCode, message: string): Promise<void>;
+}
+
+// The part of a track reader that decoders use
+export interface ReadableTrack {
+    acceptGroup(ctx: Promise<void>): Promise<[ReadableGroup, undefined] | [undefined, Error]>;
+}
+
+// A track subscribed to, closed by its subscriber once no longer needed
+export interface TrackSubscription extends ReadableTrack {
+    closeWithError(code: SubscribeErrorCode, message: string): Promise<void>;
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest';
+import { FrameScheduler, FrameDroppedError } from "./scheduler";
+
+// A write that completes when released
+function blocked(): [() => Promise<Error | undefined>, () => void] {
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => { release = resolve; });
+    return [async () => { await done; return undefined; }, release];
+}
+
+describe("FrameScheduler", () => {
+    test("runs writes right away below the concurrency", async () => {
+        const scheduler = new FrameScheduler(2);
+        const order: string[] = [];
+
+        await Promise.all([
+            scheduler.schedule(1n, async () => { order.push("group 1"); return undefined; }),
+            scheduler.schedule(2n, async () => { order.push("group 2"); return undefined; }),
+        ]);
+
+        expect(order).toEqual(["group 1", "group 2"]);
+        expect(scheduler.pending).toBe(0);
+    });
+
+    test("runs waiting writes oldest group first, then in order", async () => {
+        const scheduler = new FrameScheduler(1, 8);
+        const [write, release] = blocked();
+        const first = scheduler.schedule(0n, write);
+
+        const order: string[] = [];
+        const writes = [
+            scheduler.schedule(2n, async () => { order.push("group 2"); return undefined; }),
+            scheduler.schedule(1n, async () => { order.push("group 1 frame 1"); return undefined; }),
+            scheduler.schedule(1n, async () => { order.push("group 1 frame 2"); return undefined; }),
+        ];
+        expect(scheduler.pending).toBe(3);
+
+        release();
+        await Promise.all([first, ...writes]);
+
+        expect(order).toEqual(["group 1 frame 1", "group 1 frame 2", "group 2"]);
+    });
+
+    test("drops the oldest waiting group as a whole once over capacity", async () => {
+        const scheduler = new FrameScheduler(1, 2);
+        const [write, release] = blocked();
+        const first = scheduler.schedule(0n, write);
+
+        const order: string[] = [];
+        const writes = [
+            scheduler.schedule(1n, async () => { order.push("group 1 frame 1"); return undefined; }),
+            scheduler.schedule(1n, async () => { order.push("group 1 frame 2"); return undefined; }),
+            scheduler.schedule(2n, async () => { order.push("group 2"); return undefined; }),
+        ];
+        expect(scheduler.pending).toBe(1);
+        expect(scheduler.dropped).toBe(2);
+
+        // Later frames of the dropped group are dropped too
+        const late = await scheduler.schedule(1n, async () => { order.push("group 1 frame 3"); return undefined; });
+        expect(late).toBeInstanceOf(FrameDroppedError);
+
+        release();
+        const [frame1, frame2, group2] = await Promise.all(writes);
+        await first;
+
+        expect(frame1).toBeInstanceOf(FrameDroppedError);
+        expect(frame2).toBeInstanceOf(FrameDroppedError);
+        expect(group2).toBeUndefined();
+        expect(order).toEqual(["group 2"]);
+        expect(scheduler.dropped).toBe(3);
+    });
+
+    test("returns the error of a write", async () => {
+        const scheduler = new FrameScheduler();
+
+        const err = await scheduler.schedule(0n, async () => { throw new Error("stream reset"); });
+
+        expect(err).toBeInstanceOf(Error);
+        expect(err?.message).toBe("stream reset");
+    });
+});
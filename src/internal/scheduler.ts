@@ -0,0 +1,114 @@
+import type { GroupSequence } from "@okutanidaichi/moqt";
+
+type PendingWrite = {
+    group: GroupSequence;
+    seq: number;
+    write: () => Promise<Error | undefined>;
+    resolve: (err: Error | undefined) => void;
+};
+
+// Returned for the writes of a group dropped under backpressure
+export class FrameDroppedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "FrameDroppedError";
+    }
+}
+
+// Orders the frame writes of one subscription, so that a slow subscriber only holds back itself.
+// Up to `concurrency` writes run at once; under backpressure the others wait and run
+// oldest group first, in order within a group. Once more than `capacity` writes wait, the
+// oldest waiting group is dropped as a whole: a group missing a frame cannot be decoded past it,
+// so the subscriber skips to the next group, starting at a keyframe.
+export class FrameScheduler {
+    readonly concurrency: number;
+    readonly capacity: number;
+    #running: number = 0;
+    #queue: PendingWrite[] = [];
+    #seq: number = 0;
+    #dropped: number = 0;
+    // Groups dropped while their frames were still being written
+    #droppedGroups: Set<GroupSequence> = new Set();
+
+    constructor(concurrency: number = 1, capacity: number = 2) {
+        this.concurrency = concurrency;
+        this.capacity = capacity;
+    }
+
+    // Resolves once the write ran, with a FrameDroppedError when its group was dropped
+    schedule(group: GroupSequence, write: () => Promise<Error | undefined>): Promise<Error | undefined> {
+        if (this.#droppedGroups.has(group)) {
+            this.#dropped++;
+            return Promise.resolve(new FrameDroppedError(`group ${group} was dropped`));
+        }
+        if (this.#running < this.concurrency && this.#queue.length === 0) {
+            return this.#run(write);
+        }
+
+        return new Promise((resolve) => {
+            this.#queue.push({ group, seq: this.#seq++, write, resolve });
+            if (this.#queue.length > this.capacity) {
+                this.#drop();
+            }
+        });
+    }
+
+    // Writes waiting for their turn
+    get pending(): number {
+        return this.#queue.length;
+    }
+
+    // Writes dropped so far
+    get dropped(): number {
+        return this.#dropped;
+    }
+
+    // Forgets a group once it ended, e.g. after it was cancelled
+    release(group: GroupSequence): void {
+        this.#droppedGroups.delete(group);
+    }
+
+    async #run(write: () => Promise<Error | undefined>): Promise<Error | undefined> {
+        this.#running++;
+        try {
+            return await write();
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        } finally {
+            this.#running--;
+            this.#next();
+        }
+    }
+
+    #next(): void {
+        while (this.#running < this.concurrency && this.#queue.length > 0) {
+            let first = 0;
+            for (let i = 1; i < this.#queue.length; i++) {
+                const a = this.#queue[i]!;
+                const b = this.#queue[first]!;
+                if (a.group < b.group || (a.group === b.group && a.seq < b.seq)) {
+                    first = i;
+                }
+            }
+            const [pending] = this.#queue.splice(first, 1);
+            this.#run(pending!.write).then(pending!.resolve);
+        }
+    }
+
+    #drop(): void {
+        let oldest = this.#queue[0]!.group;
+        for (const pending of this.#queue) {
+            if (pending.group < oldest) {
+                oldest = pending.group;
+            }
+        }
+
+        this.#droppedGroups.add(oldest);
+        const err = new FrameDroppedError(`group ${oldest} was dropped under backpressure`);
+        for (const pending of this.#queue.filter((pending) => pending.group === oldest)) {
+            this.#dropped++;
+            pending.resolve(err);
+        }
+        this.#queue = this.#queue.filter((pending) => pending.group !== oldest);
+    }
+}
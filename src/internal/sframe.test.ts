@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { encodeHeader, decodeHeader, deriveKey, nonce, AES_128_GCM_SHA256_128 } from "./sframe";
+
+describe("sframe header", () => {
+    test("packs small values into the config byte", () => {
+        const header = encodeHeader({ keyID: 3n, counter: 5n });
+
+        expect(header).toEqual(new Uint8Array([0x35]));
+        expect(decodeHeader(header)).toEqual([{ keyID: 3n, counter: 5n }, 1]);
+    });
+
+    test("appends larger values in big-endian bytes", () => {
+        const header = encodeHeader({ keyID: 0x1234n, counter: 0x10000n });
+
+        expect(header).toEqual(new Uint8Array([0x9a, 0x12, 0x34, 0x01, 0x00, 0x00]));
+        expect(decodeHeader(header)).toEqual([{ keyID: 0x1234n, counter: 0x10000n }, 6]);
+    });
+
+    test("reads the header in front of the ciphertext", () => {
+        const header = encodeHeader({ keyID: 9n, counter: 2n ** 40n });
+        const frame = new Uint8Array([...header, 0xff, 0xff]);
+
+        expect(decodeHeader(frame)).toEqual([{ keyID: 9n, counter: 2n ** 40n }, header.length]);
+    });
+
+    test("returns an error for truncated headers", () => {
+        expect(decodeHeader(new Uint8Array())).toBeInstanceOf(Error);
+        expect(decodeHeader(new Uint8Array([0x9a, 0x12]))).toBeInstanceOf(Error);
+    });
+
+    test("puts the counter at the end of the nonce, XOR the salt", () => {
+        const salt = new Uint8Array([0xff, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0x01, 0xff]);
+
+        expect(nonce(salt, 0x0102n)).toEqual(new Uint8Array([0xff, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xfd]));
+    });
+});
+
+describe("sframe key derivation", () => {
+    const baseKey = () => crypto.subtle.importKey("raw", new Uint8Array(16).fill(1), "HKDF", false, ["deriveBits"]);
+
+    test("derives the same key and salt for a key ID", async () => {
+        const base = await baseKey();
+        const a = await deriveKey(base, 1n, AES_128_GCM_SHA256_128);
+        const b = await deriveKey(base, 1n, AES_128_GCM_SHA256_128);
+        const iv = nonce(a.salt, 0n);
+
+        const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, a.key, new Uint8Array([1, 2, 3]));
+        const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce(b.salt, 0n) }, b.key, ciphertext);
+
+        expect(a.salt).toHaveLength(12);
+        expect(new Uint8Array(plaintext)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("derives another key and salt for another key ID", async () => {
+        const base = await baseKey();
+        const a = await deriveKey(base, 1n, AES_128_GCM_SHA256_128);
+        const b = await deriveKey(base, 2n, AES_128_GCM_SHA256_128);
+
+        expect(a.salt).not.toEqual(b.salt);
+        const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce(a.salt, 0n) }, a.key, new Uint8Array([1]));
+        await expect(crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce(a.salt, 0n) }, b.key, ciphertext)).rejects.toBeDefined();
+    });
+});
@@ -0,0 +1,137 @@
+// SFrame header (RFC 9605): a config byte followed by the key ID and the counter.
+//
+//  0 1 2 3 4 5 6 7
+// +-+-+-+-+-+-+-+-+---------------------+---------------------+
+// |X|  K  |Y|  C  |   KID (if X=1)      |   CTR (if Y=1)      |
+// +-+-+-+-+-+-+-+-+---------------------+---------------------+
+//
+// Values below 8 fit in K or C; larger values follow in K+1 or C+1 big-endian bytes.
+
+export interface SFrameHeader {
+    keyID: bigint;
+    counter: bigint;
+}
+
+function byteLength(value: bigint): number {
+    let n = 1;
+    while (value >> BigInt(8 * n) > 0n) {
+        n++;
+    }
+    return n;
+}
+
+function writeUint(dest: Uint8Array, offset: number, value: bigint, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+        dest[offset + i] = Number(value & 0xffn);
+        value >>= 8n;
+    }
+}
+
+function readUint(src: Uint8Array, offset: number, length: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < length; i++) {
+        value = (value << 8n) | BigInt(src[offset + i]!);
+    }
+    return value;
+}
+
+export function encodeHeader(header: SFrameHeader): Uint8Array {
+    const kidLength = header.keyID < 8n ? 0 : byteLength(header.keyID);
+    const ctrLength = header.counter < 8n ? 0 : byteLength(header.counter);
+    if (kidLength > 8 || ctrLength > 8) {
+        throw new RangeError("sframe: key ID or counter over 64 bits");
+    }
+
+    const bytes = new Uint8Array(1 + kidLength + ctrLength);
+    let config = 0;
+    if (kidLength > 0) {
+        config |= 0x80 | ((kidLength - 1) << 4);
+        writeUint(bytes, 1, header.keyID, kidLength);
+    } else {
+        config |= Number(header.keyID) << 4;
+    }
+    if (ctrLength > 0) {
+        config |= 0x08 | (ctrLength - 1);
+        writeUint(bytes, 1 + kidLength, header.counter, ctrLength);
+    } else {
+        config |= Number(header.counter);
+    }
+    bytes[0] = config;
+
+    return bytes;
+}
+
+// Returns the header and its length in bytes
+export function decodeHeader(bytes: Uint8Array): [SFrameHeader, number] | Error {
+    if (bytes.length < 1) {
+        return new Error("sframe: empty frame");
+    }
+
+    const config = bytes[0]!;
+    const k = (config >> 4) & 0x07;
+    const c = config & 0x07;
+    const kidLength = config & 0x80 ? k + 1 : 0;
+    const ctrLength = config & 0x08 ? c + 1 : 0;
+    const length = 1 + kidLength + ctrLength;
+    if (bytes.length < length) {
+        return new Error("sframe: truncated header");
+    }
+
+    return [{
+        keyID: kidLength > 0 ? readUint(bytes, 1, kidLength) : BigInt(k),
+        counter: ctrLength > 0 ? readUint(bytes, 1 + kidLength, ctrLength) : BigInt(c),
+    }, length];
+}
+
+// Cipher suites of RFC 9605 with AES-GCM, told apart by the length of the key
+export type CipherSuite = 0x0004 | 0x0005;
+
+export const AES_128_GCM_SHA256_128: CipherSuite = 0x0004;
+export const AES_256_GCM_SHA512_128: CipherSuite = 0x0005;
+
+const NONCE_LENGTH = 12;
+
+// The AES-GCM key and the salt of the nonces of one key ID
+export interface SFrameKey {
+    key: CryptoKey;
+    salt: Uint8Array;
+}
+
+function label(prefix: string, keyID: bigint, suite: CipherSuite): Uint8Array {
+    const text = new TextEncoder().encode(prefix);
+    const bytes = new Uint8Array(text.length + 10);
+    bytes.set(text);
+    writeUint(bytes, text.length, keyID, 8);
+    writeUint(bytes, text.length + 8, BigInt(suite), 2);
+    return bytes;
+}
+
+// Derives the key and the salt of a key ID from the base key (RFC 9605, Section 4.4.2).
+// The base key is an HKDF key; HKDF-Extract runs with an empty salt.
+export async function deriveKey(baseKey: CryptoKey, keyID: bigint, suite: CipherSuite): Promise<SFrameKey> {
+    const hash = suite === AES_128_GCM_SHA256_128 ? "SHA-256" : "SHA-512";
+    const keyLength = suite === AES_128_GCM_SHA256_128 ? 16 : 32;
+    const expand = async (info: Uint8Array, length: number): Promise<ArrayBuffer> => {
+        return await crypto.subtle.deriveBits(
+            { name: "HKDF", hash, salt: new Uint8Array() as BufferSource, info: info as BufferSource },
+            baseKey,
+            length * 8,
+        );
+    };
+
+    const raw = await expand(label("SFrame 1.0 Secret key ", keyID, suite), keyLength);
+    const salt = await expand(label("SFrame 1.0 Secret salt ", keyID, suite), NONCE_LENGTH);
+    const key = await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+
+    return { key, salt: new Uint8Array(salt) };
+}
+
+// The AES-GCM nonce of a frame: the salt XOR the counter, big-endian over the 12 bytes
+export function nonce(salt: Uint8Array, counter: bigint): Uint8Array {
+    const iv = new Uint8Array(NONCE_LENGTH);
+    writeUint(iv, 4, counter, 8);
+    for (let i = 0; i < NONCE_LENGTH; i++) {
+        iv[i]! ^= salt[i]!;
+    }
+    return iv;
+}
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { sign, verify, encodeBase64, decodeBase64, signLines, verifyLines, splitSignature, SignatureCounter, SignatureError } from "./signature";
+
+describe("signature", () => {
+    test("signs and verifies with ECDSA keys", async () => {
+        const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const data = new TextEncoder().encode("hello");
+
+        const signature = await sign(keys.privateKey, data);
+
+        expect(await verify(keys.publicKey, signature, data)).toBe(true);
+        expect(await verify(keys.publicKey, signature, new TextEncoder().encode("hellO"))).toBe(false);
+    });
+
+    test("treats malformed signatures as invalid", async () => {
+        const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+
+        expect(await verify(keys.publicKey, new Uint8Array([1, 2, 3]), new Uint8Array([4]))).toBe(false);
+    });
+
+    test("round-trips base64", () => {
+        const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+        const decoded = decodeBase64(encodeBase64(bytes));
+
+        expect(decoded).toEqual(bytes);
+    });
+
+    test("returns an error for invalid base64", () => {
+        expect(decodeBase64("!!!")).toBeInstanceOf(Error);
+    });
+
+    test("signs JSON lines with a trailing signature line", async () => {
+        const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const data = new Uint8Array([...new TextEncoder().encode('{"version":"v1"}')]);
+
+        const split = splitSignature(await signLines(keys.privateKey, data, 7));
+
+        expect(split).not.toBeInstanceOf(Error);
+        const [lines, signature, counter] = split as [Uint8Array, Uint8Array, number];
+        expect(Array.from(lines)).toEqual(Array.from(data));
+        expect(counter).toBe(7);
+        expect(await verifyLines(keys.publicKey, lines, signature, 7)).toBe(true);
+        // The number is signed along with the lines
+        expect(await verifyLines(keys.publicKey, lines, signature, 8)).toBe(false);
+    });
+
+    test("leaves unsigned lines as they are", () => {
+        const data = new TextEncoder().encode('{"a":1}\n{"b":2}');
+
+        const [lines, signature] = splitSignature(data) as [Uint8Array, Uint8Array | undefined];
+
+        expect(lines).toBe(data);
+        expect(signature).toBeUndefined();
+    });
+
+    test("returns a SignatureError for malformed signature lines", () => {
+        const data = new TextEncoder().encode('{"a":1}\n{"signature":"!!!","counter":1}');
+        const unnumbered = new TextEncoder().encode('{"a":1}\n{"signature":"AAAA"}');
+
+        expect(splitSignature(data)).toBeInstanceOf(SignatureError);
+        expect(splitSignature(unnumbered)).toBeInstanceOf(SignatureError);
+    });
+
+    test("numbers chunks in increasing order from the clock", () => {
+        const counter = new SignatureCounter();
+
+        const first = counter.next();
+        const second = counter.next();
+
+        expect(first).toBeGreaterThanOrEqual(Date.now() - 1000);
+        expect(second).toBeGreaterThan(first);
+    });
+});
@@ -0,0 +1,124 @@
+// Signing helpers on top of WebCrypto.
+// The algorithm follows the key: ECDSA keys sign with SHA-256, Ed25519 keys sign as is.
+
+function algorithm(key: CryptoKey): AlgorithmIdentifier | EcdsaParams {
+    if (key.algorithm.name === "ECDSA") {
+        return { name: "ECDSA", hash: "SHA-256" };
+    }
+    return { name: key.algorithm.name };
+}
+
+export async function sign(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+    const signature = await crypto.subtle.sign(algorithm(key), key, data as BufferSource);
+    return new Uint8Array(signature);
+}
+
+export async function verify(key: CryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+    try {
+        return await crypto.subtle.verify(algorithm(key), key, signature as BufferSource, data as BufferSource);
+    } catch {
+        // Malformed signatures are treated as invalid
+        return false;
+    }
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+export function decodeBase64(str: string): Uint8Array | Error {
+    try {
+        const binary = atob(str);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    } catch (e) {
+        return e instanceof Error ? e : new Error(String(e));
+    }
+}
+
+// Returned when signed data does not verify against the key of its sender
+export class SignatureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SignatureError";
+    }
+}
+
+const NEWLINE = 0x0a;
+
+// Numbers what a publisher signs, so that subscribers can tell replayed chunks apart.
+// The numbers start from the clock to keep increasing when the publisher starts over.
+export class SignatureCounter {
+    #last: number = 0;
+
+    next(): number {
+        this.#last = Math.max(this.#last + 1, Date.now());
+        return this.#last;
+    }
+}
+
+// The last number verified on a track, kept across its groups and subscriptions
+export interface VerifiedCounter {
+    last: number;
+}
+
+// What the signature line covers: the number of the chunk and the lines before it
+function linesPayload(counter: number, data: Uint8Array): Uint8Array {
+    const header = new TextEncoder().encode(`${counter}\n`);
+    const payload = new Uint8Array(header.byteLength + data.byteLength);
+    payload.set(header);
+    payload.set(data, header.byteLength);
+    return payload;
+}
+
+// Appends a JSON line carrying the number of the chunk and the signature over both
+export async function signLines(key: CryptoKey, data: Uint8Array, counter: number): Promise<Uint8Array> {
+    const signature = await sign(key, linesPayload(counter, data));
+    const line = new TextEncoder().encode(JSON.stringify({ signature: encodeBase64(signature), counter }));
+
+    const signed = new Uint8Array(data.byteLength + 1 + line.byteLength);
+    signed.set(data);
+    signed[data.byteLength] = NEWLINE;
+    signed.set(line, data.byteLength + 1);
+    return signed;
+}
+
+export async function verifyLines(key: CryptoKey, data: Uint8Array, signature: Uint8Array, counter: number): Promise<boolean> {
+    return await verify(key, signature, linesPayload(counter, data));
+}
+
+// Splits lines signed with signLines into the signed lines, the signature and the number of the chunk.
+// The signature is undefined when the last line is not a signature line.
+export function splitSignature(data: Uint8Array): [Uint8Array, undefined, undefined] | [Uint8Array, Uint8Array, number] | Error {
+    const index = data.lastIndexOf(NEWLINE);
+    if (index < 0) {
+        return [data, undefined, undefined];
+    }
+
+    let line: unknown;
+    try {
+        line = JSON.parse(new TextDecoder().decode(data.subarray(index + 1)));
+    } catch {
+        return [data, undefined, undefined];
+    }
+    const { signature, counter } = (line ?? {}) as { signature?: unknown; counter?: unknown };
+    if (typeof signature !== "string") {
+        return [data, undefined, undefined];
+    }
+    if (typeof counter !== "number" || !Number.isSafeInteger(counter)) {
+        return new SignatureError("malformed signature");
+    }
+
+    const bytes = decodeBase64(signature);
+    if (bytes instanceof Error) {
+        return new SignatureError("malformed signature");
+    }
+    return [data.subarray(0, index), bytes, counter];
+}
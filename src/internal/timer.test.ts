@@ -0,0 +1,48 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { sleep, backoff } from "./timer";
+
+describe("sleep", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("resolves after the delay", async () => {
+        const resolved = vi.fn();
+        sleep(100).then(resolved);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(resolved).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(resolved).toHaveBeenCalled();
+    });
+
+    test("resolves early when done settles", async () => {
+        let cancel!: () => void;
+        const done = new Promise<void>((resolve) => { cancel = resolve; });
+        const resolved = vi.fn();
+        sleep(10_000, done).then(resolved);
+
+        cancel();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(resolved).toHaveBeenCalled();
+    });
+});
+
+describe("backoff", () => {
+    test("doubles the delay by default", () => {
+        expect(backoff(100, 1000)).toBe(200);
+    });
+
+    test("caps the delay at max", () => {
+        expect(backoff(800, 1000)).toBe(1000);
+    });
+
+    test("uses a custom factor", () => {
+        expect(backoff(100, 1000, 3)).toBe(300);
+    });
+});
@@ -0,0 +1,15 @@
+// Resolves after the given delay, or as soon as the done signal settles
+export function sleep(ms: number, done?: Promise<void>): Promise<void> {
+    return new Promise<void>((resolve) => {
+        const id = setTimeout(resolve, ms);
+        done?.then(() => {
+            clearTimeout(id);
+            resolve();
+        });
+    });
+}
+
+// Computes the next delay of an exponential backoff
+export function backoff(delay: number, max: number, factor: number = 2): number {
+    return Math.min(delay * factor, max);
+}
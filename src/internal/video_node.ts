@@ -7,7 +7,7 @@ import { cloneChunk } from './container';
 import { TrackWriter,TrackReader } from "@okutanidaichi/moqt";
 import { GroupCache } from ".";
 import { readVarint } from "@okutanidaichi/moqt/io";
-import type { EncodedChunk, EncodeDestination } from "./container";
+import type { EncodedChunk, EncodeDestination, DecodeMonitor } from "./container";
 
 export type VideoContextState = 'running' | 'suspended' | 'closed';
 
@@ -874,6 +874,7 @@ export class VideoEncodeNode extends VideoNode {
 	#encoder: VideoEncoder;
 	#context: VideoContext;
 	#isKey: () => boolean;
+	#keyRequested: boolean = false;
 
 	#dests: Set<EncodeDestination> = new Set();
 
@@ -898,9 +899,16 @@ export class VideoEncodeNode extends VideoNode {
 		this.#encoder.configure(config);
 	}
 
+	// Encodes the next frame as a keyframe
+	requestKeyframe(): void {
+		this.#keyRequested = true;
+	}
+
 	process(input: VideoFrame): void {
 		try {
-			this.#encoder.encode(input, { keyFrame: this.#isKey() });
+			const keyFrame = this.#keyRequested || this.#isKey();
+			this.#keyRequested = false;
+			this.#encoder.encode(input, { keyFrame });
 		} catch (e) {
 			console.error('encode error', e);
 		}
@@ -941,19 +949,23 @@ export class VideoEncodeNode extends VideoNode {
 export class VideoDecodeNode extends VideoNode {
 	#decoder: VideoDecoder;
 	#context: VideoContext;
+	#monitor?: DecodeMonitor;
 
-	constructor(context: VideoContext) {
+	constructor(context: VideoContext, init: { monitor?: DecodeMonitor } = {}) {
 		super({ numberOfInputs: 1, numberOfOutputs: 1 });
 		this.#context = context;
 		this.#context._register(this);
+		this.#monitor = init.monitor;
 
 		this.#decoder = new VideoDecoder({
 			output: async (frame) => {
+				this.#monitor?.frameDecoded();
 				// Pass decoded frame to next nodes
 				this.process(frame);
 			},
 			error: (e) => {
 				console.error('VideoDecoder error:', e);
+				this.#monitor?.decodeError(e);
 			},
 		});
 	}
@@ -972,6 +984,11 @@ export class VideoDecodeNode extends VideoNode {
 					break;
 				}
 
+				// Deltas cannot be decoded before the next keyframe
+				if (this.#monitor && !this.#monitor.chunkReceived(chunk.type === 'key')) {
+					continue;
+				}
+
 				this.#decoder.decode(chunk);
 			}
 		} catch (e) {
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import { LastNPolicy } from "./last_n";
+import type { JoinedRemoteMember } from "./member";
+
+function member(id: string): JoinedRemoteMember {
+    return { remote: true, id, name: id, broadcast: { id } as any };
+}
+
+function policy(n: number) {
+    const ended: string[] = [];
+    const onvideo = vi.fn((member: JoinedRemoteMember, done: Promise<void>) => {
+        done.then(() => ended.push(member.id));
+    });
+    const onchange = vi.fn();
+    return { policy: new LastNPolicy({ n, onvideo, onchange }), onvideo, onchange, ended };
+}
+
+describe("LastNPolicy", () => {
+    it("should fill the slots by join order", () => {
+        const { policy: lastN, onvideo } = policy(2);
+
+        lastN.add(member("alice"));
+        lastN.add(member("bob"));
+        lastN.add(member("carol"));
+
+        expect(lastN.selected()).toEqual(["alice", "bob"]);
+        expect(onvideo.mock.calls.map(([member]) => member.id)).toEqual(["alice", "bob"]);
+    });
+
+    it("should rank pinned members, then visible tiles, then speakers", async () => {
+        const { policy: lastN, ended, onchange } = policy(2);
+        for (const id of ["alice", "bob", "carol", "dave"]) {
+            lastN.add(member(id));
+        }
+
+        lastN.setSpeakers(["dave"]);
+        expect(lastN.selected()).toEqual(["dave", "alice"]);
+
+        lastN.setVisible(["carol"]);
+        expect(lastN.selected()).toEqual(["carol", "dave"]);
+
+        lastN.pin("bob");
+        expect(lastN.selected()).toEqual(["bob", "carol"]);
+        expect(onchange).toHaveBeenLastCalledWith(["bob", "carol"]);
+
+        await Promise.resolve();
+        expect(ended).toEqual(["bob", "alice", "dave"]);
+    });
+
+    it("should not resubscribe members staying selected", () => {
+        const { policy: lastN, onvideo } = policy(2);
+        lastN.add(member("alice"));
+        lastN.add(member("bob"));
+
+        lastN.setSpeakers(["bob", "alice"]);
+
+        expect(onvideo).toHaveBeenCalledTimes(2);
+    });
+
+    it("should hand the slot of a leaving member over", async () => {
+        const { policy: lastN, ended } = policy(1);
+        lastN.add(member("alice"));
+        lastN.add(member("bob"));
+
+        lastN.remove("alice");
+        await Promise.resolve();
+
+        expect(ended).toEqual(["alice"]);
+        expect(lastN.selected()).toEqual(["bob"]);
+    });
+
+    it("should resubscribe a member that rejoined with a new broadcast", () => {
+        const { policy: lastN, onvideo } = policy(1);
+        lastN.add(member("alice"));
+        lastN.add(member("alice"));
+
+        expect(onvideo).toHaveBeenCalledTimes(2);
+    });
+
+    it("should end every subscription on close", async () => {
+        const { policy: lastN, ended } = policy(3);
+        lastN.add(member("alice"));
+        lastN.add(member("bob"));
+
+        lastN.close();
+        await Promise.resolve();
+
+        expect(ended).toEqual(["alice", "bob"]);
+        expect(lastN.selected()).toEqual([]);
+    });
+});
@@ -0,0 +1,158 @@
+import type { JoinedRemoteMember } from "./member";
+
+export interface LastNInit {
+    // How many remote members receive video
+    n: number;
+
+    // Subscribes to the video of a member, e.g. with broadcast.subscribeTrack(name, decoder, done).
+    // The subscription must end once done resolves, when the member is no longer among the last N.
+    onvideo: (member: JoinedRemoteMember, done: Promise<void>) => void;
+
+    // Notified with the IDs of the members receiving video whenever the selection changes
+    onchange?: (selected: string[]) => void;
+}
+
+// Keeps video subscriptions for the N most relevant remote members only.
+// Pinned members come first, then visible tiles, then recent speakers, then members by join order.
+// Everyone else is left to audio only.
+export class LastNPolicy {
+    #n: number;
+    #onvideo: LastNInit["onvideo"];
+    #onchange?: LastNInit["onchange"];
+
+    // Keyed by member ID, in join order
+    #members: Map<string, JoinedRemoteMember> = new Map();
+    #pinned: string[] = [];
+    #visible: string[] = [];
+    #speakers: string[] = [];
+
+    // Ends the video subscription of each selected member
+    #active: Map<string, () => void> = new Map();
+
+    constructor(init: LastNInit) {
+        this.#n = init.n;
+        this.#onvideo = init.onvideo;
+        this.#onchange = init.onchange;
+    }
+
+    get n(): number {
+        return this.#n;
+    }
+
+    set n(n: number) {
+        this.#n = n;
+        this.#refresh();
+    }
+
+    // IDs of the members receiving video, most relevant first
+    selected(): string[] {
+        return Array.from(this.#active.keys());
+    }
+
+    pinned(): string[] {
+        return [...this.#pinned];
+    }
+
+    // Always receives the video of the member while it fits in N, earlier pins first
+    pin(id: string): void {
+        if (this.#pinned.includes(id)) {
+            return;
+        }
+        this.#pinned.push(id);
+        this.#refresh();
+    }
+
+    unpin(id: string): void {
+        this.#pinned = this.#pinned.filter((pinned) => pinned !== id);
+        this.#refresh();
+    }
+
+    // Members whose tiles are on screen
+    setVisible(ids: string[]): void {
+        this.#visible = [...ids];
+        this.#refresh();
+    }
+
+    // Recent speakers, the most relevant first
+    setSpeakers(ids: string[]): void {
+        this.#speakers = [...ids];
+        this.#refresh();
+    }
+
+    add(member: JoinedRemoteMember): void {
+        const got = this.#members.get(member.id);
+        if (got && got.broadcast !== member.broadcast) {
+            // Rejoined with a new broadcast; the old subscription is gone with it
+            this.#stop(member.id);
+        }
+        this.#members.set(member.id, member);
+        this.#refresh();
+    }
+
+    remove(id: string): void {
+        if (!this.#members.delete(id)) {
+            return;
+        }
+        this.#stop(id);
+        this.#refresh();
+    }
+
+    // Ends every video subscription
+    close(): void {
+        for (const id of Array.from(this.#active.keys())) {
+            this.#stop(id);
+        }
+        this.#members.clear();
+    }
+
+    #select(): string[] {
+        const selected: Set<string> = new Set();
+        const candidates = [...this.#pinned, ...this.#visible, ...this.#speakers, ...this.#members.keys()];
+        for (const id of candidates) {
+            if (selected.size >= this.#n) {
+                break;
+            }
+            if (this.#members.has(id)) {
+                selected.add(id);
+            }
+        }
+        return Array.from(selected);
+    }
+
+    #refresh(): void {
+        const selected = this.#select();
+        const before = this.selected();
+
+        for (const id of before) {
+            if (!selected.includes(id)) {
+                this.#stop(id);
+            }
+        }
+
+        const active: Map<string, () => void> = new Map();
+        for (const id of selected) {
+            let stop = this.#active.get(id);
+            if (!stop) {
+                let resolve!: () => void;
+                const done = new Promise<void>((r) => { resolve = r; });
+                stop = resolve;
+                this.#onvideo(this.#members.get(id)!, done);
+            }
+            active.set(id, stop);
+        }
+        this.#active = active;
+
+        if (selected.length !== before.length || selected.some((id, i) => id !== before[i])) {
+            this.#onchange?.(selected);
+        }
+    }
+
+    #stop(id: string): void {
+        const stop = this.#active.get(id);
+        if (!stop) {
+            return;
+        }
+        this.#active.delete(id);
+        stop();
+    }
+}
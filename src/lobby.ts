@@ -0,0 +1,44 @@
+import type { BroadcastSubscriber } from "./broadcast";
+
+/**
+ * Enables the waiting room of a moderated room.
+ * Joiners announce into the lobby and enter the room once the host admits them.
+ */
+export interface LobbyInit {
+    // Room ID the joiners announce into while waiting
+    roomID?: string; // Default: "<roomID>/lobby"
+
+    // Host only: notified of every member waiting for admission
+    onpending?: (member: PendingMember) => void;
+
+    // Host only: notified when a waiting member gave up before a decision
+    onwithdraw?: (id: string) => void;
+
+    // Spectators only: how they are listed to the host while waiting
+    spectator?: { id?: string; name?: string }; // Default: a random ID, named "Spectator"
+}
+
+export interface PendingMember {
+    id: string;
+    name: string;
+
+    // The lobby broadcast, e.g. to preview the joiner before admitting
+    broadcast: BroadcastSubscriber;
+
+    admit(): Promise<Error | undefined>;
+    deny(reason?: string): Promise<Error | undefined>;
+}
+
+export class AdmissionDeniedError extends Error {
+    readonly reason?: string;
+
+    constructor(message: string, reason?: string) {
+        super(message);
+        this.name = "AdmissionDeniedError";
+        this.reason = reason;
+    }
+}
+
+export function lobbyID(roomID: string, init: LobbyInit): string {
+    return init.roomID ?? `${roomID}/lobby`;
+}
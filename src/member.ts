@@ -2,18 +2,35 @@ import type { BroadcastSubscriber } from "./broadcast";
 
 export interface JoinedLocalMember {
     remote: false;
-    name: string;
+    id: string; // Unique member ID carried in the broadcast path
+    name: string; // Display name, not necessarily unique
 }
 
 export interface JoinedRemoteMember {
     remote: true;
+    id: string;
     name: string;
     broadcast: BroadcastSubscriber;
+    // Set while the member's heartbeats are missing, when the room checks liveness
+    stale?: boolean;
 }
 
 export type JoinedMember = JoinedLocalMember | JoinedRemoteMember;
 
+// Why a member left:
+// graceful when its announcement ended or the room was left,
+// timeout when it went silent or did not come back after a reconnection,
+// replaced when a new broadcast took over its member ID,
+// evicted when the host removed it
+export type LeaveReason = "graceful" | "timeout" | "replaced" | "evicted";
+
 export interface LeftMember {
     remote: boolean;
+    id: string;
     name: string;
-}
\ No newline at end of file
+    reason: LeaveReason;
+}
+export type MemberEvent =
+    | { type: "join"; member: JoinedMember }
+    | { type: "leave"; member: LeftMember }
+    | { type: "stale"; member: JoinedRemoteMember; stale: boolean };
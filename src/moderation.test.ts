@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import {
+    Moderator,
+    CommandDecoder,
+    ReplyEncoder,
+    signCommand,
+    verifyCommand,
+    MODERATION_TRACK_NAME,
+} from "./moderation";
+import type { ModerationCommand, CommandScope } from "./moderation";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    TrackNotFoundErrorCode: 0,
+    InternalSubscribeErrorCode: 1,
+}));
+
+// Collects the lines written to a track until it is closed
+function recordingTrack(name: string = MODERATION_TRACK_NAME) {
+    const lines: any[] = [];
+    return {
+        lines,
+        track: {
+            trackName: name,
+            writeFrame: vi.fn(async (chunk: { data: Uint8Array }) => {
+                const text = new TextDecoder().decode(chunk.data);
+                lines.push(...text.split("\n").map((line) => JSON.parse(line)));
+                return undefined;
+            }),
+            close: vi.fn(),
+            closeWithError: vi.fn(),
+        },
+    };
+}
+
+// Delivers the given lines as a single frame
+function replayTrack(lines: unknown[]) {
+    const frame = { bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) };
+    return {
+        acceptGroup: vi.fn()
+            .mockResolvedValueOnce([{
+                readFrame: vi.fn()
+                    .mockResolvedValueOnce([frame, undefined])
+                    .mockResolvedValue([undefined, undefined]),
+                cancel: vi.fn(),
+            }, undefined])
+            .mockResolvedValue([undefined, new Error("track ended")]),
+    };
+}
+
+// The command of a verified line
+function unwrap(result: Awaited<ReturnType<typeof verifyCommand>>): ModerationCommand | Error {
+    return result instanceof Error ? result : result.command;
+}
+
+// Commands of the first session of the host in room-1, valid for a minute
+function scope(init: Partial<CommandScope> = {}): CommandScope {
+    return { roomID: "room-1", epoch: 1, expiresAt: Date.now() + 60_000, ...init };
+}
+
+describe("Moderation", () => {
+    let keys: CryptoKeyPair;
+    let other: CryptoKeyPair;
+
+    beforeAll(async () => {
+        keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        other = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    });
+
+    describe("signCommand / verifyCommand", () => {
+        const command: ModerationCommand = { seq: 1, type: "kick", target: "bob" };
+
+        it("should verify commands signed by the host", async () => {
+            const signed = await signCommand(keys.privateKey, command, scope({ expiresAt: 2000 }));
+
+            expect(await verifyCommand(keys.publicKey, signed, "room-1", 1000)).toEqual({ roomID: "room-1", epoch: 1, expiresAt: 2000, command });
+        });
+
+        it("should reject commands signed by someone else", async () => {
+            const signed = await signCommand(other.privateKey, command, scope());
+
+            expect(await verifyCommand(keys.publicKey, signed, "room-1")).toBeInstanceOf(Error);
+        });
+
+        it("should reject tampered payloads", async () => {
+            const signed = await signCommand(keys.privateKey, command, scope());
+            signed.payload = signed.payload.replace("bob", "eve");
+
+            expect(await verifyCommand(keys.publicKey, signed, "room-1")).toBeInstanceOf(Error);
+        });
+
+        it("should reject commands replayed into another room", async () => {
+            const signed = await signCommand(keys.privateKey, command, scope());
+
+            const result = await verifyCommand(keys.publicKey, signed, "room-2");
+            expect(result).toBeInstanceOf(Error);
+            expect((result as Error).message).toContain("another room");
+        });
+
+        it("should reject expired commands", async () => {
+            const signed = await signCommand(keys.privateKey, command, scope({ expiresAt: 2000 }));
+
+            const result = await verifyCommand(keys.publicKey, signed, "room-1", 2000);
+            expect(result).toBeInstanceOf(Error);
+            expect((result as Error).message).toContain("expired");
+        });
+
+        it("should reject malformed lines", async () => {
+            expect(await verifyCommand(keys.publicKey, { hello: "world" }, "room-1")).toBeInstanceOf(Error);
+        });
+    });
+
+    describe("CommandDecoder", () => {
+        it("should apply verified commands once and in order", async () => {
+            const handle = vi.fn();
+            const decoder = new CommandDecoder(keys.publicKey, "room-1", handle);
+            const lines = [
+                await signCommand(keys.privateKey, { seq: 2, type: "lock", locked: true, members: ["alice"] }, scope()),
+                await signCommand(keys.privateKey, { seq: 1, type: "kick", target: "bob" }, scope()),
+                await signCommand(other.privateKey, { seq: 3, type: "kick", target: "alice" }, scope()),
+                await signCommand(keys.privateKey, { seq: 2, type: "lock", locked: false, members: [] }, scope()),
+            ];
+
+            await decoder.decodeFrom(new Promise(() => {}), replayTrack(lines));
+
+            expect(handle).toHaveBeenCalledTimes(1);
+            expect(handle).toHaveBeenCalledWith({ seq: 2, type: "lock", locked: true, members: ["alice"] });
+        });
+    });
+
+    describe("CommandDecoder epochs", () => {
+        it("should drop the commands of an earlier session of the host", async () => {
+            const handle = vi.fn();
+            const decoder = new CommandDecoder(keys.publicKey, "room-1", handle);
+            const lines = [
+                await signCommand(keys.privateKey, { seq: 5, type: "kick", target: "bob" }, scope({ epoch: 1 })),
+                // The host started over, with its sequence numbers
+                await signCommand(keys.privateKey, { seq: 1, type: "admit", target: "carol" }, scope({ epoch: 2 })),
+                // Replayed from the first session
+                await signCommand(keys.privateKey, { seq: 6, type: "kick", target: "alice" }, scope({ epoch: 1 })),
+            ];
+
+            await decoder.decodeFrom(new Promise(() => {}), replayTrack(lines));
+
+            expect(handle.mock.calls.map(([command]) => command.target)).toEqual(["bob", "carol"]);
+        });
+    });
+
+    describe("ReplyEncoder", () => {
+        it("should serve replies on the moderation track and pass other tracks through", async () => {
+            const replies = new ReplyEncoder();
+            const broadcast = {
+                serveTrack: vi.fn(),
+                serveLines: vi.fn(async (ctx: Promise<void>, track: any, lines: any) => {
+                    await lines.encodeTo({ output: (chunk: any) => track.writeFrame(chunk), done: ctx });
+                    await track.close();
+                }),
+            };
+            const handler = replies.wrap(broadcast as any);
+
+            const other = recordingTrack("video");
+            await handler.serveTrack(Promise.resolve(), other.track as any);
+            expect(broadcast.serveTrack).toHaveBeenCalledWith(expect.anything(), other.track);
+
+            let stop!: () => void;
+            const done = new Promise<void>((resolve) => { stop = resolve; });
+            const { lines, track } = recordingTrack();
+            const serving = handler.serveTrack(done, track as any);
+
+            replies.reply({ seq: 1, status: "ack" });
+            await vi.waitFor(() => expect(lines).toEqual([{ seq: 1, status: "ack" }]));
+
+            stop();
+            await serving;
+            expect(broadcast.serveLines).toHaveBeenCalledWith(done, track, expect.anything());
+            expect(track.close).toHaveBeenCalled();
+        });
+    });
+
+    describe("Moderator", () => {
+        it("should resolve a kick with the target's reply and apply it afterwards", async () => {
+            const apply = vi.fn();
+            const moderator = new Moderator(keys.privateKey, "room-1", apply, () => []);
+            const { lines, track } = recordingTrack();
+            moderator.serveTrack(new Promise(() => {}), track as any);
+
+            const result = moderator.kick("bob");
+            await vi.waitFor(() => expect(lines).toHaveLength(1));
+            const command = await verifyCommand(keys.publicKey, lines[0], "room-1").then(unwrap);
+            expect(command).toEqual(expect.objectContaining({ type: "kick", target: "bob" }));
+            expect(apply).not.toHaveBeenCalled();
+
+            // Replies from anyone but the target are ignored
+            const seq = (command as ModerationCommand).seq;
+            await moderator.replies("eve").decodeFrom(new Promise(() => {}), replayTrack([{ seq, status: "ack" }]));
+            await moderator.replies("bob").decodeFrom(new Promise(() => {}), replayTrack([{ seq, status: "ack" }]));
+
+            expect(await result).toEqual({ seq, status: "ack" });
+            expect(apply).toHaveBeenCalledWith(expect.objectContaining({ type: "kick", target: "bob" }));
+        });
+
+        it("should return an error when the target does not reply in time", async () => {
+            const moderator = new Moderator(keys.privateKey, "room-1", vi.fn(), () => [], 10);
+
+            const result = await moderator.mute("bob", "audio");
+
+            expect(result).toBeInstanceOf(Error);
+        });
+
+        it("should replay the lock state and kicks to late subscribers", async () => {
+            const apply = vi.fn();
+            const moderator = new Moderator(keys.privateKey, "room-1", apply, () => ["host", "alice"], 10);
+
+            await moderator.kick("bob");
+            await moderator.lock();
+            expect(apply).toHaveBeenCalledWith(expect.objectContaining({ type: "lock", locked: true, members: ["host", "alice"] }));
+
+            const { lines, track } = recordingTrack();
+            moderator.serveTrack(new Promise(() => {}), track as any);
+
+            await vi.waitFor(() => expect(lines).toHaveLength(2));
+            const commands = await Promise.all(lines.map((line) => verifyCommand(keys.publicKey, line, "room-1").then(unwrap)));
+            expect(commands).toEqual([
+                expect.objectContaining({ type: "kick", target: "bob" }),
+                expect.objectContaining({ type: "lock", locked: true }),
+            ]);
+        });
+
+        it("should apply and replay the latest admission decision per member", async () => {
+            const apply = vi.fn();
+            const moderator = new Moderator(keys.privateKey, "room-1", apply, () => []);
+
+            expect(await moderator.admit("carol")).toBeUndefined();
+            expect(await moderator.deny("dave", "full")).toBeUndefined();
+            expect(await moderator.admit("dave")).toBeUndefined();
+            expect(apply).toHaveBeenCalledWith(expect.objectContaining({ type: "deny", target: "dave", reason: "full" }));
+
+            const { lines, track } = recordingTrack();
+            moderator.serveTrack(new Promise(() => {}), track as any);
+
+            await vi.waitFor(() => expect(lines).toHaveLength(2));
+            const commands = await Promise.all(lines.map((line) => verifyCommand(keys.publicKey, line, "room-1").then(unwrap)));
+            expect(commands).toEqual([
+                expect.objectContaining({ type: "admit", target: "carol" }),
+                expect.objectContaining({ type: "admit", target: "dave" }),
+            ]);
+        });
+
+        it("should sign the retained commands again for late subscribers once half their validity passed", async () => {
+            vi.useFakeTimers();
+            try {
+                const moderator = new Moderator(keys.privateKey, "room-1", vi.fn(), () => [], 10, 1000);
+                await moderator.lock();
+                vi.advanceTimersByTime(5000);
+
+                const { lines, track } = recordingTrack();
+                moderator.serveTrack(new Promise(() => {}), track as any);
+
+                await vi.waitFor(() => expect(lines).toHaveLength(1));
+                const scoped = await verifyCommand(keys.publicKey, lines[0], "room-1");
+                expect(scoped).toEqual(expect.objectContaining({ epoch: moderator.epoch, command: expect.objectContaining({ type: "lock" }) }));
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it("should stop replaying kicks and admissions once they expire, but not the lock", async () => {
+            const moderator = new Moderator(keys.privateKey, "room-1", vi.fn(), () => [], 10, 1000);
+            await moderator.kick("bob");
+            await moderator.admit("carol");
+            await moderator.lock();
+
+            vi.useFakeTimers();
+            try {
+                vi.advanceTimersByTime(1500);
+
+                const { lines, track } = recordingTrack();
+                moderator.serveTrack(new Promise(() => {}), track as any);
+
+                await vi.waitFor(() => expect(lines).toHaveLength(1));
+                const commands = await Promise.all(lines.map((line) => verifyCommand(keys.publicKey, line, "room-1").then(unwrap)));
+                expect(commands).toEqual([expect.objectContaining({ type: "lock", locked: true })]);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it("should refuse other tracks", async () => {
+            const moderator = new Moderator(keys.privateKey, "room-1", vi.fn(), () => []);
+            const { track } = recordingTrack("video");
+
+            await moderator.serveTrack(Promise.resolve(), track as any);
+
+            expect(track.closeWithError).toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,454 @@
+import { z } from "zod";
+import type { TrackWriter, TrackHandler } from "@okutanidaichi/moqt";
+import { TrackNotFoundErrorCode } from "@okutanidaichi/moqt";
+import { JsonLineTrackEncoder, JsonLineTrackDecoder } from "./internal/json_track";
+import type { ReadableTrack } from "./internal/reader";
+import type { JsonValue, EncodedJsonChunk } from "./internal/json";
+import { sign, verify, encodeBase64, decodeBase64 } from "./internal/signature";
+import { sleep } from "./internal/timer";
+import type { LobbyInit } from "./lobby";
+import type { BroadcastPublisher } from "./broadcast";
+
+// Name of the track carrying commands on the control broadcast,
+// and replies on the members' broadcasts
+export const MODERATION_TRACK_NAME = "moderation";
+
+export const ModerationCommandSchema = z.discriminatedUnion("type", [
+    z.object({
+        seq: z.number().int(),
+        type: z.literal("kick"),
+        target: z.string(),
+    }),
+    z.object({
+        seq: z.number().int(),
+        type: z.literal("mute"),
+        target: z.string(),
+        track: z.string(),
+    }),
+    z.object({
+        seq: z.number().int(),
+        type: z.literal("lock"),
+        locked: z.boolean(),
+        // Members allowed to stay while locked
+        members: z.array(z.string()),
+    }),
+    z.object({
+        seq: z.number().int(),
+        type: z.literal("admit"),
+        target: z.string(),
+    }),
+    z.object({
+        seq: z.number().int(),
+        type: z.literal("deny"),
+        target: z.string(),
+        reason: z.string().optional(),
+    }),
+]);
+
+export type ModerationCommand = z.infer<typeof ModerationCommandSchema>;
+
+export const SignedCommandSchema = z.object({
+    payload: z.string(), // JSON encoded CommandPayload
+    signature: z.string(), // Base64 encoded signature over the payload
+});
+
+export type SignedCommand = z.infer<typeof SignedCommandSchema>;
+
+// Where and when a command applies, signed along with it so that it cannot be replayed
+// into another room, into a later session of the host, or after it expired
+export interface CommandScope {
+    roomID: string;
+    epoch: number; // Start of the host's session, in milliseconds since the Unix epoch
+    expiresAt: number; // Milliseconds since the Unix epoch
+}
+
+const CommandPayloadSchema = z.object({
+    roomID: z.string(),
+    epoch: z.number().int(),
+    expiresAt: z.number().int(),
+    command: ModerationCommandSchema,
+});
+
+export type CommandPayload = z.infer<typeof CommandPayloadSchema>;
+
+export const ModerationReplySchema = z.object({
+    seq: z.number().int(),
+    status: z.enum(["ack", "reject"]),
+    reason: z.string().optional(),
+});
+
+export type ModerationReply = z.infer<typeof ModerationReplySchema>;
+
+export interface ModerationInit {
+    // Verifies the commands published by the host
+    hostKey: CryptoKey;
+
+    // Set on the host only: signs the published commands
+    signingKey?: CryptoKey;
+
+    // Applies a force mute of the named local track.
+    // Resolving to false, or leaving this unset, rejects the command.
+    onmute?: (track: string) => boolean | Promise<boolean>;
+
+    // Notified of every verified command applied to the room
+    oncommand?: (command: ModerationCommand) => void;
+
+    // How long the host waits for the target to reply
+    replyTimeoutMs?: number; // Default: 5000
+
+    // How long a signed command is valid, and how long kicks and admissions are replayed to members
+    // subscribing later; the lock is replayed as long as it holds, signed again as needed
+    commandTtlMs?: number; // Default: 300000
+
+    // Makes joiners wait in a lobby until the host admits them
+    lobby?: LobbyInit;
+}
+
+export async function signCommand(key: CryptoKey, command: ModerationCommand, scope: CommandScope): Promise<SignedCommand> {
+    const payload = JSON.stringify({ roomID: scope.roomID, epoch: scope.epoch, expiresAt: scope.expiresAt, command });
+    const signature = await sign(key, new TextEncoder().encode(payload));
+    return { payload, signature: encodeBase64(signature) };
+}
+
+// Verifies a command of the host, and that it was issued for the room and has not expired
+export async function verifyCommand(key: CryptoKey, line: unknown, roomID: string, now: number = Date.now()): Promise<CommandPayload | Error> {
+    const signed = SignedCommandSchema.safeParse(line);
+    if (!signed.success) {
+        return new Error("moderation: malformed command");
+    }
+
+    const signature = decodeBase64(signed.data.signature);
+    if (signature instanceof Error) {
+        return new Error("moderation: malformed signature");
+    }
+
+    const ok = await verify(key, signature, new TextEncoder().encode(signed.data.payload));
+    if (!ok) {
+        return new Error("moderation: invalid signature");
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(signed.data.payload);
+    } catch {
+        return new Error("moderation: malformed payload");
+    }
+
+    const scoped = CommandPayloadSchema.safeParse(payload);
+    if (!scoped.success) {
+        return new Error("moderation: unknown command");
+    }
+    if (scoped.data.roomID !== roomID) {
+        return new Error(`moderation: command for another room: ${scoped.data.roomID}`);
+    }
+    if (scoped.data.expiresAt <= now) {
+        return new Error("moderation: expired command");
+    }
+
+    return scoped.data;
+}
+
+// Reads verified commands of the room from the control broadcast.
+// Commands of an earlier session of the host are dropped once a later one was seen.
+export class CommandDecoder {
+    #key: CryptoKey;
+    #decoder: JsonLineTrackDecoder;
+    #epoch: number = -Infinity;
+    #lastSeq: number = -Infinity;
+
+    constructor(key: CryptoKey, roomID: string, handle: (command: ModerationCommand) => void | Promise<void>) {
+        this.#key = key;
+        this.#decoder = new JsonLineTrackDecoder(async (line) => {
+            const scoped = await verifyCommand(this.#key, line, roomID);
+            if (scoped instanceof Error) {
+                console.warn(`[Moderation] dropped command: ${scoped.message}`);
+                return;
+            }
+
+            if (scoped.epoch < this.#epoch) {
+                return;
+            }
+            if (scoped.epoch > this.#epoch) {
+                // The host started over: its sequence numbers too
+                this.#epoch = scoped.epoch;
+                this.#lastSeq = -Infinity;
+            }
+
+            // Replayed or reordered commands are applied only once
+            const command = scoped.command;
+            if (command.seq <= this.#lastSeq) {
+                return;
+            }
+            this.#lastSeq = command.seq;
+
+            await handle(command);
+        });
+    }
+
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        return this.#decoder.decodeFrom(ctx, reader);
+    }
+}
+
+// Serves the replies of the local member next to its own broadcast
+export class ReplyEncoder {
+    #encoder: JsonLineTrackEncoder<ModerationReply> = new JsonLineTrackEncoder();
+
+    reply(reply: ModerationReply): void {
+        this.#encoder.send([reply]);
+    }
+
+    // Routes the moderation track to the replies and every other track to the broadcast.
+    // The replies are encrypted and signed like the tracks of the broadcast.
+    wrap(broadcast: Pick<BroadcastPublisher, "serveTrack" | "serveLines">): TrackHandler {
+        return {
+            serveTrack: async (ctx: Promise<void>, track: TrackWriter): Promise<void> => {
+                if (track.trackName !== MODERATION_TRACK_NAME) {
+                    return broadcast.serveTrack(ctx, track);
+                }
+                await broadcast.serveLines(ctx, track, this.#encoder);
+            },
+        };
+    }
+
+    close(): void {
+        this.#encoder.close();
+    }
+}
+
+type PendingReply = {
+    target: string;
+    resolve: (reply: ModerationReply) => void;
+};
+
+type RetainedCommand = {
+    command: ModerationCommand;
+    signed: SignedCommand;
+    expiresAt: number;
+    // Replayed until then, however often it is signed again; the lock is kept as the state of the room
+    retainUntil: number;
+};
+
+// Issues signed commands from the host and collects the replies of their targets
+export class Moderator implements TrackHandler {
+    #key: CryptoKey;
+    readonly roomID: string;
+    #timeout: number;
+    #ttl: number;
+    #encoder: JsonLineTrackEncoder<SignedCommand> = new JsonLineTrackEncoder();
+    #apply: (command: ModerationCommand) => void;
+    #members: () => string[];
+
+    // A restarted host starts a new epoch, so that its commands are not ignored as replays
+    readonly epoch: number = Date.now();
+    #seq: number = 0;
+    #pending: Map<number, PendingReply> = new Map();
+
+    // Replayed to members subscribing later until they expire, keyed by sequence number
+    #kicks: Map<number, RetainedCommand> = new Map();
+    #lock?: RetainedCommand;
+    // Latest admission decision per member
+    #admissions: Map<string, RetainedCommand> = new Map();
+
+    constructor(key: CryptoKey, roomID: string, apply: (command: ModerationCommand) => void, members: () => string[], replyTimeoutMs?: number, commandTtlMs?: number) {
+        this.#key = key;
+        this.roomID = roomID;
+        this.#apply = apply;
+        this.#members = members;
+        this.#timeout = replyTimeoutMs ?? 5000;
+        this.#ttl = commandTtlMs ?? 300_000;
+    }
+
+    // Removes a member from the room
+    kick(id: string): Promise<ModerationReply | Error> {
+        return this.#request({ seq: this.#next(), type: "kick", target: id });
+    }
+
+    // Asks a member to mute one of its tracks
+    mute(id: string, track: string): Promise<ModerationReply | Error> {
+        return this.#request({ seq: this.#next(), type: "mute", target: id, track });
+    }
+
+    // Locks the room against new joins; the current members may stay
+    async lock(locked: boolean = true): Promise<Error | undefined> {
+        const command: ModerationCommand = {
+            seq: this.#next(),
+            type: "lock",
+            locked,
+            members: locked ? this.#members() : [],
+        };
+        const [, err] = await this.#publish(command);
+        return err;
+    }
+
+    // Lets a member waiting in the lobby into the room
+    async admit(id: string): Promise<Error | undefined> {
+        const [, err] = await this.#publish({ seq: this.#next(), type: "admit", target: id });
+        return err;
+    }
+
+    // Turns a member waiting in the lobby away
+    async deny(id: string, reason?: string): Promise<Error | undefined> {
+        const [, err] = await this.#publish({ seq: this.#next(), type: "deny", target: id, reason });
+        return err;
+    }
+
+    async serveTrack(ctx: Promise<void>, track: TrackWriter): Promise<void> {
+        if (track.trackName !== MODERATION_TRACK_NAME) {
+            track.closeWithError(TrackNotFoundErrorCode, `track not found: ${track.trackName}`);
+            return;
+        }
+
+        // Late subscribers get the retained commands still in force, signed with time left to apply them
+        await this.#resign();
+
+        await this.#encoder.encodeTo({
+            output: async (chunk: EncodedJsonChunk): Promise<Error | undefined> => {
+                return await track.writeFrame(chunk);
+            },
+            done: ctx,
+        });
+
+        await track.close();
+    }
+
+    // Reads the replies published by the member with the given ID
+    replies(id: string): JsonLineTrackDecoder {
+        return new JsonLineTrackDecoder((line: JsonValue) => {
+            const reply = ModerationReplySchema.safeParse(line);
+            if (!reply.success) {
+                return;
+            }
+
+            const pending = this.#pending.get(reply.data.seq);
+            if (!pending || pending.target !== id) {
+                // Only the target may answer a command
+                return;
+            }
+
+            this.#pending.delete(reply.data.seq);
+            pending.resolve(reply.data);
+        });
+    }
+
+    close(): void {
+        this.#encoder.close();
+        for (const pending of this.#pending.values()) {
+            pending.resolve({ seq: -1, status: "reject", reason: "moderator closed" });
+        }
+        this.#pending.clear();
+    }
+
+    #next(): number {
+        return ++this.#seq;
+    }
+
+    async #request(command: ModerationCommand & { target: string }): Promise<ModerationReply | Error> {
+        const reply = new Promise<ModerationReply>((resolve) => {
+            this.#pending.set(command.seq, { target: command.target, resolve });
+        });
+
+        const [, err] = await this.#publish(command);
+        if (err) {
+            this.#pending.delete(command.seq);
+            return err;
+        }
+
+        const result = await Promise.race([
+            reply,
+            sleep(this.#timeout).then(() => undefined),
+        ]);
+        this.#pending.delete(command.seq);
+
+        if (command.type === "kick") {
+            // Removing the member any earlier would also drop its reply
+            this.#apply(command);
+        }
+
+        if (!result) {
+            return new Error(`moderation: no reply from ${command.target} to ${command.type}`);
+        }
+        return result;
+    }
+
+    async #sign(command: ModerationCommand): Promise<RetainedCommand> {
+        const expiresAt = Date.now() + this.#ttl;
+        const signed = await signCommand(this.#key, command, { roomID: this.roomID, epoch: this.epoch, expiresAt });
+        const retainUntil = command.type === "lock" ? Infinity : expiresAt;
+        return { command, signed, expiresAt, retainUntil };
+    }
+
+    // Drops the kicks and admissions issued longer than their lifetime ago
+    #prune(): void {
+        const now = Date.now();
+        for (const [seq, entry] of this.#kicks) {
+            if (entry.retainUntil <= now) {
+                this.#kicks.delete(seq);
+            }
+        }
+        for (const [id, entry] of this.#admissions) {
+            if (entry.retainUntil <= now) {
+                this.#admissions.delete(id);
+            }
+        }
+    }
+
+    #retained(): RetainedCommand[] {
+        const retained = [...this.#kicks.values(), ...this.#admissions.values()];
+        if (this.#lock) {
+            retained.push(this.#lock);
+        }
+        return retained;
+    }
+
+    #retain(): void {
+        // Keep the sequence order, otherwise members drop the older commands as replays
+        const retained = this.#retained().sort((a, b) => a.command.seq - b.command.seq);
+        this.#encoder.retain(retained.map(({ signed }) => signed));
+    }
+
+    // Drops the expired commands and signs the others past half their validity again
+    async #resign(): Promise<void> {
+        this.#prune();
+
+        const stale = this.#retained().filter(({ expiresAt }) => expiresAt - Date.now() < this.#ttl / 2);
+        try {
+            await Promise.all(stale.map(async (entry) => {
+                const fresh = await this.#sign(entry.command);
+                entry.signed = fresh.signed;
+                entry.expiresAt = fresh.expiresAt;
+            }));
+        } catch (e) {
+            console.warn(`[Moderation] failed to sign the retained commands again: ${e}`);
+        }
+        this.#retain();
+    }
+
+    async #publish(command: ModerationCommand): Promise<[SignedCommand, undefined] | [undefined, Error]> {
+        let retained: RetainedCommand;
+        try {
+            retained = await this.#sign(command);
+        } catch (e) {
+            return [undefined, e instanceof Error ? e : new Error(String(e))];
+        }
+        const signed = retained.signed;
+
+        if (command.type === "kick") {
+            this.#kicks.set(command.seq, retained);
+        } else if (command.type === "lock") {
+            this.#lock = retained;
+        } else if (command.type === "admit" || command.type === "deny") {
+            this.#admissions.set(command.target, retained);
+        }
+        this.#prune();
+        this.#retain();
+
+        if (command.type !== "kick") {
+            // The host's own room follows its commands without waiting for the relay
+            this.#apply(command);
+        }
+        this.#encoder.send([signed]);
+
+        return [signed, undefined];
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from "vitest";
+import { HangPathCodec, DEFAULT_BROADCAST_PATH_CODEC } from "./path";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    validateBroadcastPath: vi.fn((path: string) => path),
+}));
+
+describe("HangPathCodec", () => {
+    const codec = new HangPathCodec();
+
+    it("should be the default codec", () => {
+        expect(DEFAULT_BROADCAST_PATH_CODEC).toBeInstanceOf(HangPathCodec);
+    });
+
+    it("should use the room as prefix", () => {
+        expect(codec.prefix("room")).toBe("/room/");
+    });
+
+    it("should format paths with the .hang extension", () => {
+        expect(codec.format("room", "alice")).toBe("/room/alice.hang");
+        expect(codec.format("room", "a/b c")).toBe("/room/a%2Fb%20c.hang");
+    });
+
+    it("should round-trip member IDs", () => {
+        for (const id of ["alice", "a/b", "x.hang", "名前"]) {
+            expect(codec.parse("room", codec.format("room", id))).toBe(id);
+        }
+    });
+
+    it("should filter out paths that do not belong to the room", () => {
+        expect(codec.parse("room", "/other/alice.hang")).toBeUndefined();
+        expect(codec.parse("room", "/room/alice")).toBeUndefined();
+        expect(codec.parse("room", "/room/.hang")).toBeUndefined();
+        expect(codec.parse("room", "/room/nested/alice.hang")).toBeUndefined();
+        expect(codec.parse("room", "/room/%E0%A4%A.hang")).toBeUndefined();
+    });
+
+    it("should keep the control path out of the members", () => {
+        expect(codec.control("room")).toBe("/room/control");
+        expect(codec.parse("room", codec.control("room"))).toBeUndefined();
+    });
+});
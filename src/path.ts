@@ -0,0 +1,57 @@
+import type { BroadcastPath } from "@okutanidaichi/moqt";
+import { validateBroadcastPath } from "@okutanidaichi/moqt";
+
+/**
+ * Maps member IDs to broadcast paths and back.
+ * Implement this to interoperate with relays or clients using a different naming scheme.
+ */
+export interface BroadcastPathCodec {
+    // Prefix used to receive the announcements of the room
+    prefix(roomID: string): string;
+
+    format(roomID: string, id: string): BroadcastPath;
+
+    // Returns undefined when the path does not belong to the room
+    parse(roomID: string, path: BroadcastPath): string | undefined;
+
+    // Path of the host's control broadcast; must not parse as a member
+    control(roomID: string): BroadcastPath;
+}
+
+const HANG_EXTENSION = '.hang';
+
+// Lays out paths as "/<roomID>/<percent-encoded member ID>.hang"
+export class HangPathCodec implements BroadcastPathCodec {
+    prefix(roomID: string): string {
+        return `/${roomID}/`;
+    }
+
+    format(roomID: string, id: string): BroadcastPath {
+        return validateBroadcastPath(`${this.prefix(roomID)}${encodeURIComponent(id)}${HANG_EXTENSION}`);
+    }
+
+    parse(roomID: string, path: BroadcastPath): string | undefined {
+        const prefix = this.prefix(roomID);
+        if (!path.startsWith(prefix) || !path.endsWith(HANG_EXTENSION)) {
+            return undefined;
+        }
+
+        const encoded = path.slice(prefix.length, path.length - HANG_EXTENSION.length);
+        if (encoded.length === 0 || encoded.includes("/")) {
+            // Nested paths belong to someone else sharing the prefix
+            return undefined;
+        }
+
+        try {
+            return decodeURIComponent(encoded);
+        } catch {
+            return undefined;
+        }
+    }
+
+    control(roomID: string): BroadcastPath {
+        return validateBroadcastPath(`${this.prefix(roomID)}control`);
+    }
+}
+
+export const DEFAULT_BROADCAST_PATH_CODEC: BroadcastPathCodec = new HangPathCodec();
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { QoEMonitor } from "./qoe";
+import type { QoEEvent } from "./qoe";
+
+describe("QoEMonitor", () => {
+    let events: QoEEvent[];
+    let monitor: QoEMonitor;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        events = [];
+        monitor = new QoEMonitor("video", (event) => events.push(event), { freezeThresholdMs: 500 });
+    });
+
+    afterEach(() => {
+        monitor.close();
+        vi.useRealTimers();
+    });
+
+    it("should report a freeze and its duration", () => {
+        monitor.start();
+        monitor.frameDecoded();
+
+        vi.advanceTimersByTime(499);
+        expect(events).toEqual([]);
+        vi.advanceTimersByTime(1);
+        expect(events).toMatchObject([{ type: "freeze", trackName: "video" }]);
+
+        vi.advanceTimersByTime(300);
+        monitor.frameDecoded();
+        expect(events[1]).toMatchObject({ type: "freeze-ended", durationMs: 800 });
+        expect(monitor.stats).toMatchObject({ framesDecoded: 2, freezes: 1, freezeMs: 800 });
+    });
+
+    it("should not report freezes while the track is not active", () => {
+        monitor.start();
+        monitor.frameDecoded();
+        monitor.stop();
+
+        vi.advanceTimersByTime(2000);
+
+        expect(events).toEqual([]);
+    });
+
+    it("should skip deltas until a keyframe", () => {
+        vi.advanceTimersByTime(100);
+        expect(monitor.chunkReceived(false)).toBe(false);
+        vi.advanceTimersByTime(100);
+        expect(monitor.chunkReceived(false)).toBe(false);
+        expect(monitor.chunkReceived(true)).toBe(true);
+        expect(monitor.chunkReceived(false)).toBe(true);
+
+        expect(events).toMatchObject([{ type: "keyframe-wait", durationMs: 200, skipped: 2 }]);
+        expect(monitor.stats).toMatchObject({ keyframeWaits: 1, keyframeWaitMs: 200, chunksSkipped: 2 });
+    });
+
+    it("should wait for a keyframe after a decoder error", () => {
+        monitor.chunkReceived(true);
+
+        const error = new Error("corrupt frame");
+        monitor.decodeError(error);
+
+        expect(events).toMatchObject([{ type: "decode-error", error }]);
+        expect(monitor.chunkReceived(false)).toBe(false);
+        expect(monitor.chunkReceived(true)).toBe(true);
+        expect(monitor.stats).toMatchObject({ decodeErrors: 1, keyframeWaits: 1 });
+    });
+
+    it("should count underruns", () => {
+        monitor.underrun(20);
+        monitor.underrun(5);
+
+        expect(events.map((event) => event.type)).toEqual(["underrun", "underrun"]);
+        expect(monitor.stats).toMatchObject({ underruns: 2, underrunMs: 25 });
+    });
+
+    it("should end the events of the track once closed", async () => {
+        const events = monitor.events();
+        monitor.underrun(20);
+        monitor.close();
+        monitor.underrun(5);
+
+        expect(await events.next()).toMatchObject({ value: { type: "underrun", durationMs: 20 }, done: false });
+        expect(await events.next()).toMatchObject({ done: true });
+        expect((await monitor.events().next()).done).toBe(true);
+    });
+});
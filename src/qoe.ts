@@ -0,0 +1,175 @@
+import type { DecodeMonitor } from "./internal/container";
+import { EventStream } from "./internal/event_stream";
+
+export interface QoEInit {
+    // A video freezes once no frame was decoded for this long while the track is active
+    freezeThresholdMs?: number; // Default: 1000
+}
+
+// A playback problem of a track
+export type QoEEvent = { trackName: string; timestamp: number } & (
+    | { type: "freeze" }
+    | { type: "freeze-ended"; durationMs: number }
+    | { type: "underrun"; durationMs: number } // Audio played out before new samples arrived
+    | { type: "decode-error"; error: Error }
+    | { type: "keyframe-wait"; durationMs: number; skipped: number } // Chunks dropped until a keyframe
+);
+
+// Cumulative playback counters of a track
+export interface QoEStats {
+    trackName: string;
+    framesDecoded: number;
+    freezes: number;
+    freezeMs: number;
+    underruns: number;
+    underrunMs: number;
+    decodeErrors: number;
+    keyframeWaits: number;
+    keyframeWaitMs: number;
+    chunksSkipped: number;
+}
+
+// Follows the playback of one track from its decode node.
+// Freezes are only detected while the track is active, from its first decoded frame on.
+export class QoEMonitor implements DecodeMonitor {
+    readonly trackName: string;
+    #freezeThreshold: number;
+    #onevent: (event: QoEEvent) => void;
+    #events: EventStream<QoEEvent> = new EventStream();
+    #closed: boolean = false;
+    #stats: QoEStats;
+
+    #active: boolean = false;
+    #freezeTimer?: ReturnType<typeof setTimeout>;
+    #frozenSince?: number;
+
+    // Set while chunks are dropped until a keyframe
+    #waitingSince?: number = Date.now();
+    #skipped: number = 0;
+
+    constructor(trackName: string, emit: (event: QoEEvent) => void, init: QoEInit = {}) {
+        this.trackName = trackName;
+        this.#onevent = emit;
+        this.#freezeThreshold = init.freezeThresholdMs ?? 1000;
+        this.#stats = {
+            trackName,
+            framesDecoded: 0,
+            freezes: 0,
+            freezeMs: 0,
+            underruns: 0,
+            underrunMs: 0,
+            decodeErrors: 0,
+            keyframeWaits: 0,
+            keyframeWaitMs: 0,
+            chunksSkipped: 0,
+        };
+    }
+
+    get stats(): QoEStats {
+        return { ...this.#stats };
+    }
+
+    // The events of this track until the monitor is closed
+    events(done?: Promise<void>): AsyncIterableIterator<QoEEvent> {
+        const events = this.#events.subscribe(done);
+        if (this.#closed) {
+            events.return!();
+        }
+        return events;
+    }
+
+    // The track is being received
+    start(): void {
+        this.#active = true;
+    }
+
+    // The track is no longer received, e.g. while subscribing again
+    stop(): void {
+        this.#active = false;
+        clearTimeout(this.#freezeTimer);
+        this.#freezeTimer = undefined;
+        this.#thaw();
+        // A new subscription starts from a keyframe
+        this.#waitingSince = Date.now();
+        this.#skipped = 0;
+    }
+
+    chunkReceived(keyframe: boolean): boolean {
+        if (this.#waitingSince === undefined) {
+            return true;
+        }
+
+        if (!keyframe) {
+            this.#skipped++;
+            this.#stats.chunksSkipped++;
+            return false;
+        }
+
+        if (this.#skipped > 0) {
+            const durationMs = Date.now() - this.#waitingSince;
+            this.#stats.keyframeWaits++;
+            this.#stats.keyframeWaitMs += durationMs;
+            this.#emit({ type: "keyframe-wait", trackName: this.trackName, timestamp: Date.now(), durationMs, skipped: this.#skipped });
+        }
+        this.#waitingSince = undefined;
+        this.#skipped = 0;
+        return true;
+    }
+
+    frameDecoded(): void {
+        this.#stats.framesDecoded++;
+        this.#thaw();
+
+        if (!this.#active || this.#freezeThreshold <= 0) {
+            return;
+        }
+        clearTimeout(this.#freezeTimer);
+        this.#freezeTimer = setTimeout(() => {
+            this.#freezeTimer = undefined;
+            this.#frozenSince = Date.now() - this.#freezeThreshold;
+            this.#stats.freezes++;
+            this.#emit({ type: "freeze", trackName: this.trackName, timestamp: Date.now() });
+        }, this.#freezeThreshold);
+    }
+
+    decodeError(error: Error): void {
+        this.#stats.decodeErrors++;
+        this.#emit({ type: "decode-error", trackName: this.trackName, timestamp: Date.now(), error });
+        // The decoder has to start over from a keyframe
+        this.#waitingSince ??= Date.now();
+    }
+
+    underrun(durationMs: number): void {
+        this.#stats.underruns++;
+        this.#stats.underrunMs += durationMs;
+        this.#emit({ type: "underrun", trackName: this.trackName, timestamp: Date.now(), durationMs });
+    }
+
+    // Ends the events of the track, e.g. once the track ended or the broadcast closed
+    close(): void {
+        if (this.#closed) {
+            return;
+        }
+        this.stop();
+        this.#closed = true;
+        this.#events.close();
+    }
+
+    #emit(event: QoEEvent): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#onevent(event);
+        this.#events.emit(event);
+    }
+
+    #thaw(): void {
+        if (this.#frozenSince === undefined) {
+            return;
+        }
+        const durationMs = Date.now() - this.#frozenSince;
+        this.#frozenSince = undefined;
+        this.#stats.freezeMs += durationMs;
+        this.#emit({ type: "freeze-ended", trackName: this.trackName, timestamp: Date.now(), durationMs });
+    }
+}
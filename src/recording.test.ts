@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from "vitest";
+import { RoomRecorder, ReplayPublisher } from "./recording";
+import { MemoryArchiveStore, ArchiveManifestSchema } from "./archive";
+import { EventStream } from "./internal/event_stream";
+import type { MemberEvent } from "./member";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+    TrackNotFoundErrorCode: 2,
+    validateBroadcastPath: (path: string) => path,
+}));
+
+function readerOf(frames: string[]) {
+    return {
+        acceptGroup: vi.fn()
+            .mockResolvedValueOnce([{
+                sequence: 7n,
+                readFrame: frames.reduce(
+                    (read, frame) => read.mockResolvedValueOnce([{ bytes: new TextEncoder().encode(frame) }, undefined]),
+                    vi.fn(),
+                ).mockResolvedValue([undefined, undefined]),
+                cancel: vi.fn(),
+            }, undefined])
+            .mockImplementation(() => new Promise(() => {})),
+    };
+}
+
+const VIDEO_LINE = { active: true, track: { name: "video", priority: 64, schema: "video", config: {} } };
+
+async function record(store: MemoryArchiveStore, catalog: string = [JSON.stringify({ version: "1" }), JSON.stringify(VIDEO_LINE)].join("\n")) {
+    let now = 1000;
+    const broadcast = {
+        path: "/test-room/bob.hang",
+        subscribeTrack: vi.fn(async (name: string, decoder: any, done: Promise<void>) => {
+            return await decoder.decodeFrom(done, readerOf(name === "catalog.json" ? [catalog] : ["key", "delta"]));
+        }),
+    };
+    const events = new EventStream<MemberEvent>();
+    const room = {
+        roomID: "test-room",
+        members: () => [{ remote: true, id: "bob", name: "Bob", broadcast }],
+        events: (done?: Promise<void>) => events.subscribe(done),
+    };
+
+    const recorder = new RoomRecorder(room as any, store, () => now);
+    expect(await recorder.start()).toBeUndefined();
+    now = 1200;
+    await vi.waitFor(() => expect(broadcast.subscribeTrack).toHaveBeenCalledWith("video", expect.anything(), expect.any(Promise)));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await recorder.stop()).toBeUndefined();
+    return recorder;
+}
+
+describe("RoomRecorder", () => {
+    it("should record the catalog and every track it lists", async () => {
+        const store = new MemoryArchiveStore();
+        await record(store);
+
+        const manifest = ArchiveManifestSchema.parse(JSON.parse(new TextDecoder().decode(await store.read("manifest.json") as Uint8Array)));
+        expect(manifest.roomID).toBe("test-room");
+        expect(manifest.broadcasts).toEqual([expect.objectContaining({
+            id: "bob",
+            path: "/test-room/bob.hang",
+            leftAt: 200,
+            tracks: [{ name: "catalog.json", file: "track-0.jsonl" }, { name: "video", file: "track-1.jsonl" }],
+        })]);
+
+        const records = new TextDecoder().decode(await store.read("track-1.jsonl") as Uint8Array).trim().split("\n").map((line) => JSON.parse(line));
+        expect(records).toEqual([
+            { group: 7, at: 200, data: btoa("key") },
+            { group: 7, at: 200, data: btoa("delta") },
+            { group: 7, at: 200, end: true },
+        ]);
+    });
+
+    it("should record the catalog of a signed broadcast without its signatures", async () => {
+        const store = new MemoryArchiveStore();
+        await record(store, [
+            JSON.stringify({ version: "1", signed: true }),
+            JSON.stringify(VIDEO_LINE),
+            JSON.stringify({ signature: btoa("signature"), counter: 1 }),
+        ].join("\n"));
+
+        const [catalog] = new TextDecoder().decode(await store.read("track-0.jsonl") as Uint8Array).trim().split("\n").map((line) => JSON.parse(line));
+        const lines = atob(catalog.data).split("\n").map((line) => JSON.parse(line));
+        expect(lines).toEqual([{ version: "1" }, VIDEO_LINE]);
+    });
+
+    it("should not start twice", async () => {
+        const room = { roomID: "test-room", members: () => [], events: () => new EventStream().subscribe() };
+        const recorder = new RoomRecorder(room as any, new MemoryArchiveStore());
+
+        await recorder.start();
+        expect(await recorder.start()).toBeInstanceOf(Error);
+        await recorder.stop();
+    });
+});
+
+describe("ReplayPublisher", () => {
+    it("should fail on a missing manifest", async () => {
+        expect(await ReplayPublisher.open(new MemoryArchiveStore())).toBeInstanceOf(Error);
+    });
+
+    it("should announce the archived broadcasts and replay their groups", async () => {
+        const store = new MemoryArchiveStore();
+        await record(store);
+        const replay = await ReplayPublisher.open(store);
+        if (replay instanceof Error) {
+            throw replay;
+        }
+
+        const publish = vi.fn();
+        const replaying = replay.publish({ mux: { publish } } as any, "other-room", new Promise(() => {}));
+        await vi.waitFor(() => expect(publish).toHaveBeenCalled());
+        expect(publish).toHaveBeenCalledWith(expect.any(Promise), "/other-room/bob.hang", expect.anything());
+
+        const handler = publish.mock.calls[0]![2];
+        const written: string[] = [];
+        const group = {
+            writeFrame: vi.fn(async (frame: any) => {
+                const bytes = new Uint8Array(frame.byteLength);
+                frame.copyTo(bytes);
+                written.push(new TextDecoder().decode(bytes));
+                return undefined;
+            }),
+            close: vi.fn(),
+        };
+        const track = {
+            trackName: "video",
+            openGroup: vi.fn().mockResolvedValue([group, undefined]),
+            close: vi.fn(),
+            closeWithError: vi.fn(),
+        };
+        await handler.serveTrack(new Promise(() => {}), track);
+
+        expect(track.openGroup).toHaveBeenCalledWith(7n);
+        expect(written).toEqual(["key", "delta"]);
+        expect(group.close).toHaveBeenCalledTimes(1);
+        expect(track.close).toHaveBeenCalled();
+
+        const missing = { ...track, trackName: "audio" };
+        await handler.serveTrack(new Promise(() => {}), missing);
+        expect(missing.closeWithError).toHaveBeenCalledWith(2, "track not found: audio");
+
+        expect(await replaying).toBeUndefined();
+    });
+
+    it("should read the archived tracks a piece at a time", async () => {
+        const store = new MemoryArchiveStore();
+        await record(store);
+        // Every record is cut across reads
+        const read = store.read.bind(store);
+        const spy = vi.spyOn(store, "read").mockImplementation((file, offset, length) => read(file, offset, length === undefined ? undefined : Math.min(length, 7)));
+        const replay = await ReplayPublisher.open(store);
+        if (replay instanceof Error) {
+            throw replay;
+        }
+
+        const publish = vi.fn();
+        replay.publish({ mux: { publish } } as any, "other-room", new Promise(() => {}));
+        await vi.waitFor(() => expect(publish).toHaveBeenCalled());
+        expect(spy).not.toHaveBeenCalledWith("track-1.jsonl", undefined, undefined);
+
+        const written: string[] = [];
+        const group = {
+            writeFrame: vi.fn(async (frame: any) => {
+                const bytes = new Uint8Array(frame.byteLength);
+                frame.copyTo(bytes);
+                written.push(new TextDecoder().decode(bytes));
+                return undefined;
+            }),
+            close: vi.fn(),
+        };
+        const track = {
+            trackName: "video",
+            openGroup: vi.fn().mockResolvedValue([group, undefined]),
+            close: vi.fn(),
+            closeWithError: vi.fn(),
+        };
+        await publish.mock.calls[0]![2].serveTrack(new Promise(() => {}), track);
+
+        expect(written).toEqual(["key", "delta"]);
+        expect(spy).toHaveBeenCalledWith("track-1.jsonl", 7, expect.any(Number));
+    });
+});
@@ -0,0 +1,506 @@
+import type { Session, TrackWriter, TrackHandler, GroupWriter, Frame } from "@okutanidaichi/moqt";
+import { InternalSubscribeErrorCode, TrackNotFoundErrorCode } from "@okutanidaichi/moqt";
+import type { Room } from "./room";
+import type { BroadcastSubscriber } from "./broadcast";
+import type { JoinedRemoteMember } from "./member";
+import { CATALOG_TRACK_NAME, CatalogLineSchema, CatalogInitSchema } from "./catalog";
+import { JsonLineDecoder, JsonLineEncoder, EncodedJsonChunk } from "./internal/json";
+import type { JsonValue } from "./internal/json";
+import { encodeBase64, decodeBase64, splitSignature } from "./internal/signature";
+import { sleep } from "./internal/timer";
+import type { ReadableTrack, ReadableFrame } from "./internal/reader";
+import type { BroadcastPathCodec } from "./path";
+import { DEFAULT_BROADCAST_PATH_CODEC } from "./path";
+import {
+    ARCHIVE_VERSION,
+    ARCHIVE_MANIFEST,
+    ArchiveManifestSchema,
+    ArchiveRecordSchema,
+} from "./archive";
+import type { ArchiveStore, ArchiveManifest, ArchivedBroadcast, ArchiveRecord } from "./archive";
+
+// Records every remote broadcast of a room, with the catalog and every track it lists,
+// into an archive that a ReplayPublisher can play back later.
+// Frames are stored as the room hands them over: verified, without their signatures, and decrypted.
+// Recordings of end-to-end encrypted rooms are thus stored in plaintext, and replay unsigned.
+export class RoomRecorder {
+    readonly room: Room;
+    #store: ArchiveStore;
+    #now: () => number;
+    #manifest?: ArchiveManifest;
+    #recording: Map<BroadcastSubscriber, ArchivedBroadcast> = new Map();
+    #files: number = 0;
+    #stop?: () => void;
+    // Manifest updates are written one after another
+    #saving: Promise<Error | undefined> = Promise.resolve(undefined);
+
+    constructor(room: Room, store: ArchiveStore, now: () => number = Date.now) {
+        this.room = room;
+        this.#store = store;
+        this.#now = now;
+    }
+
+    get recording(): boolean {
+        return this.#stop !== undefined;
+    }
+
+    async start(): Promise<Error | undefined> {
+        if (this.#stop) {
+            return new Error("archive: already recording");
+        }
+
+        this.#manifest = {
+            version: ARCHIVE_VERSION,
+            roomID: this.room.roomID,
+            startedAt: this.#now(),
+            broadcasts: [],
+        };
+        const err = await this.#save();
+        if (err) {
+            return err;
+        }
+
+        const done = new Promise<void>((resolve) => {
+            this.#stop = resolve;
+        });
+
+        // Subscribe before the snapshot so that no join is missed
+        const events = this.room.events(done);
+        for (const member of this.room.members()) {
+            if (member.remote) {
+                this.#record(member, done);
+            }
+        }
+
+        (async () => {
+            for await (const event of events) {
+                if (event.type === "join" && event.member.remote) {
+                    this.#record(event.member, done);
+                } else if (event.type === "leave" && event.member.remote) {
+                    for (const [broadcast, archived] of this.#recording) {
+                        if (archived.id === event.member.id) {
+                            this.#end(broadcast);
+                        }
+                    }
+                }
+            }
+        })();
+
+        return undefined;
+    }
+
+    // Stops recording and writes the final manifest
+    async stop(): Promise<Error | undefined> {
+        if (!this.#stop) {
+            return undefined;
+        }
+        this.#stop();
+        this.#stop = undefined;
+
+        for (const broadcast of Array.from(this.#recording.keys())) {
+            this.#end(broadcast);
+        }
+        const err = await this.#saving;
+        if (err) {
+            return err;
+        }
+        return await this.#store.flush();
+    }
+
+    #record(member: JoinedRemoteMember, done: Promise<void>): void {
+        if (this.#recording.has(member.broadcast)) {
+            return;
+        }
+
+        const archived: ArchivedBroadcast = {
+            id: member.id,
+            name: member.name,
+            path: member.broadcast.path,
+            joinedAt: this.#elapsed(),
+            tracks: [],
+        };
+        this.#recording.set(member.broadcast, archived);
+        this.#manifest!.broadcasts.push(archived);
+
+        const subscribe = (name: string) => {
+            if (archived.tracks.some((track) => track.name === name)) {
+                return;
+            }
+            const file = `track-${this.#files++}.jsonl`;
+            archived.tracks.push({ name, file });
+            this.#save();
+
+            const recorder = new TrackRecorder(this.#store, file, () => this.#elapsed(), name === CATALOG_TRACK_NAME ? (tracks) => {
+                // Follow the tracks listed in the catalog
+                for (const track of tracks) {
+                    subscribe(track);
+                }
+            } : undefined);
+            member.broadcast.subscribeTrack(name, recorder, done).then((err) => {
+                if (err) {
+                    console.warn(`[RoomRecorder] failed to record ${name} of ${member.id}: ${err}`);
+                }
+            });
+        };
+        subscribe(CATALOG_TRACK_NAME);
+    }
+
+    #end(broadcast: BroadcastSubscriber): void {
+        const archived = this.#recording.get(broadcast);
+        if (!archived) {
+            return;
+        }
+        this.#recording.delete(broadcast);
+        archived.leftAt = this.#elapsed();
+        this.#save();
+    }
+
+    #elapsed(): number {
+        return Math.max(0, this.#now() - this.#manifest!.startedAt);
+    }
+
+    #save(): Promise<Error | undefined> {
+        const data = new TextEncoder().encode(JSON.stringify(this.#manifest));
+        this.#saving = this.#saving.then(() => this.#store.write(ARCHIVE_MANIFEST, data));
+        return this.#saving;
+    }
+}
+
+// Appends the groups and frames of a track to a file as they arrive.
+// For the catalog, oncatalog is given the tracks each frame lists.
+class TrackRecorder {
+    #store: ArchiveStore;
+    #file: string;
+    #elapsed: () => number;
+    #oncatalog?: (tracks: string[]) => void;
+    #encoder: TextEncoder = new TextEncoder();
+
+    constructor(store: ArchiveStore, file: string, elapsed: () => number, oncatalog?: (tracks: string[]) => void) {
+        this.#store = store;
+        this.#file = file;
+        this.#elapsed = elapsed;
+        this.#oncatalog = oncatalog;
+    }
+
+    async decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        while (true) {
+            const [group, err] = await reader.acceptGroup(ctx);
+            if (err) {
+                return err;
+            }
+
+            const sequence = Number(group!.sequence);
+            try {
+                while (true) {
+                    let frame: ReadableFrame | undefined;
+                    let ferr: Error | undefined;
+                    [frame, ferr] = await group!.readFrame();
+                    if (ferr) {
+                        return ferr;
+                    }
+                    if (!frame) {
+                        break;
+                    }
+
+                    const bytes = this.#oncatalog ? unsignedCatalog(frame.bytes) : frame.bytes;
+                    const werr = await this.#write({ group: sequence, at: this.#elapsed(), data: encodeBase64(bytes) });
+                    if (werr) {
+                        return werr;
+                    }
+                    this.#oncatalog?.(catalogTracks(bytes));
+                }
+
+                const werr = await this.#write({ group: sequence, at: this.#elapsed(), end: true });
+                if (werr) {
+                    return werr;
+                }
+            } finally {
+                await group!.cancel(InternalSubscribeErrorCode, "group recorded");
+            }
+        }
+    }
+
+    #write(record: ArchiveRecord): Promise<Error | undefined> {
+        return this.#store.append(this.#file, this.#encoder.encode(JSON.stringify(record) + "\n"));
+    }
+}
+
+// The catalog frame without its signature line, and without the signed mark on the init line,
+// as the other tracks are recorded without their signatures
+function unsignedCatalog(frame: Uint8Array): Uint8Array {
+    const split = splitSignature(frame);
+    if (split instanceof Error) {
+        return frame;
+    }
+
+    let lines: JsonValue[];
+    try {
+        lines = new JsonLineDecoder().decode(new EncodedJsonChunk({ type: "jsonl", data: split[0] }));
+    } catch {
+        return split[0];
+    }
+    for (const line of lines) {
+        if (CatalogInitSchema.safeParse(line).success) {
+            delete (line as { signed?: boolean }).signed;
+        }
+    }
+    return new JsonLineEncoder().encode(lines).data;
+}
+
+function catalogTracks(frame: Uint8Array): string[] {
+    let lines: unknown[];
+    try {
+        lines = new JsonLineDecoder().decode(new EncodedJsonChunk({ type: "jsonl", data: frame }));
+    } catch {
+        return [];
+    }
+
+    const names: string[] = [];
+    for (const line of lines) {
+        const parsed = CatalogLineSchema.safeParse(line);
+        if (parsed.success && parsed.data.active) {
+            names.push(parsed.data.track.name);
+        }
+    }
+    return names;
+}
+
+// Plays an archive back by announcing the recorded broadcasts into a room again.
+// Broadcasts join and leave, and frames are written, with the original timing.
+export class ReplayPublisher {
+    readonly manifest: ArchiveManifest;
+    #store: ArchiveStore;
+
+    private constructor(store: ArchiveStore, manifest: ArchiveManifest) {
+        this.#store = store;
+        this.manifest = manifest;
+    }
+
+    static async open(store: ArchiveStore): Promise<ReplayPublisher | Error> {
+        const data = await store.read(ARCHIVE_MANIFEST);
+        if (data instanceof Error) {
+            return data;
+        }
+
+        let json: unknown;
+        try {
+            json = JSON.parse(new TextDecoder().decode(data));
+        } catch {
+            return new Error("archive: malformed manifest");
+        }
+
+        const { success, data: manifest } = ArchiveManifestSchema.safeParse(json);
+        if (!success) {
+            return new Error("archive: invalid manifest");
+        }
+
+        return new ReplayPublisher(store, manifest);
+    }
+
+    // Announces the archived broadcasts into a room on the session.
+    // Resolves once every broadcast has left again, or when done resolves.
+    async publish(session: Session, roomID: string, done: Promise<void>, codec: BroadcastPathCodec = DEFAULT_BROADCAST_PATH_CODEC): Promise<Error | undefined> {
+        const start = Date.now();
+
+        await Promise.all(this.manifest.broadcasts.map(async (broadcast) => {
+            // Track files are read as they are replayed
+            const tracks: Map<string, string> = new Map(broadcast.tracks.map((track) => [track.name, track.file]));
+
+            await sleep(start + broadcast.joinedAt - Date.now(), done);
+
+            let ended: Promise<void> = done;
+            if (broadcast.leftAt !== undefined) {
+                ended = Promise.race([done, sleep(start + broadcast.leftAt - Date.now())]);
+            }
+
+            session.mux.publish(ended, codec.format(roomID, broadcast.id), new ArchivedBroadcastHandler(this.#store, tracks, start));
+            await ended;
+        }));
+        return undefined;
+    }
+}
+
+const READ_SIZE = 64 * 1024;
+
+// Reads the records of a track file a piece at a time
+class RecordReader {
+    #store: ArchiveStore;
+    #file: string;
+    #offset: number = 0;
+    #decoder: TextDecoder = new TextDecoder();
+    #lines: string[] = [];
+    #partial: string = "";
+    #eof: boolean = false;
+
+    constructor(store: ArchiveStore, file: string) {
+        this.#store = store;
+        this.#file = file;
+    }
+
+    // Returns undefined at the end of the file
+    async next(): Promise<[ArchiveRecord | undefined, Error | undefined]> {
+        while (true) {
+            const line = this.#lines.shift();
+            if (line !== undefined) {
+                const record = parseRecord(line);
+                if (record) {
+                    return [record, undefined];
+                }
+                continue;
+            }
+            if (this.#eof) {
+                return [undefined, undefined];
+            }
+
+            const data = await this.#store.read(this.#file, this.#offset, READ_SIZE);
+            if (data instanceof Error) {
+                return [undefined, data];
+            }
+            this.#offset += data.byteLength;
+            this.#eof = data.byteLength === 0;
+
+            const lines = (this.#partial + this.#decoder.decode(data, { stream: !this.#eof })).split("\n");
+            this.#partial = this.#eof ? "" : lines.pop()!;
+            this.#lines = lines;
+        }
+    }
+}
+
+function parseRecord(line: string): ArchiveRecord | undefined {
+    if (line.length === 0) {
+        return undefined;
+    }
+    try {
+        const { success, data } = ArchiveRecordSchema.safeParse(JSON.parse(line));
+        return success ? data : undefined;
+    } catch {
+        // Skip a line cut short by an interrupted recording
+        return undefined;
+    }
+}
+
+// Serves the recorded tracks of one broadcast on the replay clock
+class ArchivedBroadcastHandler implements TrackHandler {
+    #store: ArchiveStore;
+    #tracks: Map<string, string>; // Track name to file
+    #start: number;
+
+    constructor(store: ArchiveStore, tracks: Map<string, string>, start: number) {
+        this.#store = store;
+        this.#tracks = tracks;
+        this.#start = start;
+    }
+
+    async serveTrack(ctx: Promise<void>, track: TrackWriter): Promise<void> {
+        const file = this.#tracks.get(track.trackName);
+        if (!file) {
+            track.closeWithError(TrackNotFoundErrorCode, `track not found: ${track.trackName}`);
+            return;
+        }
+        const reader = new RecordReader(this.#store, file);
+
+        // Groups over before the subscription are not replayed.
+        // The records of the ones still going are kept, to replay them from their start.
+        const elapsed = Date.now() - this.#start;
+        let pending: ArchiveRecord[] = [];
+        while (true) {
+            const [record, err] = await reader.next();
+            if (err) {
+                track.closeWithError(InternalSubscribeErrorCode, `failed to read ${track.trackName}: ${err.message}`);
+                return;
+            }
+            if (!record) {
+                break;
+            }
+
+            if (record.at >= elapsed) {
+                pending.push(record);
+                break;
+            }
+            if ("end" in record) {
+                pending = pending.filter((earlier) => earlier.group !== record.group);
+            } else {
+                pending.push(record);
+            }
+        }
+        const next = async (): Promise<[ArchiveRecord | undefined, Error | undefined]> => {
+            const record = pending.shift();
+            return record ? [record, undefined] : await reader.next();
+        };
+
+        let cancelled = false;
+        ctx.then(() => { cancelled = true; });
+
+        const groups: Map<number, GroupWriter> = new Map();
+        try {
+            while (true) {
+                const [record, rerr] = await next();
+                if (rerr) {
+                    track.closeWithError(InternalSubscribeErrorCode, `failed to read ${track.trackName}: ${rerr.message}`);
+                    return;
+                }
+                if (!record) {
+                    break;
+                }
+
+                await sleep(this.#start + record.at - Date.now(), ctx);
+                if (cancelled) {
+                    return;
+                }
+
+                let group = groups.get(record.group);
+                if (!group) {
+                    const [opened, err] = await track.openGroup(BigInt(record.group));
+                    if (err) {
+                        return;
+                    }
+                    group = opened!;
+                    groups.set(record.group, group);
+                }
+
+                if ("end" in record) {
+                    await group.close();
+                    groups.delete(record.group);
+                    continue;
+                }
+
+                const bytes = decodeBase64(record.data);
+                if (bytes instanceof Error) {
+                    continue;
+                }
+                const err = await group.writeFrame(new ArchivedFrame(bytes));
+                if (err) {
+                    return;
+                }
+            }
+        } finally {
+            for (const group of groups.values()) {
+                await group.close();
+            }
+        }
+
+        await track.close();
+    }
+}
+
+class ArchivedFrame implements Frame {
+    readonly bytes: Uint8Array;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+    }
+
+    get byteLength(): number {
+        return this.bytes.byteLength;
+    }
+
+    copyTo(dest: AllowSharedBufferSource): void {
+        if (dest instanceof Uint8Array) {
+            dest.set(this.bytes);
+        } else if (ArrayBuffer.isView(dest)) {
+            new Uint8Array(dest.buffer, dest.byteOffset, dest.byteLength).set(this.bytes);
+        } else {
+            new Uint8Array(dest as ArrayBufferLike).set(this.bytes);
+        }
+    }
+}
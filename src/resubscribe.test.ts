@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { keepSubscribed } from "./resubscribe";
+import type { TrackStateChange } from "./resubscribe";
+import { SignatureError } from "./internal/signature";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    SubscribeCanceledErrorCode: 2,
+}));
+
+function fakeTrack() {
+    return { closeWithError: vi.fn(async () => {}) } as any;
+}
+
+function stopper(): [Promise<void>, () => void] {
+    let stop!: () => void;
+    const stopped = new Promise<void>((resolve) => {
+        stop = resolve;
+    });
+    return [stopped, stop];
+}
+
+describe("keepSubscribed", () => {
+    it("should subscribe again after a failure", async () => {
+        const track = fakeTrack();
+        const subscribe = vi.fn()
+            .mockResolvedValueOnce([undefined, new Error("not found")])
+            .mockResolvedValueOnce([track, undefined]);
+        const decode = vi.fn(async () => undefined);
+        const states: TrackStateChange[] = [];
+        const [stop] = stopper();
+
+        const err = await keepSubscribed("video", subscribe, decode, stop, { initialDelayMs: 1 }, (change) => states.push(change));
+
+        expect(err).toBeUndefined();
+        expect(subscribe).toHaveBeenCalledTimes(2);
+        expect(track.closeWithError).toHaveBeenCalled();
+        expect(states.map((change) => change.state)).toEqual(["subscribing", "retrying", "active", "ended"]);
+        expect(states[1]!.error?.message).toBe("not found");
+    });
+
+    it("should subscribe again when the track is lost", async () => {
+        const subscribe = vi.fn(async () => [fakeTrack(), undefined] as any);
+        const decode = vi.fn()
+            .mockResolvedValueOnce(new Error("stream reset"))
+            .mockResolvedValueOnce(undefined);
+        const states: TrackStateChange[] = [];
+        const [stop] = stopper();
+
+        await keepSubscribed("video", subscribe, decode, stop, { initialDelayMs: 1 }, (change) => states.push(change));
+
+        expect(subscribe).toHaveBeenCalledTimes(2);
+        expect(states.map((change) => change.state)).toEqual(["subscribing", "active", "retrying", "active", "ended"]);
+    });
+
+    it("should give up after the maximum attempts", async () => {
+        const subscribe = vi.fn(async () => [undefined, new Error("unavailable")] as any);
+        const states: TrackStateChange[] = [];
+        const [stop] = stopper();
+
+        const err = await keepSubscribed("video", subscribe, vi.fn(), stop, { initialDelayMs: 1, maxAttempts: 3 }, (change) => states.push(change));
+
+        expect(err?.message).toBe("unavailable");
+        expect(subscribe).toHaveBeenCalledTimes(3);
+        expect(states.at(-1)).toMatchObject({ state: "failed", attempt: 3 });
+    });
+
+    it("should stop waiting once stopped", async () => {
+        const subscribe = vi.fn(async () => [undefined, new Error("unavailable")] as any);
+        const states: TrackStateChange[] = [];
+        const [stopped, stop] = stopper();
+
+        const done = keepSubscribed("video", subscribe, vi.fn(), stopped, { initialDelayMs: 60_000 }, (change) => states.push(change));
+        await vi.waitFor(() => expect(states.at(-1)?.state).toBe("retrying"));
+        stop();
+
+        expect(await done).toBeUndefined();
+        expect(subscribe).toHaveBeenCalledTimes(1);
+        expect(states.at(-1)?.state).toBe("ended");
+    });
+
+    it("should subscribe again without waiting once woken", async () => {
+        const subscribe = vi.fn()
+            .mockResolvedValueOnce([undefined, new Error("session lost")])
+            .mockResolvedValueOnce([fakeTrack(), undefined]);
+        const [woken, wake] = stopper();
+        const [stop] = stopper();
+
+        const done = keepSubscribed("video", subscribe, vi.fn(async () => undefined), stop, { initialDelayMs: 60_000 }, undefined, () => woken);
+        await vi.waitFor(() => expect(subscribe).toHaveBeenCalledTimes(1));
+        wake();
+
+        expect(await done).toBeUndefined();
+        expect(subscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not subscribe again to a track failing its signature check", async () => {
+        const subscribe = vi.fn(async () => [undefined, new SignatureError("invalid signature")] as any);
+        const states: TrackStateChange[] = [];
+        const [stop] = stopper();
+
+        const err = await keepSubscribed("video", subscribe, vi.fn(), stop, { initialDelayMs: 1 }, (change) => states.push(change));
+
+        expect(err).toBeInstanceOf(SignatureError);
+        expect(subscribe).toHaveBeenCalledTimes(1);
+        expect(states.at(-1)?.state).toBe("failed");
+    });
+});
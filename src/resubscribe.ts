@@ -0,0 +1,96 @@
+import { SubscribeCanceledErrorCode } from "@okutanidaichi/moqt";
+import { sleep, backoff } from "./internal/timer";
+import { SignatureError } from "./internal/signature";
+import type { TrackSubscription } from "./internal/reader";
+
+export interface ResubscribeInit {
+    initialDelayMs?: number; // Default: 500
+    maxDelayMs?: number; // Default: 10000
+    maxAttempts?: number; // Failures in a row before giving up. Default: unlimited
+}
+
+// subscribing: the first subscribe request is on its way
+// active: frames are being decoded
+// retrying: the subscription failed or was lost, and is made again after a delay
+// failed: gave up after too many failures
+// ended: the track ended in the catalog, or the subscription was no longer wanted
+export type TrackSubscriptionState = "subscribing" | "active" | "retrying" | "failed" | "ended";
+
+export interface TrackStateChange {
+    name: string;
+    state: TrackSubscriptionState;
+    attempt: number; // Failures in a row so far
+    error?: Error; // What made the subscription retry or fail
+}
+
+type Subscribe = () => Promise<[TrackSubscription, undefined] | [undefined, Error]>;
+
+type Decode = (ctx: Promise<void>, track: TrackSubscription) => Promise<Error | undefined>;
+
+// Subscribes to a track and decodes it, subscribing again with an exponential backoff
+// whenever the request fails or the track is lost, until stop resolves.
+// The backoff is cut short once the promise returned by wake, taken at each attempt, resolves.
+// Resolves with the last error when giving up.
+export async function keepSubscribed(
+    name: string,
+    subscribe: Subscribe,
+    decode: Decode,
+    stop: Promise<void>,
+    init: ResubscribeInit = {},
+    onstate?: (change: TrackStateChange) => void,
+    wake?: () => Promise<void>,
+): Promise<Error | undefined> {
+    const maxAttempts = init.maxAttempts ?? Infinity;
+    const maxDelay = init.maxDelayMs ?? 10_000;
+    const initialDelay = init.initialDelayMs ?? 500;
+
+    let stopped = false;
+    stop.then(() => {
+        stopped = true;
+    });
+
+    let delay = initialDelay;
+    let attempt = 0;
+    onstate?.({ name, state: "subscribing", attempt });
+
+    while (true) {
+        const woken = wake?.();
+        const [track, err] = await subscribe();
+        if (stopped) {
+            await track?.closeWithError(SubscribeCanceledErrorCode, "subscription ended");
+            break;
+        }
+
+        let failure = err;
+        if (track) {
+            onstate?.({ name, state: "active", attempt: 0 });
+            attempt = 0;
+            delay = initialDelay;
+
+            failure = await decode(stop, track);
+
+            // When the decoder is done, ensure to close the track
+            await track.closeWithError(SubscribeCanceledErrorCode, "decoder closed");
+            if (stopped || !failure) {
+                break;
+            }
+        }
+
+        attempt++;
+        // Tracks failing their signature check are not subscribed again
+        if (attempt >= maxAttempts || failure instanceof SignatureError) {
+            onstate?.({ name, state: "failed", attempt, error: failure });
+            return failure;
+        }
+        onstate?.({ name, state: "retrying", attempt, error: failure });
+
+        await sleep(delay, woken ? Promise.race([stop, woken]) : stop);
+        if (stopped) {
+            break;
+        }
+        delay = backoff(delay, maxDelay);
+    }
+
+    onstate?.({ name, state: "ended", attempt });
+    return undefined;
+}
@@ -1,9 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Room,participantName,broadcastPath } from "./room";
+import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
+import { Room,participantName,broadcastPath,memberID } from "./room";
+import { AuthError, StaticTokenProvider } from "./auth";
+import { BroadcastPublisher, BroadcastSubscriber } from "./broadcast";
+import { withCancelCause } from "golikejs/context";
+import { signCommand } from "./moderation";
+import { AdmissionDeniedError } from "./lobby";
+import { SignalDecoder, eventsTrackDescriptor } from "./signals";
+import { SpeakerDetector } from "./speakers";
 
 vi.mock("@okutanidaichi/moqt", () => ({
     validateBroadcastPath: vi.fn((path: string) => path),
     InternalAnnounceErrorCode: 1,
+    SubscribeCanceledErrorCode: 2,
+    InternalSubscribeErrorCode: 3,
 }));
 
 vi.mock("golikejs/context", () => ({
@@ -16,11 +25,15 @@ vi.mock("golikejs/context", () => ({
 }));
 
 vi.mock("./broadcast", () => ({
-    BroadcastPublisher: vi.fn().mockImplementation(() => ({
+    BroadcastPublisher: vi.fn().mockImplementation((_name: string, init?: { id?: string }) => ({
+        id: init?.id ?? "test-publisher",
         name: "test-publisher",
+        close: vi.fn(),
     })),
-    BroadcastSubscriber: vi.fn().mockImplementation(() => ({
+    BroadcastSubscriber: vi.fn().mockImplementation((path: string) => ({
+        id: path,
         name: "test-subscriber",
+        displayName: vi.fn().mockResolvedValue("test-subscriber"),
         close: vi.fn(),
     })),
 }));
@@ -33,6 +46,11 @@ vi.mock("./internal/audio_offload_worklet", () => ({
     importUrl: vi.fn(() => "mock-url"),
 }));
 
+// Commands the host of test-room signed in its current session
+function hostScope() {
+    return { roomID: "test-room", epoch: 1, expiresAt: Date.now() + 60_000 };
+}
+
 describe("Room", () => {
     let room: Room;
     const mockSession = {
@@ -42,7 +60,8 @@ describe("Room", () => {
         acceptAnnounce: vi.fn(),
     };
     const mockLocal = {
-        name: "local-user",
+        id: "local-user",
+        name: "Local User",
     };
 
     beforeEach(() => {
@@ -64,10 +83,12 @@ describe("Room", () => {
     describe("join", () => {
         it("should join the room", async () => {
             const mockAnnouncementReader = {
-                receive: vi.fn().mockResolvedValue([{
-                    broadcastPath: "/test-room/local-user.hang",
-                    ended: vi.fn().mockResolvedValue(undefined),
-                }, null] as any),
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/test-room/local-user.hang",
+                        ended: vi.fn().mockResolvedValue(undefined),
+                    }, null] as any)
+                    .mockResolvedValue([null, new Error("Reader closed")]),
                 close: vi.fn(),
             };
             mockSession.acceptAnnounce.mockResolvedValue([mockAnnouncementReader, null] as any);
@@ -102,6 +123,8 @@ describe("Room", () => {
 
 vi.mock('@okutanidaichi/moqt', () => ({
   validateBroadcastPath: vi.fn((p: string) => p),
+  SubscribeCanceledErrorCode: 2,
+  InternalSubscribeErrorCode: 3,
 }));
 
 import * as moqt from '@okutanidaichi/moqt';
@@ -121,6 +144,21 @@ describe('room utils', () => {
     // when name contains dots or dashes
     expect(participantName('room-x', '/room-x/john.doe.hang')).toBe('john.doe');
   });
+
+  it('broadcastPath percent-encodes the member ID', () => {
+    expect(broadcastPath('myroom', 'a/b c')).toBe('/myroom/a%2Fb%20c.hang');
+  });
+
+  it('memberID round-trips IDs containing slashes and the extension', () => {
+    for (const id of ['a/b', 'x.hang', 'name.hang.hang', 'ユーザー']) {
+      expect(memberID('myroom', broadcastPath('myroom', id))).toBe(id);
+    }
+  });
+
+  it('memberID rejects paths outside the room', () => {
+    expect(() => memberID('myroom', '/other/alice.hang')).toThrow();
+    expect(() => memberID('myroom', '/myroom/alice')).toThrow();
+  });
 });
 
 describe("Room - Advanced Tests", () => {
@@ -132,7 +170,8 @@ describe("Room - Advanced Tests", () => {
         acceptAnnounce: vi.fn(),
     };
     const mockLocal = {
-        name: "local-user",
+        id: "local-user",
+        name: "Local User",
     };
     let onJoinSpy: any;
     let onLeaveSpy: any;
@@ -166,7 +205,8 @@ describe("Room - Advanced Tests", () => {
 
             expect(onJoinSpy).toHaveBeenCalledWith({
                 remote: false,
-                name: "local-user",
+                id: "local-user",
+                name: "Local User",
             });
         });
 
@@ -184,7 +224,7 @@ describe("Room - Advanced Tests", () => {
 
             await room.join(mockSession as any, mockLocal as any);
 
-            expect(onJoinSpy).toHaveBeenCalled();
+            await vi.waitFor(() => expect(onJoinSpy).toHaveBeenCalled());
         });
 
         it("should handle acceptAnnounce failure", async () => {
@@ -213,7 +253,7 @@ describe("Room - Advanced Tests", () => {
             await room.join(mockSession as any, mockLocal as any);
 
             // Should have called onJoin for both remotes
-            expect(onJoinSpy).toHaveBeenCalledTimes(2);
+            await vi.waitFor(() => expect(onJoinSpy).toHaveBeenCalledTimes(2));
         });
     });
 
@@ -278,7 +318,8 @@ describe("Room - Advanced Tests", () => {
 
             expect(onJoinSpy).toHaveBeenCalledWith({
                 remote: false,
-                name: "local-user",
+                id: "local-user",
+                name: "Local User",
             });
         });
 
@@ -299,7 +340,9 @@ describe("Room - Advanced Tests", () => {
 
             expect(onLeaveSpy).toHaveBeenCalledWith({
                 remote: false,
-                name: "local-user",
+                id: "local-user",
+                name: "Local User",
+                reason: "graceful",
             });
         });
 
@@ -398,3 +441,1182 @@ describe("Room - Advanced Tests", () => {
         });
     });
 });
+
+describe("Room - Authentication", () => {
+    const mockLocal = {
+        id: "local-user",
+        name: "Local User",
+    };
+    let mockSession: any;
+
+    beforeEach(() => {
+        const mockAnnouncementReader = {
+            receive: vi.fn()
+                .mockResolvedValueOnce([{
+                    broadcastPath: "/test-room/local-user.hang",
+                    ended: vi.fn().mockResolvedValue(undefined),
+                }, null] as any)
+                .mockResolvedValue([null, new Error("Reader closed")]),
+            close: vi.fn(),
+        };
+        mockSession = {
+            mux: {
+                publish: vi.fn(),
+            },
+            acceptAnnounce: vi.fn().mockResolvedValue([mockAnnouncementReader, null] as any),
+        };
+    });
+
+    it("should send the token with publish and acceptAnnounce", async () => {
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn() },
+            auth: new StaticTokenProvider("secret"),
+        });
+
+        await room.join(mockSession, mockLocal as any);
+
+        expect(mockSession.mux.publish).toHaveBeenCalledWith(
+            expect.anything(), "/test-room/local-user.hang", mockLocal, { token: "secret" },
+        );
+        expect(mockSession.acceptAnnounce).toHaveBeenCalledWith("/test-room/", { token: "secret" });
+    });
+
+    it("should reject with AuthError when the token is rejected", async () => {
+        const invalidate = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn() },
+            auth: {
+                token: vi.fn().mockResolvedValue("expired"),
+                invalidate,
+                isUnauthorized: (err: Error) => (err as { code?: number }).code === 401,
+            },
+        });
+        const rejected = Object.assign(new Error("unauthorized"), { code: 401 });
+        mockSession.acceptAnnounce.mockResolvedValue([null, rejected]);
+
+        await expect(room.join(mockSession, mockLocal as any)).rejects.toBeInstanceOf(AuthError);
+        expect(invalidate).toHaveBeenCalled();
+    });
+
+    it("should reject with AuthError when the provider fails", async () => {
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn() },
+            auth: { token: vi.fn().mockRejectedValue(new Error("offline")) },
+        });
+
+        await expect(room.join(mockSession, mockLocal as any)).rejects.toBeInstanceOf(AuthError);
+        expect(mockSession.acceptAnnounce).not.toHaveBeenCalled();
+    });
+});
+
+describe("Room - Reconnection", () => {
+    const mockLocal = {
+        id: "local-user",
+        name: "Local User",
+    };
+
+    // Contexts that actually observe cancellation, so session loss can be told apart from leave
+    const cancellableContext = (parent?: any) => {
+        let err: Error | undefined;
+        let resolve!: () => void;
+        const done = new Promise<void>((r) => { resolve = r; });
+        const cancel = vi.fn((cause?: Error) => {
+            if (err) return;
+            err = cause ?? new Error("cancelled");
+            resolve();
+        });
+        parent?.done?.().then(() => cancel(parent.err()));
+        return [{ done: () => done, err: () => err }, cancel];
+    };
+
+    const announcement = (path: string, ended: Promise<void>) => ({
+        broadcastPath: path,
+        ended: vi.fn(() => ended),
+    });
+
+    let loseSession: () => void;
+    let lost: Promise<void>;
+
+    beforeEach(() => {
+        vi.mocked(withCancelCause).mockImplementation(cancellableContext as any);
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: memberID("test-room", path),
+            displayName: vi.fn().mockResolvedValue(memberID("test-room", path)),
+            close: vi.fn(),
+            reconnect: vi.fn(),
+        })) as any);
+        lost = new Promise<void>((resolve) => { loseSession = resolve; });
+    });
+
+    const firstSession = (remotes: string[]) => {
+        const reader = {
+            receive: vi.fn()
+                .mockResolvedValueOnce([announcement("/test-room/local-user.hang", lost), null])
+                .mockImplementation(async () => {
+                    const path = remotes.shift();
+                    if (path) {
+                        return [announcement(path, lost), null];
+                    }
+                    await lost;
+                    return [null, new Error("session closed")];
+                }),
+            close: vi.fn(),
+        };
+        return {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([reader, null]),
+        };
+    };
+
+    const nextSession = (remotes: string[]) => {
+        // Announcements on the new session end once the room leaves
+        let closed!: Promise<void>;
+        const reader = {
+            receive: vi.fn()
+                .mockImplementationOnce(async (signal: Promise<void>) => {
+                    closed = signal;
+                    return [announcement("/test-room/local-user.hang", signal), null];
+                })
+                .mockImplementation(async (signal: Promise<void>) => {
+                    const path = remotes.shift();
+                    if (path) {
+                        return [announcement(path, closed), null];
+                    }
+                    await signal;
+                    return [null, new Error("context cancelled")];
+                }),
+            close: vi.fn(),
+        };
+        return {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([reader, null]),
+        };
+    };
+
+    const waitFor = async (check: () => boolean) => {
+        for (let i = 0; i < 100 && !check(); i++) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+    };
+
+    it("should reconnect without firing onLeave/onJoin for members who stayed", async () => {
+        const onJoin = vi.fn();
+        const onLeave = vi.fn();
+        const onstate = vi.fn();
+        const session2 = nextSession(["/test-room/remote-a.hang"]);
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave },
+            onstate,
+            reconnect: {
+                session: vi.fn().mockResolvedValue(session2),
+                initialDelayMs: 0,
+                reconcileMs: 20,
+                endedGraceMs: 20,
+            },
+        });
+
+        await room.join(firstSession(["/test-room/remote-a.hang"]) as any, mockLocal as any);
+        await waitFor(() => onJoin.mock.calls.length === 2);
+
+        loseSession();
+        await waitFor(() => room.state === "reconnected");
+        await new Promise((resolve) => setTimeout(resolve, 40));
+
+        expect(onstate.mock.calls.map((c) => c[0])).toEqual(["connected", "reconnecting", "reconnected"]);
+        expect(onJoin).toHaveBeenCalledTimes(2);
+        expect(onLeave).not.toHaveBeenCalled();
+        expect(session2.mux.publish).toHaveBeenCalled();
+
+        await room.leave();
+    });
+
+    it("should report members that did not come back as left", async () => {
+        const onJoin = vi.fn();
+        const onLeave = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave },
+            reconnect: {
+                session: vi.fn().mockResolvedValue(nextSession([])),
+                initialDelayMs: 0,
+                reconcileMs: 10,
+                endedGraceMs: 20,
+            },
+        });
+
+        await room.join(firstSession(["/test-room/remote-a.hang"]) as any, mockLocal as any);
+        await waitFor(() => onJoin.mock.calls.length === 2);
+
+        loseSession();
+        await waitFor(() => onLeave.mock.calls.length > 0);
+
+        expect(onLeave).toHaveBeenCalledTimes(1);
+        expect(onLeave).toHaveBeenCalledWith({ remote: true, id: "remote-a", name: "remote-a", reason: "timeout" });
+
+        await room.leave();
+    });
+
+    it("should report disconnected when reconnection is not configured", async () => {
+        const onstate = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn() },
+            onstate,
+        });
+
+        await room.join(firstSession([]) as any, mockLocal as any);
+        loseSession();
+        await waitFor(() => room.state === "disconnected");
+
+        expect(onstate).toHaveBeenLastCalledWith("disconnected");
+    });
+});
+
+describe("Room - Spectator", () => {
+    it("should join without publishing and notify every remote", async () => {
+        const onJoin = vi.fn();
+        const onLeave = vi.fn();
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/test-room/speaker.hang",
+                        ended: vi.fn().mockResolvedValue(undefined),
+                    }, null] as any)
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave },
+        });
+
+        await room.join(mockSession as any);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(mockSession.mux.publish).not.toHaveBeenCalled();
+        expect(mockSession.acceptAnnounce).toHaveBeenCalledWith("/test-room/", undefined);
+        expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ remote: true }));
+        expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ remote: true }));
+        expect(onJoin).not.toHaveBeenCalledWith(expect.objectContaining({ remote: false }));
+    });
+
+    it("should resolve as soon as the announcement stream is open", async () => {
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn(() => new Promise(() => {})),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn() },
+        });
+
+        await expect(room.join(mockSession as any)).resolves.toBeUndefined();
+    });
+});
+
+describe("Room - Member identity", () => {
+    it("should report the display name separately from the member ID", async () => {
+        const onJoin = vi.fn();
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/test-room/tab-1.hang",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/test-room/tab-2.hang",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Alice",
+            displayName: vi.fn().mockResolvedValue("Alice"),
+            close: vi.fn(),
+        })) as any);
+
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave: vi.fn() },
+        });
+
+        await room.join(mockSession as any);
+
+        // Two tabs with the same display name do not evict each other
+        await vi.waitFor(() => expect(onJoin).toHaveBeenCalledTimes(2));
+        expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: "tab-1", name: "Alice" }));
+        expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: "tab-2", name: "Alice" }));
+    });
+
+    it("should fall back to the member ID when the display name is not available", async () => {
+        const onJoin = vi.fn();
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/test-room/tab-1.hang",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            displayName: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave: vi.fn() },
+            displayNameTimeoutMs: 10,
+        });
+
+        await room.join(mockSession as any);
+
+        await vi.waitFor(() => expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: "tab-1", name: "tab-1" })));
+    });
+});
+
+describe("Room - Broadcast path codec", () => {
+    it("should use the configured codec for publishing, announcements and filtering", async () => {
+        const onJoin = vi.fn();
+        const codec = {
+            prefix: (roomID: string) => `/tenant-a/${roomID}/`,
+            format: (roomID: string, id: string) => `/tenant-a/${roomID}/${id}`,
+            parse: (roomID: string, path: string) => {
+                const prefix = `/tenant-a/${roomID}/`;
+                return path.startsWith(prefix) ? path.slice(prefix.length) : undefined;
+            },
+            control: (roomID: string) => `/tenant-a/${roomID}/.control`,
+        };
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/tenant-a/test-room/local-user",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/tenant-b/test-room/stranger",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValueOnce([{
+                        broadcastPath: "/tenant-a/test-room/bob",
+                        ended: vi.fn(() => new Promise(() => {})),
+                    }, null] as any)
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string, roomID: string, _session: any, init: { codec: typeof codec }) => ({
+            id: init.codec.parse(roomID, path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            close: vi.fn(),
+        })) as any);
+
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave: vi.fn() },
+            codec: codec as any,
+        });
+        vi.mocked(BroadcastSubscriber).mockClear();
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+
+        expect(mockSession.mux.publish).toHaveBeenCalledWith(expect.anything(), "/tenant-a/test-room/local-user", expect.anything(), undefined);
+        expect(mockSession.acceptAnnounce).toHaveBeenCalledWith("/tenant-a/test-room/", undefined);
+        expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ remote: false, id: "local-user" }));
+        await vi.waitFor(() => expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ remote: true, id: "bob" })));
+        // The other tenant's broadcast is ignored
+        expect(BroadcastSubscriber).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("Room - Member roster", () => {
+    let endLocal: () => void;
+    const remoteSession = () => ({
+        mux: { publish: vi.fn() },
+        acceptAnnounce: vi.fn().mockResolvedValue([{
+            receive: vi.fn()
+                .mockResolvedValueOnce([{
+                    broadcastPath: "/test-room/local-user.hang",
+                    ended: vi.fn(() => new Promise<void>((resolve) => { endLocal = resolve; })),
+                }, null] as any)
+                .mockResolvedValueOnce([{
+                    broadcastPath: "/test-room/bob.hang",
+                    ended: vi.fn(() => new Promise(() => {})),
+                }, null] as any)
+                .mockResolvedValue([null, new Error("Reader closed")]),
+            close: vi.fn(),
+        }, null] as any),
+    });
+
+    beforeEach(() => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            close: vi.fn(),
+        })) as any);
+    });
+
+    it("should return a snapshot of the current members", async () => {
+        const room = new Room({ roomID: "test-room" });
+        expect(room.members()).toEqual([]);
+
+        await room.join(remoteSession() as any, { id: "local-user", name: "Local User" } as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+
+        expect(room.members()).toEqual([
+            expect.objectContaining({ remote: false, id: "local-user", name: "Local User" }),
+            expect.objectContaining({ remote: true, id: "bob", name: "Bob" }),
+        ]);
+    });
+
+    it("should deliver events to independent subscribers", async () => {
+        const room = new Room({ roomID: "test-room" });
+        const ui = room.events();
+        const analytics = room.events();
+
+        await room.join(remoteSession() as any, { id: "local-user", name: "Local User" } as any);
+
+        expect(await ui.next()).toEqual({ value: expect.objectContaining({ type: "join", member: expect.objectContaining({ id: "local-user" }) }), done: false });
+        expect(await ui.next()).toEqual({ value: expect.objectContaining({ type: "join", member: expect.objectContaining({ id: "bob" }) }), done: false });
+
+        // Stopping one consumer does not affect the other
+        await ui.return!();
+        expect(await analytics.next()).toEqual({ value: expect.objectContaining({ type: "join" }), done: false });
+        expect(await analytics.next()).toEqual({ value: expect.objectContaining({ type: "join" }), done: false });
+
+        endLocal();
+        await room.leave();
+        const left = await analytics.next();
+        expect(left.value).toEqual(expect.objectContaining({ type: "leave" }));
+        expect(room.members()).toEqual([]);
+    });
+
+    it("should notify both the handler and the event stream", async () => {
+        const onJoin = vi.fn();
+        const room = new Room({ roomID: "test-room", onmember: { onJoin, onLeave: vi.fn() } });
+        const events = room.events();
+
+        await room.join(remoteSession() as any, { id: "local-user", name: "Local User" } as any);
+
+        expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: "local-user" }));
+        expect((await events.next()).value).toEqual({ type: "join", member: expect.objectContaining({ id: "local-user" }) });
+    });
+});
+
+describe("Room - Moderation", () => {
+    let host: CryptoKeyPair;
+
+    // Delivers the given lines as a single frame
+    const controlTrack = (lines: unknown[]) => ({
+        acceptGroup: vi.fn()
+            .mockResolvedValueOnce([{
+                readFrame: vi.fn()
+                    .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) }, undefined])
+                    .mockResolvedValue([undefined, undefined]),
+                cancel: vi.fn(),
+            }, undefined])
+            .mockResolvedValue([undefined, new Error("track ended")]),
+        closeWithError: vi.fn(),
+    });
+
+    const announced = (path: string) => [{
+        broadcastPath: path,
+        ended: vi.fn(() => new Promise(() => {})),
+    }, null] as any;
+
+    beforeAll(async () => {
+        host = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    });
+
+    beforeEach(() => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: memberID("test-room", path),
+            displayName: vi.fn().mockResolvedValue(memberID("test-room", path)),
+            subscribeTrack: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+    });
+
+    it("should remove a member kicked by the host", async () => {
+        const onLeave = vi.fn();
+        const oncommand = vi.fn();
+        const kick = await signCommand(host.privateKey, { seq: 1, type: "kick", target: "bob" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/bob.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/control"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([kick]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave },
+            moderation: { hostKey: host.publicKey, oncommand },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+
+        await vi.waitFor(() => expect(mockSession.subscribe).toHaveBeenCalledWith("/test-room/control", "moderation", undefined));
+        await vi.waitFor(() => expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ remote: true, id: "bob", reason: "evicted" })));
+        expect(oncommand).toHaveBeenCalledWith({ seq: 1, type: "kick", target: "bob" });
+        // The control broadcast is not a member
+        expect(BroadcastSubscriber).not.toHaveBeenCalledWith("/test-room/control", expect.anything(), expect.anything(), expect.anything(), expect.anything());
+    });
+
+    it("should leave the room when the local member is kicked", async () => {
+        const onLeave = vi.fn();
+        const kick = await signCommand(host.privateKey, { seq: 1, type: "kick", target: "local-user" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/control"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([kick]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave },
+            moderation: { hostKey: host.publicKey },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+
+        await vi.waitFor(() => expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ remote: false, id: "local-user", reason: "evicted" })));
+    });
+
+    it("should ignore members joining a locked room", async () => {
+        const onJoin = vi.fn();
+        const lock = await signCommand(host.privateKey, { seq: 1, type: "lock", locked: true, members: ["host", "local-user"] }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/control"))
+                    .mockImplementationOnce(async () => {
+                        await new Promise((resolve) => setTimeout(resolve, 50));
+                        return announced("/test-room/carol.hang");
+                    })
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([lock]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave: vi.fn() },
+            moderation: { hostKey: host.publicKey },
+        });
+        vi.mocked(BroadcastSubscriber).mockClear();
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(BroadcastSubscriber).not.toHaveBeenCalled();
+    });
+
+    it("should ignore commands not signed by the host", async () => {
+        const onLeave = vi.fn();
+        const impostor = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+        const kick = await signCommand(impostor.privateKey, { seq: 1, type: "kick", target: "local-user" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/control"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([kick]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave },
+            moderation: { hostKey: host.publicKey },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(onLeave).not.toHaveBeenCalled();
+    });
+
+    it("should publish the control broadcast and read replies as host", async () => {
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/bob.hang"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            moderation: { hostKey: host.publicKey, signingKey: host.privateKey },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+
+        expect(room.moderator).toBeDefined();
+        expect(mockSession.mux.publish).toHaveBeenCalledWith(expect.anything(), "/test-room/control", room.moderator, undefined);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+        const bob = room.members().find((member) => member.id === "bob");
+        expect(bob?.remote && bob.broadcast.subscribeTrack).toHaveBeenCalledWith("moderation", expect.anything());
+    });
+});
+
+describe("Room - Lobby", () => {
+    let host: CryptoKeyPair;
+
+    // Delivers the given lines as a single frame
+    const controlTrack = (lines: unknown[]) => ({
+        acceptGroup: vi.fn()
+            .mockResolvedValueOnce([{
+                readFrame: vi.fn()
+                    .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) }, undefined])
+                    .mockResolvedValue([undefined, undefined]),
+                cancel: vi.fn(),
+            }, undefined])
+            .mockResolvedValue([undefined, new Error("track ended")]),
+        closeWithError: vi.fn(),
+    });
+
+    const announced = (path: string) => [{
+        broadcastPath: path,
+        ended: vi.fn(() => new Promise(() => {})),
+    }, null] as any;
+
+    beforeAll(async () => {
+        host = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    });
+
+    beforeEach(() => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string, roomID: string) => ({
+            id: path.slice(`/${roomID}/`.length, -".hang".length),
+            name: "Pending",
+            displayName: vi.fn().mockResolvedValue("Pending"),
+            subscribeTrack: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+    });
+
+    it("should wait in the lobby and enter the room once admitted", async () => {
+        const admit = await signCommand(host.privateKey, { seq: 1, type: "admit", target: "local-user" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([admit]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            moderation: { hostKey: host.publicKey, lobby: {} },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+
+        expect(mockSession.mux.publish.mock.calls.map((call) => call[1])).toEqual([
+            "/test-room/lobby/local-user.hang",
+            "/test-room/local-user.hang",
+        ]);
+        expect(room.members()).toEqual([expect.objectContaining({ remote: false, id: "local-user" })]);
+    });
+
+    it("should reject the join when the host denies it", async () => {
+        const deny = await signCommand(host.privateKey, { seq: 1, type: "deny", target: "local-user", reason: "private meeting" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn(),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([deny]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            moderation: { hostKey: host.publicKey, lobby: {} },
+        });
+
+        const err = await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any).catch((e) => e);
+
+        expect(err).toBeInstanceOf(AdmissionDeniedError);
+        expect(err.reason).toBe("private meeting");
+        expect(mockSession.acceptAnnounce).not.toHaveBeenCalled();
+    });
+
+    it("should hold back members until their admission arrives", async () => {
+        const onJoin = vi.fn();
+        const admit = await signCommand(host.privateKey, { seq: 1, type: "admit", target: "bob" }, hostScope());
+        const admitSpectator = await signCommand(host.privateKey, { seq: 2, type: "admit", target: "spectator" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce(announced("/test-room/bob.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/mallory.hang"))
+                    .mockResolvedValueOnce(announced("/test-room/control"))
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+            // The lobby and the room each read the control track
+            subscribe: vi.fn(async () => [controlTrack([admit, admitSpectator]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin, onLeave: vi.fn() },
+            moderation: { hostKey: host.publicKey, lobby: { spectator: { id: "spectator" } } },
+        });
+
+        await room.join(mockSession as any);
+
+        await vi.waitFor(() => expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: "bob" })));
+        expect(onJoin).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hold spectators in the lobby until admitted", async () => {
+        const deny = await signCommand(host.privateKey, { seq: 1, type: "deny", target: "viewer" }, hostScope());
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn(),
+            subscribe: vi.fn().mockResolvedValue([controlTrack([deny]), undefined]),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            moderation: { hostKey: host.publicKey, lobby: { spectator: { id: "viewer", name: "Viewer" } } },
+        });
+
+        const err = await room.join(mockSession as any).catch((e) => e);
+
+        expect(err).toBeInstanceOf(AdmissionDeniedError);
+        expect(BroadcastPublisher).toHaveBeenCalledWith("Viewer", { id: "viewer" });
+        expect(mockSession.mux.publish.mock.calls.map((call) => call[1])).toEqual(["/test-room/lobby/viewer.hang"]);
+        expect(vi.mocked(BroadcastPublisher).mock.results.at(-1)?.value.close).toHaveBeenCalled();
+        expect(mockSession.acceptAnnounce).not.toHaveBeenCalled();
+    });
+
+    it("should report pending members to the host", async () => {
+        const onpending = vi.fn();
+        const lobbyReceive = vi.fn()
+            .mockResolvedValueOnce(announced("/test-room/lobby/carol.hang"))
+            .mockImplementation(() => new Promise(() => {}));
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn(async (prefix: string) => {
+                if (prefix === "/test-room/lobby/") {
+                    return [{ receive: lobbyReceive, close: vi.fn() }, null];
+                }
+                return [{
+                    receive: vi.fn()
+                        .mockResolvedValueOnce(announced("/test-room/host.hang"))
+                        .mockImplementation(() => new Promise(() => {})),
+                    close: vi.fn(),
+                }, null];
+            }),
+        };
+        const room = new Room({
+            roomID: "test-room",
+            moderation: { hostKey: host.publicKey, signingKey: host.privateKey, lobby: { onpending } },
+        });
+
+        await room.join(mockSession as any, { id: "host", name: "Host" } as any);
+
+        await vi.waitFor(() => expect(onpending).toHaveBeenCalledWith(expect.objectContaining({ id: "carol", name: "Pending" })));
+        const pending = onpending.mock.calls[0]![0];
+        expect(await pending.admit()).toBeUndefined();
+        expect(pending.broadcast.close).toHaveBeenCalled();
+    });
+});
+
+describe("Room - Chat", () => {
+    const announced = (path: string) => [{
+        broadcastPath: path,
+        ended: vi.fn(() => new Promise(() => {})),
+    }, null] as any;
+
+    const mockSession = () => ({
+        mux: { publish: vi.fn() },
+        acceptAnnounce: vi.fn().mockResolvedValue([{
+            receive: vi.fn()
+                .mockResolvedValueOnce(announced("/test-room/local-user.hang"))
+                .mockResolvedValueOnce(announced("/test-room/bob.hang"))
+                .mockResolvedValue([null, new Error("Reader closed")]),
+            close: vi.fn(),
+        }, null] as any),
+    });
+
+    it("should merge the local and remote chat into one ordered stream", async () => {
+        const subscribeTrack = vi.fn(async (_name: string, decoder: any) => {
+            const line = JSON.stringify({ id: "b1", timestamp: 1, author: "bob", text: "earlier" });
+            await decoder.decodeFrom(new Promise(() => {}), {
+                acceptGroup: vi.fn()
+                    .mockResolvedValueOnce([{
+                        readFrame: vi.fn()
+                            .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(line) }, undefined])
+                            .mockResolvedValue([undefined, undefined]),
+                        cancel: vi.fn(),
+                    }, undefined])
+                    .mockImplementation(() => new Promise(() => {})),
+            });
+            return undefined;
+        });
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            subscribeTrack,
+            close: vi.fn(),
+        })) as any);
+        const local = {
+            id: "local-user",
+            name: "Local User",
+            chat: { send: vi.fn((text: string) => ({ id: "l1", timestamp: 2, author: "local-user", text })) },
+        };
+        const room = new Room({ roomID: "test-room" });
+
+        await room.join(mockSession() as any, local as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+        expect(subscribeTrack).not.toHaveBeenCalled();
+
+        const messages = room.messages();
+        expect(subscribeTrack).toHaveBeenCalledWith("chat", expect.anything());
+        await vi.waitFor(() => expect(room.chatHistory()).toHaveLength(1));
+
+        expect(room.sendMessage("later")).toEqual(expect.objectContaining({ id: "l1" }));
+        expect((await messages.next()).value).toEqual(expect.objectContaining({ id: "b1", author: "bob" }));
+        expect((await messages.next()).value).toEqual(expect.objectContaining({ id: "l1", text: "later" }));
+
+        // Late consumers get the backfill
+        const late = room.messages();
+        expect((await late.next()).value.id).toBe("b1");
+    });
+
+    it("should not let spectators send messages", async () => {
+        const room = new Room({ roomID: "test-room" });
+
+        expect(room.sendMessage("hello")).toBeInstanceOf(Error);
+    });
+});
+
+describe("Room - Signals", () => {
+    it("should keep the hand queue of local and remote members", async () => {
+        const subscribeTrack = vi.fn(async (_name: string, decoder: any) => {
+            const line = JSON.stringify({ type: "hand", raised: true, timestamp: 1 });
+            await decoder.decodeFrom(new Promise(() => {}), {
+                acceptGroup: vi.fn()
+                    .mockResolvedValueOnce([{
+                        readFrame: vi.fn()
+                            .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(line) }, undefined])
+                            .mockResolvedValue([undefined, undefined]),
+                        cancel: vi.fn(),
+                    }, undefined])
+                    .mockImplementation(() => new Promise(() => {})),
+            });
+            return undefined;
+        });
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            subscribeTrack,
+            tracks: vi.fn(async function* () {
+                yield { type: "added", kind: "other", descriptor: eventsTrackDescriptor(2, 4) };
+            }),
+            close: vi.fn(),
+        })) as any);
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const local = {
+            id: "local-user",
+            name: "Local User",
+            signals: { raiseHand: vi.fn(() => ({ type: "hand", raised: true, timestamp: 2 })) },
+        };
+        const room = new Room({ roomID: "test-room" });
+        const setLimits = vi.spyOn(SignalDecoder.prototype, "setLimits");
+
+        await room.join(mockSession as any, local as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+
+        const signals = room.signals();
+        expect(subscribeTrack).toHaveBeenCalledWith("events", expect.anything());
+        expect((await signals.next()).value).toEqual({ id: "bob", signal: expect.objectContaining({ type: "hand" }) });
+
+        room.raiseHand();
+        expect(room.raisedHands().map((hand) => hand.id)).toEqual(["bob", "local-user"]);
+        // Bob is held to the limits of his catalog
+        expect(setLimits).toHaveBeenCalledWith(2, 4);
+        setLimits.mockRestore();
+    });
+
+    it("should not let spectators send signals", () => {
+        const room = new Room({ roomID: "test-room" });
+
+        expect(room.react("👍")).toBeInstanceOf(Error);
+    });
+});
+
+describe("Room - Active speakers", () => {
+    it("should follow the levels of local and remote members", async () => {
+        const subscribeTrack = vi.fn(async (_name: string, decoder: any) => {
+            const line = JSON.stringify({ level: 0.5, timestamp: 1 });
+            await decoder.decodeFrom(new Promise(() => {}), {
+                acceptGroup: vi.fn()
+                    .mockResolvedValueOnce([{
+                        readFrame: vi.fn()
+                            .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(line) }, undefined])
+                            .mockResolvedValue([undefined, undefined]),
+                        cancel: vi.fn(),
+                    }, undefined])
+                    .mockImplementation(() => new Promise(() => {})),
+            });
+            return undefined;
+        });
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            subscribeTrack,
+            close: vi.fn(),
+        })) as any);
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const local = {
+            id: "local-user",
+            name: "Local User",
+            levels: { report: vi.fn((level: number) => ({ level, timestamp: Date.now() })) },
+        };
+        const room = new Room({ roomID: "test-room" });
+
+        await room.join(mockSession as any, local as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+
+        const speakers = room.speakers();
+        expect(subscribeTrack).toHaveBeenCalledWith("levels", expect.anything());
+        expect((await speakers.next()).value).toEqual({ id: "bob", previous: undefined });
+
+        expect(room.reportLevel(0.2)).toBeUndefined();
+        expect(local.levels.report).toHaveBeenCalledWith(0.2);
+        expect(room.recentSpeakers().map((speaker) => speaker.id)).toEqual(["bob", "local-user"]);
+    });
+
+    it("should not let spectators report levels", () => {
+        const room = new Room({ roomID: "test-room" });
+
+        expect(room.reportLevel(0.5)).toBeInstanceOf(Error);
+    });
+});
+
+describe("Room - Last N", () => {
+    it("should receive video from the last N members only", async () => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: memberID("test-room", path),
+            displayName: vi.fn().mockResolvedValue(memberID("test-room", path)),
+            subscribeTrack: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/carol.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValue([null, new Error("Reader closed")]),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const local = { id: "local-user", name: "Local User" };
+        const onvideo = vi.fn();
+        const subscribe = vi.spyOn(SpeakerDetector.prototype, "subscribe");
+        const room = new Room({ roomID: "test-room", lastN: { n: 1, onvideo } });
+
+        await room.join(mockSession as any, local as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(3));
+
+        expect(room.lastN?.selected()).toEqual(["bob"]);
+
+        room.lastN?.pin("carol");
+        expect(room.lastN?.selected()).toEqual(["carol"]);
+        expect(onvideo.mock.calls.map(([member]) => member.id)).toEqual(["bob", "carol"]);
+        // Speakers are followed until the room is left
+        expect(subscribe).toHaveBeenCalledWith(expect.any(Promise));
+        subscribe.mockRestore();
+    });
+});
+
+describe("Room - Liveness", () => {
+    it("should mark silent members stale and evict them later", async () => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            // Never beats
+            subscribeTrack: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockImplementation(() => new Promise(() => {})),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const onStale = vi.fn();
+        const onLeave = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave, onStale },
+            liveness: { staleMs: 20, evictMs: 60 },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+        await vi.waitFor(() => expect(room.members()).toHaveLength(2));
+
+        await vi.waitFor(() => expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ id: "bob", stale: true }), true));
+        await vi.waitFor(() => expect(onLeave).toHaveBeenCalledWith({ remote: true, id: "bob", name: "Bob", reason: "timeout" }));
+        expect(room.members()).toHaveLength(1);
+    });
+
+    it("should report stale members whose announcement ends as timed out", async () => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            // Never beats
+            subscribeTrack: vi.fn(() => new Promise(() => {})),
+            close: vi.fn(),
+        })) as any);
+        let end!: () => void;
+        const ended = new Promise<void>((resolve) => { end = resolve; });
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => ended) }, null])
+                    .mockImplementation(() => new Promise(() => {})),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const onStale = vi.fn();
+        const onLeave = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave, onStale },
+            liveness: { staleMs: 20, evictMs: 60_000 },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+        await vi.waitFor(() => expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ id: "bob", stale: true }), true));
+
+        end();
+
+        await vi.waitFor(() => expect(onLeave).toHaveBeenCalledWith({ remote: true, id: "bob", name: "Bob", reason: "timeout" }));
+    });
+
+    it("should keep members who beat", async () => {
+        vi.mocked(BroadcastSubscriber).mockImplementation(((path: string) => ({
+            id: memberID("test-room", path),
+            name: "Bob",
+            displayName: vi.fn().mockResolvedValue("Bob"),
+            subscribeTrack: vi.fn(async (name: string, decoder: any) => {
+                if (name !== "heartbeat") {
+                    return new Promise(() => {});
+                }
+                let i = 0;
+                await decoder.decodeFrom(new Promise(() => {}), {
+                    acceptGroup: vi.fn(async () => {
+                        await new Promise((resolve) => setTimeout(resolve, 10));
+                        return [{
+                            readFrame: vi.fn()
+                                .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(JSON.stringify({ timestamp: ++i })) }, undefined])
+                                .mockResolvedValue([undefined, undefined]),
+                            cancel: vi.fn(),
+                        }, undefined];
+                    }),
+                });
+            }),
+            close: vi.fn(),
+        })) as any);
+        const mockSession = {
+            mux: { publish: vi.fn() },
+            acceptAnnounce: vi.fn().mockResolvedValue([{
+                receive: vi.fn()
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/local-user.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockResolvedValueOnce([{ broadcastPath: "/test-room/bob.hang", ended: vi.fn(() => new Promise(() => {})) }, null])
+                    .mockImplementation(() => new Promise(() => {})),
+                close: vi.fn(),
+            }, null] as any),
+        };
+        const onStale = vi.fn();
+        const room = new Room({
+            roomID: "test-room",
+            onmember: { onJoin: vi.fn(), onLeave: vi.fn(), onStale },
+            liveness: { staleMs: 40, evictMs: 80 },
+        });
+
+        await room.join(mockSession as any, { id: "local-user", name: "Local User" } as any);
+        await new Promise((resolve) => setTimeout(resolve, 150));
+
+        expect(onStale).not.toHaveBeenCalled();
+        expect(room.members()).toHaveLength(2);
+    });
+});
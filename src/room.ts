@@ -5,13 +5,14 @@ import type {
     AnnouncementReader,
 } from "@okutanidaichi/moqt";
 import {
-    validateBroadcastPath,
     InternalAnnounceErrorCode,
+    SubscribeCanceledErrorCode,
 } from "@okutanidaichi/moqt";
 import {
     BroadcastPublisher,
     BroadcastSubscriber,
 } from ".";
+import type { BroadcastSubscriberInit } from ".";
 import {
     background,
     type Context,
@@ -20,27 +21,336 @@ import {
 } from "golikejs/context";
 import type {
     JoinedMember,
-    LeftMember
+    JoinedLocalMember,
+    JoinedRemoteMember,
+    LeftMember,
+    LeaveReason,
+    MemberEvent,
 } from "./member";
-
-const HANG_EXTENSION = '.hang';
+import type { AuthProvider, AuthOptions } from "./auth";
+import { AuthError, isUnauthorized } from "./auth";
+import { sleep, backoff } from "./internal/timer";
+import { EventStream } from "./internal/event_stream";
+import type { BroadcastPathCodec } from "./path";
+import { DEFAULT_BROADCAST_PATH_CODEC } from "./path";
+import type { ModerationInit, ModerationCommand, ModerationReply } from "./moderation";
+import { Moderator, CommandDecoder, ReplyEncoder, MODERATION_TRACK_NAME } from "./moderation";
+import type { LobbyInit, PendingMember } from "./lobby";
+import { ChatLog, ChatDecoder } from "./chat";
+import type { ChatMessage } from "./catalog";
+import { CHAT_TRACK_NAME, EVENTS_TRACK_NAME, LEVELS_TRACK_NAME, HEARTBEAT_TRACK_NAME, EventsTrackSchema } from "./catalog";
+import type { Signal } from "./catalog";
+import { SignalBoard, SignalDecoder } from "./signals";
+import type { MemberSignal, RaisedHand } from "./signals";
+import { SpeakerDetector, LevelDecoder } from "./speakers";
+import type { SpeakerDetectorInit, DominantSpeakerChange, RecentSpeaker } from "./speakers";
+import { LastNPolicy } from "./last_n";
+import { HeartbeatDecoder } from "./heartbeat";
+import type { LastNInit } from "./last_n";
+import type { ResubscribeInit } from "./resubscribe";
+import type { KeyProvider } from "./e2ee";
+import type { PublicKeyLookup } from "./signing";
+import { AdmissionDeniedError, lobbyID } from "./lobby";
 
 export class Room {
     readonly roomID: string;
 
+    // Keyed by member ID
     #remotes: Map<string, BroadcastSubscriber> = new Map();
+    // Remotes whose join was already notified
+    #joined: Map<BroadcastSubscriber, JoinedRemoteMember> = new Map();
+    #local?: JoinedLocalMember;
     #cancel?: CancelCauseFunc;
 
-    #onmember: MemberHandler;
+    #onmember?: MemberHandler;
+    #events: EventStream<MemberEvent> = new EventStream();
+    #onstate?: (state: RoomState) => void;
+    #auth?: AuthProvider;
+    #reconnect?: RoomReconnectInit;
+    #codec: BroadcastPathCodec;
+    #resubscribe?: ResubscribeInit;
+    #keys?: KeyProvider;
+    #publicKeys?: PublicKeyLookup;
+
+    #moderation?: ModerationInit;
+    #moderator?: Moderator;
+    #replies?: ReplyEncoder;
+    #publisher?: BroadcastPublisher;
+    // Members removed by the host
+    #kicked: Set<string> = new Set();
+    // Members allowed while the room is locked
+    #allowed?: Set<string>;
+
+    #lobby?: LobbyInit;
+    // Members let in by the host, when the room has a lobby
+    #admitted: Set<string> = new Set();
+    // Announced members waiting for their admission to arrive, keyed by member ID
+    #waiting: Map<string, () => void> = new Map();
+
+    // Chat tracks are only subscribed to once the chat is used
+    #chat?: ChatLog;
+    // Likewise for the events tracks
+    #signals?: SignalBoard;
+    // Likewise for the levels tracks
+    #speakers?: SpeakerDetector;
+    #speakerInit?: SpeakerDetectorInit;
+
+    #lastN?: LastNPolicy;
+
+    #liveness?: LivenessInit;
+    // When each remote was last heard of
+    #lastSeen: Map<BroadcastSubscriber, number> = new Map();
+    #stale: Set<BroadcastSubscriber> = new Set();
+
+    #state: RoomState = "disconnected";
+    #displayNameTimeout: number;
 
     #wg: Promise<void>[] = [];
 
     constructor(init: RoomInit) {
         this.roomID = init.roomID;
         this.#onmember = init.onmember;
+        this.#onstate = init.onstate;
+        this.#auth = init.auth;
+        this.#reconnect = init.reconnect;
+        this.#displayNameTimeout = init.displayNameTimeoutMs ?? 1000;
+        this.#codec = init.codec ?? DEFAULT_BROADCAST_PATH_CODEC;
+        this.#resubscribe = init.resubscribe;
+        this.#keys = init.e2ee;
+        this.#publicKeys = init.publicKeys;
+        this.#speakerInit = init.speakers;
+        this.#liveness = init.liveness;
+        if (init.lastN) {
+            this.#lastN = new LastNPolicy(init.lastN);
+            // Speakers rank the members, so their levels are always followed
+            this.#startSpeakers();
+        }
+
+        this.#moderation = init.moderation;
+        this.#lobby = init.moderation?.lobby;
+        if (init.moderation) {
+            this.#replies = new ReplyEncoder();
+        }
+        if (init.moderation?.signingKey) {
+            this.#moderator = new Moderator(
+                init.moderation.signingKey,
+                this.roomID,
+                (command) => { this.#apply(command); },
+                () => this.members().map((member) => member.id),
+                init.moderation.replyTimeoutMs,
+                init.moderation.commandTtlMs,
+            );
+        }
+    }
+
+    get state(): RoomState {
+        return this.#state;
+    }
+
+    // Picks the members whose video is received; only available when lastN is set
+    get lastN(): LastNPolicy | undefined {
+        return this.#lastN;
+    }
+
+    // Issues moderation commands; only available to the host
+    get moderator(): Moderator | undefined {
+        return this.#moderator;
+    }
+
+    // Returns the members currently in the room, including the local one once joined
+    members(): JoinedMember[] {
+        const members: JoinedMember[] = [];
+        if (this.#local) {
+            members.push(this.#local);
+        }
+        members.push(...this.#joined.values());
+        return members;
+    }
+
+    // Iterates over the join and leave events from now on.
+    // Take a members() snapshot right before to get the full picture.
+    events(done?: Promise<void>): AsyncIterableIterator<MemberEvent> {
+        return this.#events.subscribe(done);
+    }
+
+    // Iterates over the chat history of the room, then over new messages of every member.
+    // The chat tracks are subscribed to from the first call on.
+    messages(done?: Promise<void>): AsyncIterableIterator<ChatMessage> {
+        return this.#startChat().subscribe(done);
+    }
+
+    // Returns the chat messages received so far, ordered by timestamp
+    chatHistory(): ChatMessage[] {
+        return this.#chat?.history() ?? [];
+    }
+
+    // Sends a chat message on the local broadcast
+    sendMessage(text: string, replyTo?: string): ChatMessage | Error {
+        if (!this.#publisher) {
+            return new Error(`hang: spectators cannot chat in room: ${this.roomID}`);
+        }
+
+        const message = this.#publisher.chat.send(text, replyTo);
+        this.#startChat().add(message);
+        return message;
+    }
+
+    #startChat(): ChatLog {
+        if (!this.#chat) {
+            this.#chat = new ChatLog();
+            for (const remote of this.#remotes.values()) {
+                this.#subscribeChat(remote, this.#chat);
+            }
+        }
+        return this.#chat;
+    }
+
+    #subscribeChat(remote: BroadcastSubscriber, chat: ChatLog): void {
+        remote.subscribeTrack(CHAT_TRACK_NAME, new ChatDecoder(remote.id, (message) => chat.add(message))).then((err) => {
+            if (err) {
+                console.warn(`[Room] failed to subscribe to the chat of ${remote.id}: ${err}`);
+            }
+        });
+    }
+
+    // Iterates over the reactions, hand and away signals of every member.
+    // The events tracks are subscribed to from the first call on.
+    signals(done?: Promise<void>): AsyncIterableIterator<MemberSignal> {
+        return this.#startSignals().subscribe(done);
+    }
+
+    // The hand queue: members with a raised hand, first raised first
+    raisedHands(): RaisedHand[] {
+        return this.#startSignals().hands();
+    }
+
+    // IDs of the members who are away
+    awayMembers(): string[] {
+        return this.#startSignals().away();
+    }
+
+    react(emoji: string): Signal | Error {
+        return this.#signal((signals) => signals.react(emoji));
+    }
+
+    raiseHand(): Signal | Error {
+        return this.#signal((signals) => signals.raiseHand());
+    }
+
+    lowerHand(): Signal | Error {
+        return this.#signal((signals) => signals.lowerHand());
+    }
+
+    setAway(away: boolean): Signal | Error {
+        return this.#signal((signals) => signals.setAway(away));
+    }
+
+    #signal(send: (signals: BroadcastPublisher["signals"]) => Signal | Error): Signal | Error {
+        if (!this.#publisher) {
+            return new Error(`hang: spectators cannot send signals in room: ${this.roomID}`);
+        }
+
+        const signal = send(this.#publisher.signals);
+        if (!(signal instanceof Error)) {
+            this.#startSignals().add(this.#publisher.id, signal);
+        }
+        return signal;
+    }
+
+    #startSignals(): SignalBoard {
+        if (!this.#signals) {
+            this.#signals = new SignalBoard();
+            for (const remote of this.#remotes.values()) {
+                this.#subscribeSignals(remote, this.#signals);
+            }
+        }
+        return this.#signals;
+    }
+
+    #subscribeSignals(remote: BroadcastSubscriber, signals: SignalBoard): void {
+        const decoder = new SignalDecoder((signal) => signals.add(remote.id, signal));
+        remote.subscribeTrack(EVENTS_TRACK_NAME, decoder).then((err) => {
+            if (err) {
+                console.warn(`[Room] failed to subscribe to the events of ${remote.id}: ${err}`);
+            }
+        });
+        this.#followSignalLimits(remote, decoder);
+    }
+
+    // Holds the member to the signal rate it declared in its catalog
+    async #followSignalLimits(remote: BroadcastSubscriber, decoder: SignalDecoder): Promise<void> {
+        for await (const event of remote.tracks()) {
+            if (event.type === "ended" || event.descriptor.name !== EVENTS_TRACK_NAME) {
+                continue;
+            }
+            const { success, data } = EventsTrackSchema.safeParse(event.descriptor);
+            if (success) {
+                decoder.setLimits(data.config.rate, data.config.burst);
+            }
+        }
+    }
+
+    // Iterates over the dominant speaker changes, starting with the current one.
+    // The levels tracks are subscribed to from the first call on.
+    speakers(done?: Promise<void>): AsyncIterableIterator<DominantSpeakerChange> {
+        return this.#startSpeakers().subscribe(done);
+    }
+
+    dominantSpeaker(): string | undefined {
+        return this.#startSpeakers().dominant;
+    }
+
+    // Members who spoke lately, the dominant speaker first
+    recentSpeakers(): RecentSpeaker[] {
+        return this.#startSpeakers().recent();
+    }
+
+    // Publishes the level of the local audio, e.g. measured with audioLevel().
+    // Call it periodically while the microphone is on; levels faster than the track interval are dropped.
+    reportLevel(level: number): Error | undefined {
+        if (!this.#publisher) {
+            return new Error(`hang: spectators cannot report audio levels in room: ${this.roomID}`);
+        }
+
+        const sent = this.#publisher.levels.report(level);
+        if (sent) {
+            this.#speakers?.update(this.#publisher.id, sent.level);
+        }
+        return undefined;
+    }
+
+    #startSpeakers(): SpeakerDetector {
+        if (!this.#speakers) {
+            const speakers = new SpeakerDetector(this.#speakerInit);
+            this.#speakers = speakers;
+            for (const remote of this.#remotes.values()) {
+                this.#subscribeLevels(remote, speakers);
+            }
+        }
+        return this.#speakers;
     }
 
-    async join(session: Session, local: BroadcastPublisher): Promise<void> { // TODO: use session interface from moqt when available
+    // Ranks the members by how recently they spoke for the last-N policy, until the room is left
+    async #rankSpeakers(ctx: Context, lastN: LastNPolicy): Promise<void> {
+        const speakers = this.#startSpeakers();
+        const changes = speakers.subscribe(ctx.done());
+        while (!(await changes.next()).done) {
+            lastN.setSpeakers(speakers.recent().map((speaker) => speaker.id));
+        }
+    }
+
+    #subscribeLevels(remote: BroadcastSubscriber, speakers: SpeakerDetector): void {
+        remote.subscribeTrack(LEVELS_TRACK_NAME, new LevelDecoder((level) => speakers.update(remote.id, level.level))).then((err) => {
+            if (err) {
+                console.warn(`[Room] failed to subscribe to the levels of ${remote.id}: ${err}`);
+            }
+        });
+    }
+
+    // Joins the room and publishes the local broadcast.
+    // Without a local broadcast the room is joined as a receive-only spectator.
+    // In a room with a lobby, spectators wait for the host's admission like everyone else.
+    async join(session: Session, local?: BroadcastPublisher): Promise<void> { // TODO: use session interface from moqt when available
         if (this.#cancel) {
             // If already joined, leave first
             await this.leave();
@@ -48,123 +358,456 @@ export class Room {
 
         let ctx: Context
         [ctx, this.#cancel] = withCancelCause(background());
+        this.#publisher = local;
+
+        if (this.#lobby && !this.#moderator) {
+            // Wait in the lobby until the host lets us in
+            if (local) {
+                await this.#admission(ctx, session, local);
+            } else {
+                // Spectators publish an empty broadcast for the host to see them waiting
+                const spectator = this.#lobby.spectator;
+                const presence = new BroadcastPublisher(spectator?.name ?? "Spectator", { id: spectator?.id });
+                try {
+                    await this.#admission(ctx, session, presence);
+                } finally {
+                    await presence.close();
+                }
+            }
+        }
+
+        const err = await this.#connect(ctx, session, local);
+        if (err) {
+            // The announcement stream broke before the join was acknowledged
+            this.#lost(ctx, local);
+        }
 
-        const path = broadcastPath(this.roomID, local.name);
+        if (this.#liveness) {
+            this.#wg.push(this.#watchLiveness(ctx, this.#liveness));
+        }
+
+        if (this.#lastN) {
+            this.#wg.push(this.#rankSpeakers(ctx, this.#lastN));
+        }
+
+        return;
+    }
 
-        // Publish the local broadcast to the track mux and make it available to others
-        // This broadcast will end when the local broadcast is closed
-        session.mux.publish(ctx.done(), path, local);
+    // Publishes the local broadcast on the session and starts listening for announcements.
+    // Setup failures are thrown; an announcement stream that breaks before the ack is returned.
+    async #connect(ctx: Context, session: Session, local: BroadcastPublisher | undefined, stale?: Set<string>): Promise<Error | undefined> {
+        // Everything bound to this session is cancelled when the session is lost
+        const [conn, cancelConn] = withCancelCause(ctx);
 
-        const [announcements, err] = await session.acceptAnnounce(`/${this.roomID}/`);
+        let options: AuthOptions | undefined;
+        try {
+            options = await this.#options();
+        } catch (e) {
+            cancelConn(new Error("hang: failed to obtain token"));
+            throw e;
+        }
+
+        if (local) {
+            // Publish the local broadcast to the track mux and make it available to others
+            // This broadcast will end when the local broadcast is closed
+            // Replies to the host's commands are served next to the local tracks
+            const handler = this.#replies ? this.#replies.wrap(local) : local;
+            session.mux.publish(conn.done(), this.#codec.format(this.roomID, local.id), handler, options);
+        }
+
+        if (this.#moderator) {
+            session.mux.publish(conn.done(), this.#codec.control(this.roomID), this.#moderator, options);
+
+            if (this.#lobby) {
+                if (local) {
+                    // The host never waits in the lobby
+                    this.#moderator.admit(local.id);
+                }
+                await this.#watchLobby(conn, session, options);
+            }
+        }
+
+        const [announcements, err] = await session.acceptAnnounce(this.#codec.prefix(this.roomID), options);
         if (err) {
+            cancelConn(err);
+            if (isUnauthorized(err, this.#auth)) {
+                // Drop the rejected token so the next join fetches a fresh one
+                this.#auth?.invalidate?.();
+                throw new AuthError(`token rejected for room: ${this.roomID}`, err);
+            }
             console.warn(`[Room] failed to accept announcements for room: ${this.roomID}: ${err}`);
             throw err;
         }
 
-        let resolveAck: (() => void);
-        const ack = new Promise<void>((resolve) => {
-            resolveAck = resolve;
+        let settleAck: ((err?: Error) => void);
+        const ack = new Promise<Error | undefined>((resolve) => {
+            settleAck = resolve;
         });
 
         this.#wg.push(
-            this.#handleAnnouncements(ctx.done(), announcements!, session, local, resolveAck!)
+            this.#handleAnnouncements(ctx, conn, cancelConn, announcements!, session, local, settleAck!, stale, options)
         );
 
-        await ack;
+        const ackErr = await ack;
+        if (ackErr) {
+            return ackErr;
+        }
 
-        return;
+        if (stale) {
+            this.#wg.push(this.#reconcile(conn, stale));
+        }
+
+        this.#setState(stale ? "reconnected" : "connected");
+
+        return undefined;
     }
 
     async #handleAnnouncements(
-        signal: Promise<void>,
+        ctx: Context,
+        conn: Context,
+        cancelConn: CancelCauseFunc,
         announcements: AnnouncementReader,
         session: Session,
-        local: BroadcastPublisher,
-        resolveAck: () => void
+        local: BroadcastPublisher | undefined,
+        settleAck: (err?: Error) => void,
+        stale?: Set<string>,
+        options?: AuthOptions,
     ): Promise<void> {
-        const localPath = broadcastPath(this.roomID, local.name);
+        const localPath = local ? this.#codec.format(this.roomID, local.id) : undefined;
+        let acked = false;
+        if (!local) {
+            // Spectators have no announcement of their own to wait for
+            acked = true;
+            settleAck();
+        }
         // Listen for further announcements until the context is done
         while (true) {
-            const [announcement, err] = await announcements.receive(signal);
+            const [announcement, err] = await announcements.receive(conn.done());
             if (err) {
                 // If the announcements reader returned an error, treat it as
-                // a signal to stop listening and ack the join so callers don't
+                // a signal to stop listening and settle the join so callers don't
                 // wait forever. The announcements reader will be closed below.
-                try {
-                    resolveAck();
-                } catch (e) {
-                    // ignore if ack already resolved
+                if (!acked) {
+                    settleAck(ctx.err() ? undefined : err);
+                } else if (!ctx.err()) {
+                    // The stream broke while we are still in the room: the session is gone
+                    cancelConn(err);
+                    this.#lost(ctx, local);
                 }
                 break;
             }
 
             // Handle announcement for ourselves (e.g. re-announcement) as ACK
-            if (announcement!.broadcastPath === localPath) {
-                resolveAck();
+            if (local && announcement!.broadcastPath === localPath) {
+                acked = true;
+                settleAck();
 
-                this.#addLocal(local);
+                if (!this.#local) {
+                    this.#addLocal(local);
+                }
 
                 this.#wg.push(
-                    announcement!.ended().then(() => {
-                        this.#removeLocal(local);
+                    this.#ended(ctx, conn, announcement!).then((ended) => {
+                        if (ended) {
+                            this.#removeLocal(local, "graceful");
+                        }
                     })
                 );
 
-                return;
+                continue;
             }
 
-            // Try to subscribe to the announced broadcast
-            try {
-                const broadcast = new BroadcastSubscriber(announcement!.broadcastPath, this.roomID, session);
-                this.#addRemote(broadcast);
-                // Clean up the remote when the announcement ends
-                announcement!.ended().then(() => {
-                    this.#removeRemote(broadcast);
+            if (announcement!.broadcastPath === this.#codec.control(this.roomID)) {
+                // The host follows its own commands directly
+                if (this.#moderation && !this.#moderator) {
+                    this.#wg.push(this.#followControl(conn, session, announcement!, options));
+                }
+                continue;
+            }
+
+            const id = this.#codec.parse(this.roomID, announcement!.broadcastPath);
+            if (id === undefined) {
+                // Not a member of this room (e.g. another layout sharing the prefix)
+                continue;
+            }
+
+            if (this.#barred(id)) {
+                // Removed by the host, or joining a locked room
+                continue;
+            }
+
+            if (this.#lobby && !this.#admitted.has(id)) {
+                // The admission may still be on its way on the control broadcast
+                const announced = announcement!;
+                this.#waiting.set(id, () => {
+                    this.#startRemote(ctx, conn, session, announced, id, stale);
                 });
-            } catch (e) {
-                console.warn(`[Room] failed to subscribe to ${announcement}: ${e}`);
+                announced.ended().then(() => {
+                    this.#waiting.delete(id);
+                });
+                continue;
             }
+
+            this.#startRemote(ctx, conn, session, announcement!, id, stale);
         }
 
         // Ensure announcements reader is closed
         await announcements?.close();
     }
 
-    async leave(): Promise<void> {
+    #startRemote(ctx: Context, conn: Context, session: Session, announcement: Announcement, id: string, stale?: Set<string>): void {
+        // Try to subscribe to the announced broadcast
+        try {
+            const existing = stale?.delete(id) ? this.#remotes.get(id) : undefined;
+
+            let broadcast: BroadcastSubscriber;
+            if (existing) {
+                // The member is still here: move its subscriber to the new session silently
+                existing.reconnect(session);
+                broadcast = existing;
+            } else {
+                broadcast = new BroadcastSubscriber(announcement.broadcastPath, this.roomID, session, this.#subscriberInit());
+                this.#addRemote(broadcast);
+            }
+
+            // Clean up the remote when the announcement ends
+            this.#ended(ctx, conn, announcement).then((ended) => {
+                if (ended) {
+                    this.#removeRemote(broadcast, this.#departure(broadcast));
+                }
+            });
+        } catch (e) {
+            console.warn(`[Room] failed to subscribe to ${announcement}: ${e}`);
+        }
+    }
+
+    // Resolves to false when the announcement only ended because the session was lost
+    // and the room is going to reconnect
+    async #ended(ctx: Context, conn: Context, announcement: Announcement): Promise<boolean> {
+        await announcement.ended();
+
+        if (!this.#reconnect) {
+            return true;
+        }
+
+        if (!ctx.err()) {
+            // The announcement may end slightly before the session loss is noticed
+            await sleep(this.#reconnect.endedGraceMs ?? 250, conn.done());
+        }
+
+        return !(conn.err() && !ctx.err());
+    }
+
+    #lost(ctx: Context, local: BroadcastPublisher | undefined): void {
+        if (!this.#reconnect) {
+            this.#setState("disconnected");
+            return;
+        }
+
+        this.#wg.push(this.#reconnectWith(ctx, local, this.#reconnect));
+    }
+
+    async #reconnectWith(ctx: Context, local: BroadcastPublisher | undefined, init: RoomReconnectInit): Promise<void> {
+        const maxAttempts = init.maxAttempts ?? Infinity;
+        const maxDelay = init.maxDelayMs ?? 10_000;
+        let delay = init.initialDelayMs ?? 500;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            this.#setState("reconnecting");
+
+            await sleep(delay, ctx.done());
+            if (ctx.err()) {
+                return;
+            }
+
+            try {
+                const session = await init.session();
+                const err = await this.#connect(ctx, session, local, new Set(this.#remotes.keys()));
+                if (!err) {
+                    return;
+                }
+                console.warn(`[Room] reconnect attempt ${attempt} lost the session for room: ${this.roomID}: ${err}`);
+            } catch (e) {
+                console.warn(`[Room] reconnect attempt ${attempt} failed for room: ${this.roomID}: ${e}`);
+            }
+
+            if (ctx.err()) {
+                return;
+            }
+
+            delay = backoff(delay, maxDelay);
+        }
+
+        // Give up and report everyone as gone
+        for (const remote of this.#remotes.values()) {
+            this.#removeRemote(remote, "timeout");
+        }
+        if (local && this.#local) {
+            this.#removeLocal(local, "timeout");
+        }
+        this.#setState("disconnected");
+    }
+
+    // Removes remotes that did not announce again on the new session
+    async #reconcile(conn: Context, stale: Set<string>): Promise<void> {
+        await sleep(this.#reconnect?.reconcileMs ?? 3000, conn.done());
+        if (conn.err()) {
+            return;
+        }
+
+        for (const name of stale) {
+            const remote = this.#remotes.get(name);
+            if (remote) {
+                this.#removeRemote(remote, "timeout");
+            }
+        }
+        stale.clear();
+    }
+
+    // Marks remotes stale once their heartbeats stop, and removes them after a longer silence
+    async #watchLiveness(ctx: Context, init: LivenessInit): Promise<void> {
+        const staleMs = init.staleMs ?? 5000;
+        const evictMs = Math.max(init.evictMs ?? 15_000, staleMs);
+
+        while (true) {
+            await sleep(staleMs / 2, ctx.done());
+            if (ctx.err()) {
+                return;
+            }
+            if (this.#state === "reconnecting") {
+                // Everyone is silent while the session is down; the reconciliation takes care of them
+                continue;
+            }
+
+            const now = Date.now();
+            for (const [remote, seen] of Array.from(this.#lastSeen)) {
+                const silence = now - seen;
+                if (silence >= evictMs) {
+                    this.#removeRemote(remote, "timeout");
+                } else if (silence >= staleMs && !this.#stale.has(remote)) {
+                    this.#stale.add(remote);
+                    this.#notifyStale(remote, true);
+                }
+            }
+        }
+    }
+
+    // Members who went silent before leaving timed out rather than left
+    #departure(remote: BroadcastSubscriber): LeaveReason {
+        return this.#stale.has(remote) ? "timeout" : "graceful";
+    }
+
+    #alive(remote: BroadcastSubscriber): void {
+        if (!this.#lastSeen.has(remote)) {
+            // Already removed
+            return;
+        }
+        this.#lastSeen.set(remote, Date.now());
+        if (this.#stale.delete(remote)) {
+            this.#notifyStale(remote, false);
+        }
+    }
+
+    #notifyStale(remote: BroadcastSubscriber, stale: boolean): void {
+        const member = this.#joined.get(remote);
+        if (!member) {
+            // Not announced yet
+            return;
+        }
+        member.stale = stale;
+        this.#onmember?.onStale?.(member, stale);
+        this.#events.emit({ type: "stale", member, stale });
+    }
+
+    leave(): Promise<void> {
+        return this.#leave("graceful");
+    }
+
+    async #leave(reason: LeaveReason): Promise<void> {
         if (this.#cancel) {
             this.#cancel(new Error("hang: room left"));
         }
 
         for (const [path, remote] of this.#remotes) {
             try {
-                this.#removeRemote(remote);
+                this.#removeRemote(remote, this.#departure(remote));
             } catch (e) {
                 console.warn(`hang: Error removing remote broadcast for path ${path}: ${e}`);
             }
         }
         this.#remotes.clear();
+        this.#joined.clear();
+        this.#kicked.clear();
+        this.#allowed = undefined;
+        this.#admitted.clear();
+        this.#waiting.clear();
+        this.#chat?.clear();
+        this.#signals?.clear();
+        this.#speakers?.clear();
+
+        if (this.#local) {
+            // Don't wait for the local announcement to end
+            const { id, name } = this.#local;
+            this.#local = undefined;
+            this.#notifyLeave({ remote: false, id, name, reason });
+        }
 
         await Promise.all(this.#wg);
         this.#wg = [];
+
+        // Leaving is not a connection change, so onstate is not notified
+        this.#state = "disconnected";
+    }
+
+    #setState(state: RoomState): void {
+        if (this.#state === state) {
+            return;
+        }
+        this.#state = state;
+        this.#onstate?.(state);
+    }
+
+    #notifyJoin(member: JoinedMember): void {
+        if (member.remote) {
+            this.#lastN?.add(member);
+        }
+        this.#onmember?.onJoin(member);
+        this.#events.emit({ type: "join", member });
+    }
+
+    #notifyLeave(member: LeftMember): void {
+        if (member.remote) {
+            this.#lastN?.remove(member.id);
+        }
+        this.#onmember?.onLeave(member);
+        this.#events.emit({ type: "leave", member });
     }
 
     #addLocal(local: BroadcastPublisher): void {
-        this.#onmember.onJoin({
+        this.#local = {
             remote: false,
+            id: local.id,
             name: local.name,
             // broadcast: local
-        });
+        };
+        this.#notifyJoin(this.#local);
     }
 
-    #removeLocal(local: BroadcastPublisher): void {
-        this.#onmember.onLeave({
+    #removeLocal(local: BroadcastPublisher, reason: LeaveReason): void {
+        if (!this.#local) {
+            return;
+        }
+        this.#local = undefined;
+        this.#notifyLeave({
             remote: false,
+            id: local.id,
             name: local.name,
+            reason,
         });
     }
 
-    #removeRemote(remote: BroadcastSubscriber): void {
-        const got = this.#remotes.get(remote.name);
+    #removeRemote(remote: BroadcastSubscriber, reason: LeaveReason): void {
+        const got = this.#remotes.get(remote.id);
 
         if (!got) {
             return;
@@ -178,18 +821,38 @@ export class Room {
         }
 
         // Remove from map first to prevent re-entrancy issues
-        this.#remotes.delete(remote.name);
+        this.#remotes.delete(remote.id);
+        this.#signals?.remove(remote.id);
+        this.#speakers?.remove(remote.id);
+        this.#lastSeen.delete(remote);
+        this.#stale.delete(remote);
+
+        // Members leaving before their display name was resolved are still announced,
+        // so that every onLeave is paired with an onJoin
+        let member = this.#joined.get(remote);
+        if (!member) {
+            member = {
+                remote: true,
+                id: remote.id,
+                name: remote.name,
+                broadcast: remote
+            };
+            this.#notifyJoin(member);
+        }
+        this.#joined.delete(remote);
 
         // Notify about remote member leaving
-        this.#onmember.onLeave({
+        this.#notifyLeave({
             remote: true,
-            name: remote.name,
+            id: remote.id,
+            name: member.name,
+            reason,
         });
     }
 
     #addRemote(remote: BroadcastSubscriber): void {
         // If the remote is the same as the existing one, do nothing
-        const got = this.#remotes.get(remote.name);
+        const got = this.#remotes.get(remote.id);
 
         // Ignore if already have this exact remote
         if (remote === got) {
@@ -200,17 +863,287 @@ export class Room {
         if (got) {
             // Properly remove the existing remote using #removeRemote
             // This ensures onLeave notification is sent and cleanup is done correctly
-            this.#removeRemote(got);
+            this.#removeRemote(got, "replaced");
         }
 
-        this.#remotes.set(remote.name, remote);
+        this.#remotes.set(remote.id, remote);
 
-        // Notify about new remote member joining
-        this.#onmember.onJoin({
-            remote: true,
-            name: remote.name,
-            broadcast: remote
+        // Notify about new remote member joining once its display name is known
+        this.#displayName(remote).then((name) => {
+            if (this.#remotes.get(remote.id) !== remote) {
+                // Left or replaced in the meantime
+                return;
+            }
+
+            const member: JoinedRemoteMember = {
+                remote: true,
+                id: remote.id,
+                name: name,
+                broadcast: remote
+            };
+            this.#joined.set(remote, member);
+            this.#notifyJoin(member);
         });
+
+        if (this.#chat) {
+            this.#subscribeChat(remote, this.#chat);
+        }
+        if (this.#signals) {
+            this.#subscribeSignals(remote, this.#signals);
+        }
+        if (this.#speakers) {
+            this.#subscribeLevels(remote, this.#speakers);
+        }
+
+        if (this.#liveness) {
+            this.#lastSeen.set(remote, Date.now());
+            remote.subscribeTrack(HEARTBEAT_TRACK_NAME, new HeartbeatDecoder(() => this.#alive(remote))).then((err) => {
+                if (err) {
+                    console.warn(`[Room] failed to subscribe to the heartbeat of ${remote.id}: ${err}`);
+                }
+            });
+        }
+
+        if (this.#moderator) {
+            // Collect the member's replies to the host's commands
+            remote.subscribeTrack(MODERATION_TRACK_NAME, this.#moderator.replies(remote.id)).then((err) => {
+                if (err) {
+                    console.warn(`[Room] failed to subscribe to moderation replies of ${remote.id}: ${err}`);
+                }
+            });
+        }
+    }
+
+    // Subscribes to the host's control broadcast and applies its commands
+    async #followControl(conn: Context, session: Session, announcement: Announcement, options?: AuthOptions): Promise<void> {
+        const [track, err] = await session.subscribe(announcement.broadcastPath, MODERATION_TRACK_NAME, options);
+        if (err) {
+            console.warn(`[Room] failed to subscribe to the control broadcast of room: ${this.roomID}: ${err}`);
+            return;
+        }
+
+        const decoder = new CommandDecoder(this.#moderation!.hostKey, this.roomID, (command) => this.#apply(command));
+        await decoder.decodeFrom(Promise.race([conn.done(), announcement.ended()]), track);
+
+        await track.closeWithError(SubscribeCanceledErrorCode, "control broadcast ended");
+    }
+
+    async #apply(command: ModerationCommand): Promise<void> {
+        const localID = this.#publisher?.id;
+
+        if (command.type === "kick") {
+            this.#kicked.add(command.target);
+
+            if (command.target === localID) {
+                this.#replies?.reply({ seq: command.seq, status: "ack" });
+                this.#moderation?.oncommand?.(command);
+                // Not awaited: leaving waits for the control subscription applying this command
+                this.#leave("evicted");
+                return;
+            }
+
+            const remote = this.#remotes.get(command.target);
+            if (remote) {
+                this.#removeRemote(remote, "evicted");
+            }
+        } else if (command.type === "mute") {
+            if (command.target === localID) {
+                this.#replies?.reply(await this.#mute(command.seq, command.track));
+            }
+        } else if (command.type === "lock") {
+            this.#allowed = command.locked ? new Set(command.members) : undefined;
+
+            if (localID !== undefined && this.#barred(localID)) {
+                // Joined after the room was locked
+                this.#moderation?.oncommand?.(command);
+                this.#leave("evicted");
+                return;
+            }
+        } else if (command.type === "admit") {
+            this.#admitted.add(command.target);
+
+            const start = this.#waiting.get(command.target);
+            if (start) {
+                this.#waiting.delete(command.target);
+                start();
+            }
+        }
+
+        this.#moderation?.oncommand?.(command);
+    }
+
+    // Admitted members may enter even while the room is locked
+    #barred(id: string): boolean {
+        if (this.#kicked.has(id)) {
+            return true;
+        }
+        return this.#allowed !== undefined && !this.#allowed.has(id) && !this.#admitted.has(id);
+    }
+
+    // Publishes the local broadcast into the lobby and waits for the host's decision
+    async #admission(ctx: Context, session: Session, local: BroadcastPublisher): Promise<void> {
+        const [lobby, cancelLobby] = withCancelCause(ctx);
+        try {
+            const options = await this.#options();
+
+            session.mux.publish(lobby.done(), this.#codec.format(lobbyID(this.roomID, this.#lobby!), local.id), local, options);
+
+            const [track, err] = await session.subscribe(this.#codec.control(this.roomID), MODERATION_TRACK_NAME, options);
+            if (err) {
+                throw err;
+            }
+
+            let settle!: (command: ModerationCommand) => void;
+            const decision = new Promise<ModerationCommand>((resolve) => {
+                settle = resolve;
+            });
+
+            // Only our own decision matters here; the room state is replayed once we are in
+            const decoder = new CommandDecoder(this.#moderation!.hostKey, this.roomID, (command) => {
+                if (command.type !== "admit" && command.type !== "deny" && command.type !== "kick") {
+                    return;
+                }
+                if (command.target === local.id) {
+                    settle(command);
+                }
+            });
+            decoder.decodeFrom(lobby.done(), track).then(() => {
+                track.closeWithError(SubscribeCanceledErrorCode, "left the lobby");
+            });
+
+            const command = await Promise.race([decision, lobby.done().then(() => undefined)]);
+            if (!command) {
+                throw new Error(`hang: left the lobby of room: ${this.roomID}`);
+            }
+            if (command.type !== "admit") {
+                throw new AdmissionDeniedError(`admission denied to room: ${this.roomID}`, command.type === "deny" ? command.reason : "kicked");
+            }
+
+            this.#admitted.add(local.id);
+        } catch (e) {
+            // Don't leave a half-joined room behind
+            this.#cancel?.(e instanceof Error ? e : new Error(String(e)));
+            this.#cancel = undefined;
+            throw e;
+        } finally {
+            cancelLobby(new Error("hang: lobby left"));
+        }
+    }
+
+    // Reports the members waiting in the lobby to the host
+    async #watchLobby(conn: Context, session: Session, options?: AuthOptions): Promise<void> {
+        const lobby = lobbyID(this.roomID, this.#lobby!);
+        const [announcements, err] = await session.acceptAnnounce(this.#codec.prefix(lobby), options);
+        if (err) {
+            console.warn(`[Room] failed to accept lobby announcements for room: ${this.roomID}: ${err}`);
+            return;
+        }
+
+        this.#wg.push((async () => {
+            while (true) {
+                const [announcement, err] = await announcements.receive(conn.done());
+                if (err) {
+                    break;
+                }
+
+                const id = this.#codec.parse(lobby, announcement!.broadcastPath);
+                if (id === undefined || this.#admitted.has(id)) {
+                    continue;
+                }
+
+                this.#addPending(conn, session, announcement!, lobby, id);
+            }
+
+            await announcements.close();
+        })());
+    }
+
+    #addPending(conn: Context, session: Session, announcement: Announcement, lobby: string, id: string): void {
+        let broadcast: BroadcastSubscriber;
+        try {
+            broadcast = new BroadcastSubscriber(announcement.broadcastPath, lobby, session, this.#subscriberInit());
+        } catch (e) {
+            console.warn(`[Room] failed to subscribe to ${announcement.broadcastPath}: ${e}`);
+            return;
+        }
+
+        let decided = false;
+        const decide = async (decision: Promise<Error | undefined>): Promise<Error | undefined> => {
+            decided = true;
+            broadcast.close();
+            return decision;
+        };
+
+        announcement.ended().then(() => {
+            if (!decided) {
+                decided = true;
+                broadcast.close();
+                this.#lobby?.onwithdraw?.(id);
+            }
+        });
+
+        this.#displayName(broadcast).then((name) => {
+            if (decided || conn.err()) {
+                return;
+            }
+
+            const member: PendingMember = {
+                id,
+                name,
+                broadcast,
+                admit: () => decide(this.#moderator!.admit(id)),
+                deny: (reason?: string) => decide(this.#moderator!.deny(id, reason)),
+            };
+            this.#lobby?.onpending?.(member);
+        });
+    }
+
+    #subscriberInit(): BroadcastSubscriberInit {
+        return {
+            auth: this.#auth,
+            codec: this.#codec,
+            resubscribe: this.#resubscribe,
+            keys: this.#keys,
+            publicKeys: this.#publicKeys,
+        };
+    }
+
+    async #options(): Promise<AuthOptions | undefined> {
+        if (!this.#auth) {
+            return undefined;
+        }
+
+        try {
+            return { token: await this.#auth.token() };
+        } catch (e) {
+            throw new AuthError(`failed to obtain token for room: ${this.roomID}`, e instanceof Error ? e : new Error(String(e)));
+        }
+    }
+
+    async #mute(seq: number, track: string): Promise<ModerationReply> {
+        const onmute = this.#moderation?.onmute;
+        if (!onmute) {
+            return { seq, status: "reject", reason: "mute is not supported" };
+        }
+
+        try {
+            const muted = await onmute(track);
+            return muted ? { seq, status: "ack" } : { seq, status: "reject", reason: "mute refused" };
+        } catch (e) {
+            return { seq, status: "reject", reason: e instanceof Error ? e.message : String(e) };
+        }
+    }
+
+    // Falls back to the member ID when the display name is not available in time
+    async #displayName(remote: BroadcastSubscriber): Promise<string> {
+        const name = await Promise.race([
+            remote.displayName(),
+            sleep(this.#displayNameTimeout).then(() => undefined),
+        ]);
+        if (typeof name === "string" && name.length > 0) {
+            return name;
+        }
+        return remote.id;
     }
 
     // get isJoined(): boolean {
@@ -222,24 +1155,92 @@ export interface RoomInit {
     roomID: string;
     description?: string;
 
-    onmember: MemberHandler;
+    // Callbacks fixed for the lifetime of the room; see also Room.events()
+    onmember?: MemberHandler;
+
+    // Supplies the token sent with announce and subscribe requests
+    auth?: AuthProvider;
+
+    // Enables automatic reconnection when the session is lost
+    reconnect?: RoomReconnectInit;
 
-    // Optional token for authentication
-    // token?: string; // TODO: Implement token-based authentication
+    // Backoff of the track subscriptions made again after a failure
+    resubscribe?: ResubscribeInit;
+
+    // Decrypts the frames of the members; give the same provider to the local BroadcastPublisher
+    e2ee?: KeyProvider;
+
+    // Public keys the members handed out at join; their catalogs and track frames must be
+    // signed with the matching private keys, passed to the local BroadcastPublisher
+    publicKeys?: PublicKeyLookup;
+
+    // Notified when the connection state changes while joined
+    onstate?: (state: RoomState) => void;
+
+    // How long to wait for a remote's display name before falling back to its member ID
+    displayNameTimeoutMs?: number; // Default: 1000
+
+    // Layout of the members' broadcast paths
+    codec?: BroadcastPathCodec; // Default: "/<roomID>/<member ID>.hang"
+
+    // Follows the host's moderation commands, or issues them when a signing key is set
+    moderation?: ModerationInit;
+
+    // Tunes the active speaker detection
+    speakers?: SpeakerDetectorInit;
+
+    // Receives video from the N most relevant members only
+    lastN?: LastNInit;
+
+    // Marks silent members as stale and evicts them, from the heartbeats they publish
+    liveness?: LivenessInit;
+}
+
+export interface LivenessInit {
+    // Silence after which a member is marked stale
+    staleMs?: number; // Default: 5000
+
+    // Silence after which a member is removed with the timeout reason
+    evictMs?: number; // Default: 15000
+}
+
+export type RoomState = "connected" | "reconnecting" | "reconnected" | "disconnected";
+
+export interface RoomReconnectInit {
+    // Creates a fresh session to replace the lost one
+    session: () => Promise<Session>;
+
+    initialDelayMs?: number; // Default: 500
+    maxDelayMs?: number; // Default: 10000
+    maxAttempts?: number; // Default: unlimited
+
+    // How long remotes have to announce again on the new session before they are treated as left
+    reconcileMs?: number; // Default: 3000
+
+    // How long an ended announcement waits for a session loss to be detected
+    endedGraceMs?: number; // Default: 250
 }
 
 export interface MemberHandler {
     onJoin: (member: JoinedMember) => void;
     onLeave: (member: LeftMember) => void;
+    onStale?: (member: JoinedRemoteMember, stale: boolean) => void;
 }
 
-export function participantName(roomID: string, broadcastPath: BroadcastPath): string {
-    // Extract the participant name from the broadcast path
-    // Assumes the path format is "/<roomID>/<name>.hang"
-    const name = broadcastPath.substring(roomID.length + 2).replace(HANG_EXTENSION, '');
-    return name;
+export function memberID(roomID: string, broadcastPath: BroadcastPath): string {
+    // Extract the member ID from a broadcast path in the default layout
+    const id = DEFAULT_BROADCAST_PATH_CODEC.parse(roomID, broadcastPath);
+    if (id === undefined) {
+        throw new Error(`hang: broadcast path ${broadcastPath} is not in room ${roomID}`);
+    }
+    return id;
 }
 
-export function broadcastPath(roomID: string, name: string): BroadcastPath {
-    return validateBroadcastPath(`/${roomID}/${name}${HANG_EXTENSION}`);
-}
\ No newline at end of file
+/**
+ * @deprecated The path carries the member ID, not the display name. Use memberID instead.
+ */
+export const participantName = memberID;
+
+export function broadcastPath(roomID: string, id: string): BroadcastPath {
+    return DEFAULT_BROADCAST_PATH_CODEC.format(roomID, id);
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import { SignalEncoder, SignalDecoder, SignalBoard, SignalRateError, eventsTrackDescriptor } from "./signals";
+import { EventsTrackSchema } from "./catalog";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+}));
+
+function readerOf(lines: unknown[]) {
+    return {
+        acceptGroup: vi.fn()
+            .mockResolvedValueOnce([{
+                readFrame: vi.fn()
+                    .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) }, undefined])
+                    .mockResolvedValue([undefined, undefined]),
+                cancel: vi.fn(),
+            }, undefined])
+            .mockResolvedValue([undefined, new Error("track ended")]),
+    };
+}
+
+describe("eventsTrackDescriptor", () => {
+    it("should be a valid events descriptor", () => {
+        expect(EventsTrackSchema.safeParse(eventsTrackDescriptor()).success).toBe(true);
+    });
+});
+
+describe("SignalEncoder", () => {
+    it("should rate limit every signal type together", () => {
+        const encoder = new SignalEncoder(1, 2);
+
+        expect(encoder.react("👍")).toEqual(expect.objectContaining({ type: "reaction", emoji: "👍" }));
+        expect(encoder.raiseHand()).toEqual(expect.objectContaining({ type: "hand", raised: true }));
+        expect(encoder.setAway(true)).toBeInstanceOf(SignalRateError);
+    });
+
+    it("should replay the hand and away states but not reactions", async () => {
+        const encoder = new SignalEncoder();
+        encoder.raiseHand();
+        encoder.react("🎉");
+        encoder.setAway(true);
+        encoder.lowerHand();
+
+        const written: string[] = [];
+        const encoding = encoder.encodeTo({
+            output: async (chunk) => {
+                written.push(new TextDecoder().decode(chunk.data));
+                return undefined;
+            },
+            done: new Promise(() => {}),
+        });
+        encoder.close();
+        await encoding;
+
+        const signals = written.join("\n").split("\n").map((line) => JSON.parse(line));
+        expect(signals).toEqual([
+            expect.objectContaining({ type: "hand", raised: false }),
+            expect.objectContaining({ type: "away", away: true }),
+        ]);
+    });
+});
+
+describe("SignalDecoder", () => {
+    it("should drop reactions above the limit and hold back the latest state change", async () => {
+        vi.useFakeTimers();
+        try {
+            const handle = vi.fn();
+            const decoder = new SignalDecoder(handle, 1, 1);
+
+            const decoding = decoder.decodeFrom(new Promise(() => {}), readerOf([
+                { type: "reaction", emoji: "👍", timestamp: 1 },
+                { type: "reaction", emoji: "👍", timestamp: 2 },
+                { type: "hand", raised: true, timestamp: 3 },
+                { type: "hand", raised: false, timestamp: 4 },
+                { type: "unknown" },
+            ]) as any);
+            await vi.advanceTimersByTimeAsync(0);
+            expect(handle.mock.calls.map(([signal]) => signal.type)).toEqual(["reaction"]);
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(handle.mock.calls.map(([signal]) => signal)).toEqual([
+                expect.objectContaining({ type: "reaction" }),
+                expect.objectContaining({ type: "hand", raised: false }),
+            ]);
+            expect(await decoding).toBeInstanceOf(Error);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("should apply the limits of the catalog", async () => {
+        const handle = vi.fn();
+        const decoder = new SignalDecoder(handle, 10, 10);
+        decoder.setLimits(1, 2);
+
+        await decoder.decodeFrom(new Promise(() => {}), readerOf([
+            { type: "reaction", emoji: "👍", timestamp: 1 },
+            { type: "reaction", emoji: "👍", timestamp: 2 },
+            { type: "reaction", emoji: "👍", timestamp: 3 },
+        ]) as any);
+
+        expect(handle).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("SignalBoard", () => {
+    it("should order the hand queue by receive time, whatever the senders claim", () => {
+        let now = 100;
+        const board = new SignalBoard(() => now);
+        board.add("bob", { type: "hand", raised: true, timestamp: 20 });
+        now = 200;
+        board.add("alice", { type: "hand", raised: true, timestamp: 1 });
+        now = 300;
+        board.add("carol", { type: "hand", raised: true, timestamp: 30 });
+        board.add("bob", { type: "hand", raised: false, timestamp: 40 });
+
+        expect(board.hands()).toEqual([
+            { id: "alice", raisedAt: 200 },
+            { id: "carol", raisedAt: 300 },
+        ]);
+    });
+
+    it("should keep the place in the queue when raising twice", () => {
+        let now = 10;
+        const board = new SignalBoard(() => now);
+        board.add("alice", { type: "hand", raised: true, timestamp: 10 });
+        now = 50;
+        board.add("alice", { type: "hand", raised: true, timestamp: 50 });
+
+        expect(board.hands()).toEqual([{ id: "alice", raisedAt: 10 }]);
+    });
+
+    it("should track away members and forget those who left", () => {
+        const board = new SignalBoard();
+        board.add("alice", { type: "away", away: true, timestamp: 1 });
+        board.add("bob", { type: "away", away: true, timestamp: 1 });
+        board.add("bob", { type: "hand", raised: true, timestamp: 1 });
+        board.remove("bob");
+
+        expect(board.away()).toEqual(["alice"]);
+        expect(board.hands()).toEqual([]);
+    });
+
+    it("should emit every signal", async () => {
+        const board = new SignalBoard();
+        const signals = board.subscribe();
+        board.add("alice", { type: "reaction", emoji: "❤️", timestamp: 1 });
+
+        expect((await signals.next()).value).toEqual({ id: "alice", signal: { type: "reaction", emoji: "❤️", timestamp: 1 } });
+    });
+});
@@ -0,0 +1,232 @@
+import { SignalSchema, EVENTS_TRACK_NAME, DATA_PRIORITY } from "./catalog";
+import type { Signal, EventsTrackDescriptor } from "./catalog";
+import { JsonLineTrackEncoder, JsonLineTrackDecoder } from "./internal/json_track";
+import type { JsonLineDestination } from "./internal/json_track";
+import type { ReadableTrack } from "./internal/reader";
+import { EventStream } from "./internal/event_stream";
+import { RateLimiter } from "./internal/rate_limit";
+
+const DEFAULT_SIGNAL_RATE = 5; // Per second
+const DEFAULT_SIGNAL_BURST = 10;
+
+export function eventsTrackDescriptor(rate: number = DEFAULT_SIGNAL_RATE, burst: number = DEFAULT_SIGNAL_BURST): EventsTrackDescriptor {
+    return {
+        name: EVENTS_TRACK_NAME,
+        priority: DATA_PRIORITY,
+        schema: "events",
+        config: {
+            format: "jsonl",
+            rate,
+            burst,
+        },
+    };
+}
+
+export class SignalRateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SignalRateError";
+    }
+}
+
+// Publishes the ephemeral signals of the local member.
+// The hand and away states are replayed to late subscribers, reactions are not.
+export class SignalEncoder {
+    readonly rate: number;
+    readonly burst: number;
+    #encoder: JsonLineTrackEncoder<Signal> = new JsonLineTrackEncoder();
+    #limiter: RateLimiter;
+    #hand?: Signal;
+    #away?: Signal;
+
+    constructor(rate: number = DEFAULT_SIGNAL_RATE, burst: number = DEFAULT_SIGNAL_BURST) {
+        this.rate = rate;
+        this.burst = burst;
+        this.#limiter = new RateLimiter(rate, burst);
+    }
+
+    react(emoji: string): Signal | Error {
+        return this.#send({ type: "reaction", emoji, timestamp: Date.now() });
+    }
+
+    raiseHand(): Signal | Error {
+        return this.#send({ type: "hand", raised: true, timestamp: Date.now() });
+    }
+
+    lowerHand(): Signal | Error {
+        return this.#send({ type: "hand", raised: false, timestamp: Date.now() });
+    }
+
+    setAway(away: boolean): Signal | Error {
+        return this.#send({ type: "away", away, timestamp: Date.now() });
+    }
+
+    encodeTo(dest: JsonLineDestination): Promise<Error | undefined> {
+        return this.#encoder.encodeTo(dest);
+    }
+
+    close(): void {
+        this.#encoder.close();
+    }
+
+    #send(signal: Signal): Signal | Error {
+        if (!this.#limiter.allow()) {
+            return new SignalRateError(`hang: too many signals, the limit is ${this.rate}/s`);
+        }
+
+        if (signal.type === "hand") {
+            this.#hand = signal;
+        } else if (signal.type === "away") {
+            this.#away = signal;
+        }
+        this.#encoder.retain([this.#hand, this.#away].filter((state): state is Signal => state !== undefined));
+        this.#encoder.send([signal]);
+
+        return signal;
+    }
+}
+
+// Reads the signals of a remote member, at most at the rate the member declared.
+// Reactions above the limit are dropped. A state change above it is held until the limit allows,
+// and replaced by a later change of the same state in the meantime.
+export class SignalDecoder {
+    #decoder: JsonLineTrackDecoder;
+    #limiter: RateLimiter;
+    #handle: (signal: Signal) => void;
+
+    // State changes waiting for the limit
+    #held: Map<Signal["type"], Signal> = new Map();
+    #timer?: ReturnType<typeof setTimeout>;
+
+    constructor(handle: (signal: Signal) => void, rate: number = DEFAULT_SIGNAL_RATE, burst: number = DEFAULT_SIGNAL_BURST) {
+        this.#handle = handle;
+        this.#limiter = new RateLimiter(rate, burst);
+        this.#decoder = new JsonLineTrackDecoder((line) => {
+            const { success, data } = SignalSchema.safeParse(line);
+            if (!success) {
+                return;
+            }
+            this.#receive(data);
+        });
+    }
+
+    // Applies the limits listed in the catalog of the member
+    setLimits(rate: number, burst: number): void {
+        if (rate === this.#limiter.rate && burst === this.#limiter.burst) {
+            return;
+        }
+        this.#limiter = new RateLimiter(rate, burst);
+    }
+
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        // Held states are dropped once the signals are no longer wanted
+        ctx.then(() => {
+            clearTimeout(this.#timer);
+            this.#timer = undefined;
+            this.#held.clear();
+        });
+        return this.#decoder.decodeFrom(ctx, reader);
+    }
+
+    #receive(signal: Signal): void {
+        if (signal.type === "reaction") {
+            if (this.#limiter.allow()) {
+                this.#handle(signal);
+            }
+            return;
+        }
+
+        if (!this.#held.has(signal.type) && this.#limiter.allow()) {
+            this.#handle(signal);
+            return;
+        }
+        this.#held.set(signal.type, signal);
+        this.#schedule();
+    }
+
+    #schedule(): void {
+        if (this.#timer !== undefined) {
+            return;
+        }
+        this.#timer = setTimeout(() => {
+            this.#timer = undefined;
+            for (const [type, signal] of Array.from(this.#held)) {
+                if (!this.#limiter.allow()) {
+                    break;
+                }
+                this.#held.delete(type);
+                this.#handle(signal);
+            }
+            if (this.#held.size > 0) {
+                this.#schedule();
+            }
+        }, 1000 / this.#limiter.rate);
+    }
+}
+
+export interface MemberSignal {
+    id: string; // Member ID of the sender
+    signal: Signal;
+}
+
+export interface RaisedHand {
+    id: string;
+    raisedAt: number; // When the raise was received, in milliseconds since the Unix epoch
+}
+
+// Keeps the hand and away states of the members of a room.
+// The hand queue follows the order the raises were received in, as the timestamps are set by their senders.
+export class SignalBoard {
+    #hands: Map<string, number> = new Map();
+    #away: Set<string> = new Set();
+    #stream: EventStream<MemberSignal> = new EventStream();
+    #now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.#now = now;
+    }
+
+    add(id: string, signal: Signal): void {
+        if (signal.type === "hand") {
+            if (!signal.raised) {
+                this.#hands.delete(id);
+            } else if (!this.#hands.has(id)) {
+                // Raising again keeps the place in the queue
+                this.#hands.set(id, this.#now());
+            }
+        } else if (signal.type === "away") {
+            if (signal.away) {
+                this.#away.add(id);
+            } else {
+                this.#away.delete(id);
+            }
+        }
+
+        this.#stream.emit({ id, signal });
+    }
+
+    // Forgets the states of a member who left
+    remove(id: string): void {
+        this.#hands.delete(id);
+        this.#away.delete(id);
+    }
+
+    // Raised hands in the order they were received
+    hands(): RaisedHand[] {
+        return Array.from(this.#hands, ([id, raisedAt]) => ({ id, raisedAt }))
+            .sort((a, b) => a.raisedAt - b.raisedAt);
+    }
+
+    away(): string[] {
+        return Array.from(this.#away);
+    }
+
+    subscribe(done?: Promise<void>): AsyncIterableIterator<MemberSignal> {
+        return this.#stream.subscribe(done);
+    }
+
+    clear(): void {
+        this.#hands.clear();
+        this.#away.clear();
+    }
+}
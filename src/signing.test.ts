@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import { FrameSigner, VerifyingTrackReader, SignatureError, SignatureCounter } from "./signing";
+
+vi.mock("@okutanidaichi/moqt", () => ({}));
+
+function chunk(bytes: number[]) {
+    return {
+        type: "delta",
+        byteLength: bytes.length,
+        copyTo: (dest: AllowSharedBufferSource) => (dest as Uint8Array).set(bytes),
+    };
+}
+
+function bytesOf(frame: { byteLength: number; copyTo(dest: AllowSharedBufferSource): void }): Uint8Array {
+    const bytes = new Uint8Array(frame.byteLength);
+    frame.copyTo(bytes);
+    return bytes;
+}
+
+// A track with one group of the given frames
+function fakeTrack(sequence: bigint, frames: Uint8Array[]) {
+    const pending = [...frames];
+    const group = {
+        sequence,
+        readFrame: vi.fn(async () => {
+            const bytes = pending.shift();
+            return [bytes ? { bytes } : undefined, undefined];
+        }),
+        cancel: vi.fn(async () => {}),
+    };
+    return {
+        acceptGroup: vi.fn(async () => [group, undefined]),
+        closeWithError: vi.fn(async () => {}),
+    } as any;
+}
+
+async function signedGroup(key: CryptoKey, sequence: bigint | undefined, frames: number[][]): Promise<Uint8Array[]> {
+    const signer = new FrameSigner(key, "video", sequence);
+    return await Promise.all(frames.map(async (frame) => bytesOf(await signer.sign(chunk(frame)))));
+}
+
+async function readAll(reader: VerifyingTrackReader): Promise<[number[][], Error | undefined]> {
+    const [group] = await reader.acceptGroup(new Promise(() => {}));
+    const frames: number[][] = [];
+    while (true) {
+        const [frame, err] = await group!.readFrame();
+        if (err || !frame) {
+            return [frames, err];
+        }
+        frames.push(Array.from(frame.bytes));
+    }
+}
+
+describe("signed frames", () => {
+    const keyPair = () => crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+
+    it("should hand over the verified frames of a group", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, 3n, [[1, 2], [3]]);
+
+        const reader = new VerifyingTrackReader(fakeTrack(3n, frames), "video", keys.publicKey);
+
+        expect(await readAll(reader)).toEqual([[[1, 2], [3]], undefined]);
+    });
+
+    it("should verify each frame before handing it over", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, 3n, [[1, 2], [3]]);
+        frames[1]![0] = 4;
+
+        const [read, err] = await readAll(new VerifyingTrackReader(fakeTrack(3n, frames), "video", keys.publicKey));
+
+        expect(read).toEqual([[1, 2]]);
+        expect(err).toBeInstanceOf(SignatureError);
+    });
+
+    it("should reject a frame replayed under another sequence", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, 3n, [[1]]);
+
+        const [read, err] = await readAll(new VerifyingTrackReader(fakeTrack(4n, frames), "video", keys.publicKey));
+
+        expect(read).toEqual([]);
+        expect(err).toBeInstanceOf(SignatureError);
+    });
+
+    it("should reject frames replayed or reordered in their group", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, 3n, [[1], [2]]);
+
+        const [read, err] = await readAll(new VerifyingTrackReader(fakeTrack(3n, [frames[1]!, frames[0]!]), "video", keys.publicKey));
+
+        expect(read).toEqual([[2]]);
+        expect(err?.message).toMatch(/out of order/);
+    });
+
+    it("should reject unsigned frames", async () => {
+        const keys = await keyPair();
+
+        const [, err] = await readAll(new VerifyingTrackReader(fakeTrack(0n, [new Uint8Array([1, 2, 3])]), "video", keys.publicKey));
+
+        expect(err).toBeInstanceOf(SignatureError);
+    });
+
+    it("should verify the frames of JSON tracks without their group sequence", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, undefined, [[1]]);
+
+        const reader = new VerifyingTrackReader(fakeTrack(9n, frames), "video", keys.publicKey, false);
+
+        expect(await readAll(reader)).toEqual([[[1]], undefined]);
+    });
+
+    it("should reject JSON frames replayed in a later group or subscription", async () => {
+        const keys = await keyPair();
+        const signer = new FrameSigner(keys.privateKey, "chat", undefined, new SignatureCounter());
+        const old = bytesOf(await signer.sign(chunk([1])));
+        const fresh = bytesOf(await signer.sign(chunk([2])));
+        const verified = { last: -1 };
+
+        expect(await readAll(new VerifyingTrackReader(fakeTrack(0n, [old]), "chat", keys.publicKey, false, verified))).toEqual([[[1]], undefined]);
+
+        const [replayed, err] = await readAll(new VerifyingTrackReader(fakeTrack(1n, [old]), "chat", keys.publicKey, false, verified));
+        expect(replayed).toEqual([]);
+        expect(err).toBeInstanceOf(SignatureError);
+
+        expect(await readAll(new VerifyingTrackReader(fakeTrack(0n, [fresh]), "chat", keys.publicKey, false, verified))).toEqual([[[2]], undefined]);
+    });
+
+    it("should only leave out the signatures without a key", async () => {
+        const keys = await keyPair();
+        const frames = await signedGroup(keys.privateKey, 0n, [[1], [2]]);
+        frames[0]![0] = 9;
+
+        expect(await readAll(new VerifyingTrackReader(fakeTrack(0n, frames), "video"))).toEqual([[[9], [2]], undefined]);
+    });
+});
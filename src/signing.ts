@@ -0,0 +1,191 @@
+import type { GroupSequence, GroupErrorCode, SubscribeErrorCode } from "@okutanidaichi/moqt";
+import { sign, verify, SignatureError } from "./internal/signature";
+import type { SignatureCounter, VerifiedCounter } from "./internal/signature";
+import type { FrameChunk } from "./e2ee";
+import type { ReadableFrame, ReadableGroup, TrackSubscription } from "./internal/reader";
+
+export { SignatureError, SignatureCounter } from "./internal/signature";
+export type { VerifiedCounter } from "./internal/signature";
+
+// Looks up the public key a member handed out when joining, e.g. along with its token
+export type PublicKeyLookup = (memberID: string) => Promise<CryptoKey | undefined>;
+
+// Each signed frame ends with its index, the signature and its length:
+//
+// +-------+-----------------+-----------+-----------------------+
+// | frame | index (uint64)  | signature | signature length (u8) |
+// +-------+-----------------+-----------+-----------------------+
+//
+// The index of a media frame is its position in its group.
+// The index of a JSON frame is numbered by the publisher across all its groups and subscriptions.
+const INDEX_LENGTH = 8;
+
+// What the signature of a frame covers: the track, the group sequence, the index and the frame.
+// The sequence is left out for the JSON tracks, whose groups are numbered by the transport.
+function framePayload(trackName: string, sequence: GroupSequence | undefined, index: number, frame: Uint8Array): Uint8Array {
+    const header = new TextEncoder().encode(`${trackName}\n${sequence ?? ""}\n${index}\n`);
+    const payload = new Uint8Array(header.byteLength + frame.byteLength);
+    payload.set(header);
+    payload.set(frame, header.byteLength);
+    return payload;
+}
+
+// Returns the frame followed by its index and signature
+export async function signFrame(key: CryptoKey, trackName: string, sequence: GroupSequence | undefined, index: number, frame: Uint8Array): Promise<Uint8Array> {
+    const signature = await sign(key, framePayload(trackName, sequence, index, frame));
+    if (signature.byteLength > 0xff) {
+        throw new RangeError(`signing: signature of ${signature.byteLength} bytes`);
+    }
+
+    const signed = new Uint8Array(frame.byteLength + INDEX_LENGTH + signature.byteLength + 1);
+    signed.set(frame);
+    new DataView(signed.buffer).setBigUint64(frame.byteLength, BigInt(index));
+    signed.set(signature, frame.byteLength + INDEX_LENGTH);
+    signed[signed.byteLength - 1] = signature.byteLength;
+    return signed;
+}
+
+// Splits a frame signed with signFrame into the frame, its index and the signature
+export function splitFrame(signed: Uint8Array): [frame: Uint8Array, index: number, signature: Uint8Array] | SignatureError {
+    if (signed.byteLength < 1) {
+        return new SignatureError("frame is not signed");
+    }
+    const length = signed[signed.byteLength - 1]!;
+    const end = signed.byteLength - 1 - length - INDEX_LENGTH;
+    if (length === 0 || end < 0) {
+        return new SignatureError("frame is not signed");
+    }
+
+    const index = Number(new DataView(signed.buffer, signed.byteOffset, signed.byteLength).getBigUint64(end));
+    if (!Number.isSafeInteger(index)) {
+        return new SignatureError("frame index out of range");
+    }
+    return [signed.subarray(0, end), index, signed.subarray(end + INDEX_LENGTH, signed.byteLength - 1)];
+}
+
+export async function verifyFrame(key: CryptoKey, trackName: string, sequence: GroupSequence | undefined, index: number, frame: Uint8Array, signature: Uint8Array): Promise<boolean> {
+    return await verify(key, signature, framePayload(trackName, sequence, index, frame));
+}
+
+// Signs the frames of a group, or of a JSON track, as they are written.
+// Frames of a JSON track are numbered by the counter of the publisher.
+export class FrameSigner {
+    readonly trackName: string;
+    readonly sequence?: GroupSequence;
+    #key: CryptoKey;
+    #index: number = 0;
+    #counter?: SignatureCounter;
+
+    constructor(key: CryptoKey, trackName: string, sequence?: GroupSequence, counter?: SignatureCounter) {
+        this.#key = key;
+        this.trackName = trackName;
+        this.sequence = sequence;
+        this.#counter = counter;
+    }
+
+    // The frame with its signature, keeping its type and timing
+    async sign(frame: FrameChunk): Promise<FrameChunk> {
+        const bytes = new Uint8Array(frame.byteLength);
+        frame.copyTo(bytes);
+        const index = this.#counter ? this.#counter.next() : this.#index++;
+        const signed = await signFrame(this.#key, this.trackName, this.sequence, index, bytes);
+        return {
+            type: frame.type,
+            byteLength: signed.byteLength,
+            timestamp: frame.timestamp,
+            duration: frame.duration,
+            copyTo(dest: AllowSharedBufferSource): void {
+                const view = ArrayBuffer.isView(dest)
+                    ? new Uint8Array(dest.buffer, dest.byteOffset, dest.byteLength)
+                    : new Uint8Array(dest);
+                view.set(signed);
+            },
+        };
+    }
+}
+
+// Reads a track of signed frames, in place of the track reader given to a decoder.
+// Without a key the signatures are only left out.
+export class VerifyingTrackReader implements TrackSubscription {
+    readonly trackName: string;
+    #track: TrackSubscription;
+    #key?: CryptoKey;
+    #grouped: boolean;
+    #verified?: VerifiedCounter;
+
+    // Frames of JSON tracks are signed without their group sequence, and numbered across groups:
+    // the last number verified is kept in verified, which may be shared across subscriptions
+    constructor(track: TrackSubscription, trackName: string, key?: CryptoKey, grouped: boolean = true, verified?: VerifiedCounter) {
+        this.#track = track;
+        this.trackName = trackName;
+        this.#key = key;
+        this.#grouped = grouped;
+        if (!grouped) {
+            this.#verified = verified ?? { last: -1 };
+        }
+    }
+
+    async acceptGroup(ctx: Promise<void>): Promise<[VerifyingGroupReader, undefined] | [undefined, Error]> {
+        const [group, err] = await this.#track.acceptGroup(ctx);
+        if (err) {
+            return [undefined, err];
+        }
+        return [new VerifyingGroupReader(group!, this.trackName, this.#key, this.#grouped, this.#verified), undefined];
+    }
+
+    closeWithError(code: SubscribeErrorCode, message: string): Promise<void> {
+        return this.#track.closeWithError(code, message);
+    }
+}
+
+// Verifies every frame before handing it over.
+// A frame failing to verify, or out of order, ends the group with a SignatureError.
+export class VerifyingGroupReader implements ReadableGroup {
+    readonly trackName: string;
+    #group: ReadableGroup;
+    #key?: CryptoKey;
+    #grouped: boolean;
+    #verified: VerifiedCounter;
+
+    constructor(group: ReadableGroup, trackName: string, key?: CryptoKey, grouped: boolean = true, verified: VerifiedCounter = { last: -1 }) {
+        this.#group = group;
+        this.trackName = trackName;
+        this.#key = key;
+        this.#grouped = grouped;
+        this.#verified = verified;
+    }
+
+    get sequence(): GroupSequence {
+        return this.#group.sequence;
+    }
+
+    async readFrame(): Promise<[ReadableFrame | undefined, Error | undefined]> {
+        const [frame, err] = await this.#group.readFrame();
+        if (err || !frame) {
+            return [undefined, err];
+        }
+
+        const split = splitFrame(frame.bytes);
+        if (split instanceof Error) {
+            return [undefined, new SignatureError(`${this.trackName}: ${split.message} in group ${this.sequence}`)];
+        }
+        const [bytes, index, signature] = split;
+
+        if (this.#key) {
+            // Frames may be dropped, but not replayed or reordered
+            if (index <= this.#verified.last) {
+                return [undefined, new SignatureError(`${this.trackName}: frame ${index} out of order in group ${this.sequence}`)];
+            }
+            const sequence = this.#grouped ? this.sequence : undefined;
+            if (!(await verifyFrame(this.#key, this.trackName, sequence, index, bytes, signature))) {
+                return [undefined, new SignatureError(`${this.trackName}: invalid signature of frame ${index} in group ${this.sequence}`)];
+            }
+            this.#verified.last = index;
+        }
+        return [{ bytes }, undefined];
+    }
+
+    cancel(code: GroupErrorCode, message: string): Promise<void> {
+        return this.#group.cancel(code, message);
+    }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import { SimulcastReceiver, selectRendition } from "./simulcast";
+import type { Rendition } from "./simulcast";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+    SubscribeCanceledErrorCode: 2,
+}));
+
+const renditions: Rendition[] = [
+    { name: "video-180p", width: 320, height: 180, bitrate: 150_000 },
+    { name: "video-1080p", width: 1920, height: 1080, bitrate: 3_000_000 },
+    { name: "video-360p", width: 640, height: 360, bitrate: 500_000 },
+];
+
+// A rendition track whose groups are pushed by the test
+function fakeTrack() {
+    const groups: Array<(group: unknown) => void> = [];
+    const pending: unknown[] = [];
+    const reader = {
+        acceptGroup: vi.fn((ctx: Promise<void>) => new Promise((resolve) => {
+            ctx.then(() => resolve([undefined, new Error("cancelled")]));
+            const group = pending.shift();
+            if (group) {
+                resolve([group, undefined]);
+            } else {
+                groups.push((group) => resolve([group, undefined]));
+            }
+        })),
+        closeWithError: vi.fn(async () => {}),
+    };
+    const push = (sequence: bigint) => {
+        const group = { sequence, cancel: vi.fn(async () => {}) };
+        const deliver = groups.shift();
+        if (deliver) {
+            deliver(group);
+        } else {
+            pending.push(group);
+        }
+        return group;
+    };
+    return { reader, push };
+}
+
+describe("selectRendition", () => {
+    it("should pick the smallest rendition covering the tile", () => {
+        expect(selectRendition(renditions, 600, 340)?.name).toBe("video-360p");
+        expect(selectRendition(renditions, 100, 100)?.name).toBe("video-180p");
+    });
+
+    it("should fall back to the largest rendition for big tiles", () => {
+        expect(selectRendition(renditions, 3840, 2160)?.name).toBe("video-1080p");
+    });
+
+    it("should keep to the bandwidth", () => {
+        expect(selectRendition(renditions, 1920, 1080, 1_000_000)?.name).toBe("video-360p");
+        expect(selectRendition(renditions, 1920, 1080, 10_000)?.name).toBe("video-180p");
+    });
+
+    it("should return undefined without renditions", () => {
+        expect(selectRendition([], 640, 360)).toBeUndefined();
+    });
+});
+
+describe("SimulcastReceiver", () => {
+    it("should switch renditions at the first new group of the new one", async () => {
+        const tracks = new Map(renditions.map((rendition) => [rendition.name, fakeTrack()]));
+        const subscribe = vi.fn(async (name: string) => [tracks.get(name)!.reader, undefined] as any);
+        const receiver = new SimulcastReceiver("camera", subscribe);
+        const switches = receiver.switches();
+        const ctx = new Promise<void>(() => {});
+
+        receiver.setTileSize(320, 180);
+        receiver.setRenditions(renditions);
+        await vi.waitFor(() => expect(subscribe).toHaveBeenCalledWith("video-180p"));
+
+        const first = tracks.get("video-180p")!.push(0n);
+        expect(await receiver.acceptGroup(ctx)).toEqual([first, undefined]);
+        expect(receiver.rendition).toBe("video-180p");
+        expect((await switches.next()).value).toEqual({ from: undefined, to: "video-180p" });
+
+        // Keeps decoding the current rendition until the new one has a group
+        receiver.setTileSize(1280, 720);
+        await vi.waitFor(() => expect(subscribe).toHaveBeenCalledWith("video-1080p"));
+        const second = tracks.get("video-180p")!.push(1n);
+        expect(await receiver.acceptGroup(ctx)).toEqual([second, undefined]);
+        expect(receiver.rendition).toBe("video-180p");
+
+        // The replayed group started before the groups decoded already
+        const replayed = tracks.get("video-1080p")!.push(0n);
+        const third = tracks.get("video-180p")!.push(2n);
+        expect(await receiver.acceptGroup(ctx)).toEqual([third, undefined]);
+        expect(replayed.cancel).toHaveBeenCalled();
+        expect(receiver.rendition).toBe("video-180p");
+
+        const keyframe = tracks.get("video-1080p")!.push(3n);
+        expect(await receiver.acceptGroup(ctx)).toEqual([keyframe, undefined]);
+        expect(receiver.rendition).toBe("video-1080p");
+        expect((await switches.next()).value).toEqual({ from: "video-180p", to: "video-1080p" });
+
+        await vi.waitFor(() => expect(tracks.get("video-180p")!.reader.closeWithError).toHaveBeenCalled());
+        receiver.close();
+        expect(await receiver.closed).toBeUndefined();
+    });
+
+    it("should cancel a switch when going back to the current rendition", async () => {
+        const tracks = new Map(renditions.map((rendition) => [rendition.name, fakeTrack()]));
+        const subscribe = vi.fn(async (name: string) => [tracks.get(name)!.reader, undefined] as any);
+        const receiver = new SimulcastReceiver("camera", subscribe);
+        const ctx = new Promise<void>(() => {});
+
+        receiver.setRenditions(renditions);
+        await vi.waitFor(() => expect(subscribe).toHaveBeenCalledWith("video-180p"));
+        tracks.get("video-180p")!.push(0n);
+        await receiver.acceptGroup(ctx);
+
+        receiver.setTileSize(640, 360);
+        await vi.waitFor(() => expect(subscribe).toHaveBeenCalledWith("video-360p"));
+        receiver.setBandwidth(200_000);
+        await vi.waitFor(() => expect(tracks.get("video-360p")!.reader.closeWithError).toHaveBeenCalled());
+
+        const group = tracks.get("video-180p")!.push(1n);
+        expect(await receiver.acceptGroup(ctx)).toEqual([group, undefined]);
+        expect(receiver.rendition).toBe("video-180p");
+        receiver.close();
+    });
+
+    it("should watch ctx once across the accepted groups", async () => {
+        const track = fakeTrack();
+        const receiver = new SimulcastReceiver("camera", vi.fn(async () => [track.reader, undefined] as any));
+        const ctx = new Promise<void>(() => {});
+        const then = vi.spyOn(ctx, "then");
+
+        receiver.setRenditions(renditions.slice(0, 1));
+        for (let i = 0n; i < 3n; i++) {
+            const group = track.push(i);
+            expect(await receiver.acceptGroup(ctx)).toEqual([group, undefined]);
+        }
+
+        expect(then).toHaveBeenCalledTimes(1);
+        receiver.close();
+    });
+
+    it("should end the decoder once closed", async () => {
+        const receiver = new SimulcastReceiver("camera", vi.fn());
+        const accepting = receiver.acceptGroup(new Promise(() => {}));
+
+        receiver.close();
+
+        const [group, err] = await accepting;
+        expect(group).toBeUndefined();
+        expect(err).toBeInstanceOf(Error);
+    });
+});
@@ -0,0 +1,280 @@
+import type { ReadableGroup, ReadableTrack, TrackSubscription } from "./internal/reader";
+import { InternalSubscribeErrorCode, SubscribeCanceledErrorCode } from "@okutanidaichi/moqt";
+import type { TrackDescriptor, VideoTrackDescriptor } from "./catalog";
+import type { TrackEncoder } from "./broadcast";
+import { EventStream } from "./internal/event_stream";
+
+// One rendition of a simulcast source to publish
+export interface SimulcastRendition {
+    descriptor: TrackDescriptor; // The group is set by the publisher
+    encoder: TrackEncoder;
+}
+
+// A rendition as listed in the catalog of a remote broadcast
+export interface Rendition {
+    name: string;
+    width?: number;
+    height?: number;
+    bitrate?: number; // Bits per second
+}
+
+export function renditionOf(descriptor: VideoTrackDescriptor): Rendition {
+    return {
+        name: descriptor.name,
+        width: descriptor.config.codedWidth,
+        height: descriptor.config.codedHeight,
+        bitrate: descriptor.config.bitrate,
+    };
+}
+
+// Picks the smallest rendition covering the tile among the ones fitting the bandwidth.
+// Falls back to the largest fitting rendition, or to the smallest one when none fits.
+export function selectRendition(renditions: Rendition[], width: number, height: number, bandwidth?: number): Rendition | undefined {
+    const sorted = [...renditions].sort((a, b) => (a.width ?? 0) * (a.height ?? 0) - (b.width ?? 0) * (b.height ?? 0));
+    if (sorted.length === 0) {
+        return undefined;
+    }
+
+    const fitting = bandwidth === undefined
+        ? sorted
+        : sorted.filter((rendition) => rendition.bitrate === undefined || rendition.bitrate <= bandwidth);
+    if (fitting.length === 0) {
+        return sorted[0];
+    }
+
+    return fitting.find((rendition) => (rendition.width ?? 0) >= width && (rendition.height ?? 0) >= height)
+        ?? fitting[fitting.length - 1];
+}
+
+export interface RenditionSwitch {
+    from?: string; // Undefined for the first rendition
+    to: string;
+}
+
+type Subscribe = (name: string) => Promise<[TrackSubscription, undefined] | [undefined, Error]>;
+
+// Subscription to one rendition
+type Source = {
+    rendition: Rendition;
+    stop: () => void;
+    stopped: Promise<void>;
+};
+
+// Receives a simulcast group as a single track.
+// The rendition follows the tile size and the bandwidth estimate. A new rendition is subscribed
+// next to the current one, and the decoder moves over with the first new group it delivers, so that
+// switches happen at keyframes. The first group of a subscription replays the group being written
+// from its keyframe, which is behind what was decoded already, so it is not switched to.
+export class SimulcastReceiver implements ReadableTrack {
+    readonly group: string;
+    readonly closed: Promise<Error | undefined>;
+    #close!: (err: Error | undefined) => void;
+    #subscribe: Subscribe;
+
+    #renditions: Rendition[] = [];
+    #width: number = 0;
+    #height: number = 0;
+    #bandwidth?: number;
+
+    #current?: Source;
+    #pending?: Source;
+
+    // Groups accepted from either subscription, waiting for the decoder,
+    // and whether each is the group replayed at the start of its subscription
+    #groups: Array<[Source, ReadableGroup, boolean]> = [];
+    #waiting?: () => void;
+    #done: boolean = false;
+    // Whether each ctx given to acceptGroup resolved, watched once however many groups are accepted
+    #cancelled: WeakMap<Promise<void>, { cancelled: boolean }> = new WeakMap();
+
+    #switches: EventStream<RenditionSwitch> = new EventStream();
+
+    constructor(group: string, subscribe: Subscribe) {
+        this.group = group;
+        this.#subscribe = subscribe;
+        this.closed = new Promise((resolve) => {
+            this.#close = resolve;
+        });
+    }
+
+    // Name of the rendition being decoded
+    get rendition(): string | undefined {
+        return this.#current?.rendition.name;
+    }
+
+    setRenditions(renditions: Rendition[]): void {
+        this.#renditions = [...renditions];
+        this.#update();
+    }
+
+    // Size of the tile showing the video, in device pixels
+    setTileSize(width: number, height: number): void {
+        this.#width = width;
+        this.#height = height;
+        this.#update();
+    }
+
+    // Bits per second available for this video, or undefined when unknown
+    setBandwidth(bandwidth?: number): void {
+        this.#bandwidth = bandwidth;
+        this.#update();
+    }
+
+    switches(done?: Promise<void>): AsyncIterableIterator<RenditionSwitch> {
+        return this.#switches.subscribe(done);
+    }
+
+    // Used by the decoder in place of a track reader
+    async acceptGroup(ctx: Promise<void>): Promise<[ReadableGroup, undefined] | [undefined, Error]> {
+        let state = this.#cancelled.get(ctx);
+        if (!state) {
+            const watched = { cancelled: false };
+            ctx.then(() => {
+                watched.cancelled = true;
+                this.#wake();
+            });
+            this.#cancelled.set(ctx, watched);
+            state = watched;
+        }
+
+        while (true) {
+            if (state.cancelled || this.#done) {
+                return [undefined, new Error("simulcast: closed")];
+            }
+
+            const next = this.#groups.shift();
+            if (!next) {
+                await new Promise<void>((resolve) => {
+                    this.#waiting = resolve;
+                });
+                continue;
+            }
+
+            const [source, group, replayed] = next;
+            if (source === this.#pending && !(replayed && this.#current)) {
+                // The new rendition starts with a keyframe: move over
+                const from = this.#current;
+                this.#current = source;
+                this.#pending = undefined;
+                if (from) {
+                    this.#stop(from);
+                }
+                this.#switches.emit({ from: from?.rendition.name, to: source.rendition.name });
+            }
+
+            if (source !== this.#current) {
+                await group.cancel(InternalSubscribeErrorCode, "rendition switched");
+                continue;
+            }
+
+            return [group, undefined];
+        }
+    }
+
+    close(err?: Error): void {
+        if (this.#done) {
+            return;
+        }
+        this.#done = true;
+
+        for (const source of [this.#current, this.#pending]) {
+            if (source) {
+                this.#stop(source);
+            }
+        }
+        this.#current = undefined;
+        this.#pending = undefined;
+        for (const [, group] of this.#groups.splice(0)) {
+            group.cancel(InternalSubscribeErrorCode, "simulcast closed");
+        }
+
+        this.#switches.close();
+        this.#wake();
+        this.#close(err);
+    }
+
+    #update(): void {
+        if (this.#done) {
+            return;
+        }
+
+        const target = selectRendition(this.#renditions, this.#width, this.#height, this.#bandwidth);
+        if (!target) {
+            return;
+        }
+
+        if (target.name === this.#current?.rendition.name) {
+            // Back to the current rendition before the switch happened
+            if (this.#pending) {
+                this.#stop(this.#pending);
+                this.#pending = undefined;
+            }
+            return;
+        }
+
+        if (target.name === this.#pending?.rendition.name) {
+            return;
+        }
+
+        if (this.#pending) {
+            this.#stop(this.#pending);
+        }
+        this.#pending = this.#open(target);
+    }
+
+    #open(rendition: Rendition): Source {
+        let stop!: () => void;
+        const stopped = new Promise<void>((resolve) => {
+            stop = resolve;
+        });
+        const source: Source = { rendition, stop, stopped };
+
+        (async () => {
+            const [reader, err] = await this.#subscribe(rendition.name);
+            if (err) {
+                console.warn(`[SimulcastReceiver] failed to subscribe to ${rendition.name}: ${err}`);
+                if (this.#pending === source) {
+                    this.#pending = undefined;
+                }
+                return;
+            }
+            let stopping = false;
+            stopped.then(() => {
+                stopping = true;
+            });
+
+            let replayed = true;
+            while (true) {
+                const [group, err] = await reader!.acceptGroup(stopped);
+                if (err || stopping) {
+                    group?.cancel(InternalSubscribeErrorCode, "rendition switched");
+                    break;
+                }
+                this.#groups.push([source, group!, replayed]);
+                replayed = false;
+                this.#wake();
+            }
+            await reader!.closeWithError(SubscribeCanceledErrorCode, "rendition switched");
+        })();
+
+        return source;
+    }
+
+    #stop(source: Source): void {
+        source.stop();
+        // Drop what the rendition delivered and the decoder did not take yet
+        this.#groups = this.#groups.filter(([from, group]) => {
+            if (from !== source) {
+                return true;
+            }
+            group.cancel(InternalSubscribeErrorCode, "rendition switched");
+            return false;
+        });
+    }
+
+    #wake(): void {
+        const wake = this.#waiting;
+        this.#waiting = undefined;
+        wake?.();
+    }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import { LevelEncoder, LevelDecoder, SpeakerDetector, audioLevel, levelsTrackDescriptor } from "./speakers";
+import { LevelsTrackSchema } from "./catalog";
+
+vi.mock("@okutanidaichi/moqt", () => ({
+    InternalSubscribeErrorCode: 1,
+}));
+
+function clock(start: number = 1000) {
+    let now = start;
+    return {
+        now: () => now,
+        advance: (ms: number) => { now += ms; },
+    };
+}
+
+describe("levelsTrackDescriptor", () => {
+    it("should be a valid levels descriptor", () => {
+        expect(LevelsTrackSchema.safeParse(levelsTrackDescriptor()).success).toBe(true);
+    });
+});
+
+describe("audioLevel", () => {
+    it("should measure the RMS over every channel", () => {
+        expect(audioLevel([new Float32Array([0.5, -0.5]), new Float32Array([0.5, -0.5])])).toBeCloseTo(0.5);
+        expect(audioLevel([])).toBe(0);
+    });
+});
+
+describe("LevelEncoder", () => {
+    it("should drop levels reported faster than the interval", () => {
+        const c = clock();
+        const encoder = new LevelEncoder(100, c.now);
+
+        expect(encoder.report(0.2)).toEqual({ level: 0.2, timestamp: 1000 });
+        c.advance(50);
+        expect(encoder.report(0.3)).toBeUndefined();
+        c.advance(50);
+        expect(encoder.report(2)).toEqual({ level: 1, timestamp: 1100 });
+    });
+});
+
+describe("LevelDecoder", () => {
+    it("should skip invalid levels", async () => {
+        const levels: number[] = [];
+        const decoder = new LevelDecoder((level) => levels.push(level.level));
+        const lines = [{ level: 0.1, timestamp: 1 }, { level: 3, timestamp: 1 }, { level: 0.2, timestamp: 2 }];
+        const reader = {
+            acceptGroup: vi.fn()
+                .mockResolvedValueOnce([{
+                    readFrame: vi.fn()
+                        .mockResolvedValueOnce([{ bytes: new TextEncoder().encode(lines.map((line) => JSON.stringify(line)).join("\n")) }, undefined])
+                        .mockResolvedValue([undefined, undefined]),
+                    cancel: vi.fn(),
+                }, undefined])
+                .mockResolvedValue([undefined, new Error("track ended")]),
+        };
+
+        await decoder.decodeFrom(new Promise(() => {}), reader as any);
+
+        expect(levels).toEqual([0.1, 0.2]);
+    });
+});
+
+describe("SpeakerDetector", () => {
+    it("should not flicker between the threshold and the release level", () => {
+        const c = clock();
+        const detector = new SpeakerDetector({ threshold: 0.1, release: 0.05, holdMs: 500 }, c.now);
+
+        detector.update("alice", 0.2);
+        expect(detector.dominant).toBe("alice");
+
+        // Under the threshold but above the release level
+        c.advance(100);
+        detector.update("alice", 0.07);
+        expect(detector.recent()[0]).toEqual(expect.objectContaining({ id: "alice", speaking: true }));
+
+        // Under the release level, within the hold time
+        c.advance(100);
+        detector.update("alice", 0.01);
+        c.advance(400);
+        detector.update("alice", 0.01);
+        expect(detector.recent()[0]!.speaking).toBe(true);
+
+        c.advance(100);
+        detector.update("alice", 0.01);
+        expect(detector.recent()[0]!.speaking).toBe(false);
+        // The dominant speaker stays through the silence
+        expect(detector.dominant).toBe("alice");
+    });
+
+    it("should switch the dominant speaker only after the switch time", async () => {
+        const c = clock();
+        const detector = new SpeakerDetector({ switchMs: 1000 }, c.now);
+        const changes = detector.subscribe();
+
+        detector.update("alice", 0.2);
+        expect((await changes.next()).value).toEqual({ id: "alice", previous: undefined });
+
+        for (let i = 0; i < 10; i++) {
+            c.advance(100);
+            detector.update("alice", 0.2);
+            detector.update("bob", 0.6);
+        }
+        expect(detector.dominant).toBe("alice");
+
+        c.advance(100);
+        detector.update("bob", 0.6);
+        expect(detector.dominant).toBe("bob");
+        expect((await changes.next()).value).toEqual({ id: "bob", previous: "alice" });
+    });
+
+    it("should take over at once when the dominant speaker went silent", () => {
+        const c = clock();
+        const detector = new SpeakerDetector({ holdMs: 200 }, c.now);
+
+        detector.update("alice", 0.2);
+        c.advance(300);
+        detector.update("bob", 0.2);
+
+        expect(detector.dominant).toBe("bob");
+    });
+
+    it("should rank recent speakers", () => {
+        const c = clock();
+        const detector = new SpeakerDetector({ holdMs: 200, recent: 3 }, c.now);
+
+        detector.update("alice", 0.3);
+        c.advance(100);
+        detector.update("bob", 0.3);
+        c.advance(300);
+        detector.update("carol", 0.2);
+        detector.update("dave", 0.5);
+        detector.update("erin", 0.01);
+
+        // Carol took over from the silent Alice, Dave speaks, Bob spoke last among the silent
+        expect(detector.recent().map((speaker) => speaker.id)).toEqual(["carol", "dave", "bob"]);
+    });
+
+    it("should hand over the dominant speaker when it leaves", async () => {
+        const c = clock();
+        const detector = new SpeakerDetector({}, c.now);
+
+        detector.update("alice", 0.5);
+        detector.update("bob", 0.2);
+        const changes = detector.subscribe();
+        expect((await changes.next()).value).toEqual({ id: "alice" });
+
+        detector.remove("alice");
+
+        expect((await changes.next()).value).toEqual({ id: "bob", previous: "alice" });
+        expect(detector.recent().map((speaker) => speaker.id)).toEqual(["bob"]);
+    });
+});
@@ -0,0 +1,282 @@
+import { AudioLevelSchema, LEVELS_TRACK_NAME, DATA_PRIORITY } from "./catalog";
+import type { AudioLevel, LevelsTrackDescriptor } from "./catalog";
+import { JsonLineTrackEncoder, JsonLineTrackDecoder } from "./internal/json_track";
+import type { JsonLineDestination } from "./internal/json_track";
+import type { ReadableTrack } from "./internal/reader";
+import { EventStream } from "./internal/event_stream";
+
+const DEFAULT_LEVEL_INTERVAL = 100; // Milliseconds
+
+// Weight of a new level in the smoothed level used for ranking
+const SMOOTHING = 0.5;
+
+export function levelsTrackDescriptor(interval: number = DEFAULT_LEVEL_INTERVAL): LevelsTrackDescriptor {
+    return {
+        name: LEVELS_TRACK_NAME,
+        priority: DATA_PRIORITY,
+        schema: "levels",
+        config: {
+            format: "jsonl",
+            interval,
+        },
+    };
+}
+
+// Measures the RMS level of planar audio samples, from 0 to 1
+export function audioLevel(channels: Float32Array[]): number {
+    let sum = 0;
+    let count = 0;
+    for (const samples of channels) {
+        for (let i = 0; i < samples.length; i++) {
+            sum += samples[i]! * samples[i]!;
+        }
+        count += samples.length;
+    }
+    if (count === 0) {
+        return 0;
+    }
+    return Math.min(1, Math.sqrt(sum / count));
+}
+
+// Publishes the audio level of the local member.
+// Levels reported faster than the interval are dropped.
+export class LevelEncoder {
+    readonly interval: number;
+    #encoder: JsonLineTrackEncoder<AudioLevel> = new JsonLineTrackEncoder();
+    #last: number = -Infinity;
+    #now: () => number;
+
+    constructor(interval: number = DEFAULT_LEVEL_INTERVAL, now: () => number = Date.now) {
+        this.interval = interval;
+        this.#now = now;
+    }
+
+    report(level: number): AudioLevel | undefined {
+        const now = this.#now();
+        if (now - this.#last < this.interval) {
+            return undefined;
+        }
+        this.#last = now;
+
+        const line: AudioLevel = { level: Math.min(1, Math.max(0, level)), timestamp: now };
+        this.#encoder.send([line]);
+        return line;
+    }
+
+    encodeTo(dest: JsonLineDestination): Promise<Error | undefined> {
+        return this.#encoder.encodeTo(dest);
+    }
+
+    close(): void {
+        this.#encoder.close();
+    }
+}
+
+// Reads the audio levels of a remote member
+export class LevelDecoder {
+    #decoder: JsonLineTrackDecoder;
+
+    constructor(handle: (level: AudioLevel) => void) {
+        this.#decoder = new JsonLineTrackDecoder((line) => {
+            const { success, data } = AudioLevelSchema.safeParse(line);
+            if (!success) {
+                return;
+            }
+            handle(data);
+        });
+    }
+
+    decodeFrom(ctx: Promise<void>, reader: ReadableTrack): Promise<Error | undefined> {
+        return this.#decoder.decodeFrom(ctx, reader);
+    }
+}
+
+export interface SpeakerDetectorInit {
+    // Level from which a member is speaking
+    threshold?: number; // Default: 0.05
+
+    // Level under which a speaking member starts falling silent; lower than the threshold
+    release?: number; // Default: 0.02
+
+    // How long a member stays speaking after falling under the release level or going quiet
+    holdMs?: number; // Default: 800
+
+    // How long a member has to be the loudest to take over from a dominant speaker still talking
+    switchMs?: number; // Default: 1500
+
+    // Length of the recent-speakers list
+    recent?: number; // Default: 5
+}
+
+export interface DominantSpeakerChange {
+    id?: string; // Undefined once the dominant speaker left
+    previous?: string;
+}
+
+export interface RecentSpeaker {
+    id: string;
+    speaking: boolean;
+    level: number; // Smoothed level
+    lastSpokeAt: number; // Milliseconds since the Unix epoch
+}
+
+type SpeakerState = {
+    level: number;
+    speaking: boolean;
+    updatedAt: number;
+    quietSince?: number;
+    lastSpokeAt?: number;
+};
+
+// Tracks who is talking from the levels of every member.
+// The dominant speaker stays until another member takes over, even when the room falls silent.
+export class SpeakerDetector {
+    readonly threshold: number;
+    readonly release: number;
+    readonly holdMs: number;
+    readonly switchMs: number;
+    readonly recentLimit: number;
+    #now: () => number;
+
+    #states: Map<string, SpeakerState> = new Map();
+    #dominant?: string;
+    // Member louder than the dominant speaker, and since when
+    #candidate?: [string, number];
+    #stream: EventStream<DominantSpeakerChange> = new EventStream();
+
+    constructor(init: SpeakerDetectorInit = {}, now: () => number = Date.now) {
+        this.threshold = init.threshold ?? 0.05;
+        this.release = Math.min(init.release ?? 0.02, this.threshold);
+        this.holdMs = init.holdMs ?? 800;
+        this.switchMs = init.switchMs ?? 1500;
+        this.recentLimit = init.recent ?? 5;
+        this.#now = now;
+    }
+
+    get dominant(): string | undefined {
+        return this.#dominant;
+    }
+
+    update(id: string, level: number): void {
+        const now = this.#now();
+        let state = this.#states.get(id);
+        if (!state) {
+            state = { level: 0, speaking: false, updatedAt: now };
+            this.#states.set(id, state);
+        }
+
+        state.level = state.level * (1 - SMOOTHING) + level * SMOOTHING;
+        state.updatedAt = now;
+
+        if (level >= this.threshold || (state.speaking && level >= this.release)) {
+            state.speaking = true;
+            state.quietSince = undefined;
+            state.lastSpokeAt = now;
+        } else if (state.speaking) {
+            state.quietSince ??= now;
+        }
+
+        this.#evaluate(now);
+    }
+
+    // Forgets a member who left
+    remove(id: string): void {
+        if (!this.#states.delete(id)) {
+            return;
+        }
+        if (this.#candidate?.[0] === id) {
+            this.#candidate = undefined;
+        }
+        if (this.#dominant === id) {
+            this.#switch(this.#loudest());
+        }
+    }
+
+    // Members who spoke lately: the dominant speaker first, then the ones speaking
+    // by level, then the others by how recently they spoke
+    recent(): RecentSpeaker[] {
+        const speakers: RecentSpeaker[] = [];
+        for (const [id, state] of this.#states) {
+            if (state.lastSpokeAt === undefined) {
+                continue;
+            }
+            speakers.push({ id, speaking: state.speaking, level: state.level, lastSpokeAt: state.lastSpokeAt });
+        }
+
+        speakers.sort((a, b) => {
+            if (a.id === this.#dominant || b.id === this.#dominant) {
+                return a.id === this.#dominant ? -1 : 1;
+            }
+            if (a.speaking !== b.speaking) {
+                return a.speaking ? -1 : 1;
+            }
+            if (a.speaking) {
+                return b.level - a.level;
+            }
+            return b.lastSpokeAt - a.lastSpokeAt;
+        });
+
+        return speakers.slice(0, this.recentLimit);
+    }
+
+    // Yields the current dominant speaker, if any, then every change
+    subscribe(done?: Promise<void>): AsyncIterableIterator<DominantSpeakerChange> {
+        const backlog = this.#dominant !== undefined ? [{ id: this.#dominant }] : [];
+        return this.#stream.subscribe(done, backlog);
+    }
+
+    clear(): void {
+        this.#states.clear();
+        this.#dominant = undefined;
+        this.#candidate = undefined;
+    }
+
+    #evaluate(now: number): void {
+        for (const state of this.#states.values()) {
+            // Members who stopped sending levels fall silent as well
+            if (state.speaking && now - (state.quietSince ?? state.updatedAt) >= this.holdMs) {
+                state.speaking = false;
+                state.quietSince = undefined;
+            }
+        }
+
+        const loudest = this.#loudest();
+        if (loudest === undefined || loudest === this.#dominant) {
+            this.#candidate = undefined;
+            return;
+        }
+
+        if (this.#dominant === undefined || !this.#states.get(this.#dominant)?.speaking) {
+            this.#switch(loudest);
+            return;
+        }
+
+        // Both are talking: take over only after being the loudest for a while
+        if (this.#candidate?.[0] !== loudest) {
+            this.#candidate = [loudest, now];
+        }
+        if (now - this.#candidate[1] >= this.switchMs) {
+            this.#switch(loudest);
+        }
+    }
+
+    #loudest(): string | undefined {
+        let loudest: [string, number] | undefined;
+        for (const [id, state] of this.#states) {
+            if (state.speaking && (!loudest || state.level > loudest[1])) {
+                loudest = [id, state.level];
+            }
+        }
+        return loudest?.[0];
+    }
+
+    #switch(id: string | undefined): void {
+        this.#candidate = undefined;
+        if (id === this.#dominant) {
+            return;
+        }
+        const previous = this.#dominant;
+        this.#dominant = id;
+        this.#stream.emit({ id, previous });
+    }
+}
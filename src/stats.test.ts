@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { DeliveryMeter } from "./stats";
+
+const frame = { byteLength: 100 };
+
+describe("DeliveryMeter", () => {
+    it("should count the frames and groups of each subscription", async () => {
+        const stats = new DeliveryMeter();
+        const first = stats.subscribe("video", 64);
+        const second = stats.subscribe("video", 32);
+
+        first.groupOpened();
+        await first.measure(frame, async () => undefined)();
+        await first.measure(frame, async () => undefined)();
+        second.groupOpened();
+        second.groupCancelled();
+        await second.measure(frame, async () => undefined)();
+
+        const subscriptions = stats.subscriptions();
+        expect(subscriptions).toHaveLength(2);
+        expect(subscriptions[0]).toMatchObject({ trackName: "video", priority: 64, framesWritten: 2, bytesWritten: 200, groupsOpened: 1, groupsCancelled: 0 });
+        expect(subscriptions[1]).toMatchObject({ priority: 32, framesWritten: 1, groupsCancelled: 1 });
+        expect(stats.tracks()).toEqual([
+            expect.objectContaining({ trackName: "video", subscribers: 2, subscriptions: 2, framesWritten: 3, bytesWritten: 300, groupsOpened: 2, groupsCancelled: 1 }),
+        ]);
+    });
+
+    it("should not count failed writes", async () => {
+        const stats = new DeliveryMeter();
+        const meter = stats.subscribe("audio", 32);
+
+        const err = await meter.measure(frame, async () => new Error("stream reset"))();
+
+        expect(err?.message).toBe("stream reset");
+        expect(meter.snapshot().framesWritten).toBe(0);
+    });
+
+    it("should measure the latency and the time blocked before the write", async () => {
+        const stats = new DeliveryMeter();
+        const meter = stats.subscribe("video", 64);
+
+        const write = meter.measure(frame, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return undefined;
+        });
+        // Waiting for the scheduler before the write starts
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await write();
+
+        const snapshot = meter.snapshot();
+        expect(snapshot.blockedMs).toBeGreaterThanOrEqual(15);
+        expect(snapshot.blockedMs).toBeLessThan(35); // Not the write itself
+        expect(snapshot.writeLatencyMs).toBeGreaterThanOrEqual(snapshot.blockedMs + 15);
+        expect(snapshot.maxWriteLatencyMs).toBe(snapshot.writeLatencyMs);
+    });
+
+    it("should keep the track totals once a subscription ends", async () => {
+        const stats = new DeliveryMeter();
+        const meter = stats.subscribe("video", 64);
+        await meter.measure(frame, async () => undefined)();
+
+        meter.close();
+        meter.close();
+
+        expect(stats.subscriptions()).toEqual([]);
+        expect(stats.tracks()[0]).toMatchObject({ subscribers: 0, subscriptions: 1, framesWritten: 1 });
+    });
+});
@@ -0,0 +1,180 @@
+// Delivery counters of a subscription, or of all the subscriptions of a track
+export interface DeliveryStats {
+    framesWritten: number;
+    bytesWritten: number;
+    groupsOpened: number;
+    groupsCancelled: number; // Expired, failed, or aborted before their end
+    writeLatencyMs: number; // Average time from handing a frame over to its write completing
+    maxWriteLatencyMs: number;
+    blockedMs: number; // Total time frames waited on backpressure before their write started
+    framesDropped: number; // Frames of groups dropped under backpressure
+}
+
+export interface SubscriptionStats extends DeliveryStats {
+    id: number; // Unique within the publisher
+    trackName: string;
+    priority: number;
+    startedAt: number; // Epoch milliseconds
+}
+
+export interface TrackStats extends DeliveryStats {
+    trackName: string;
+    subscribers: number; // Subscriptions being served
+    subscriptions: number; // Subscriptions served so far, including the ended ones
+}
+
+export interface PublisherStats {
+    timestamp: number; // Epoch milliseconds
+    tracks: TrackStats[];
+    subscriptions: SubscriptionStats[]; // Subscriptions being served
+    framesDropped: number; // Frames dropped under backpressure, across all tracks
+    pendingWrites: number; // Writes waiting for their turn, across all subscriptions
+}
+
+class Counters {
+    framesWritten: number = 0;
+    bytesWritten: number = 0;
+    groupsOpened: number = 0;
+    groupsCancelled: number = 0;
+    totalLatencyMs: number = 0;
+    maxWriteLatencyMs: number = 0;
+    blockedMs: number = 0;
+    framesDropped: number = 0;
+
+    written(bytes: number, latencyMs: number, blockedMs: number): void {
+        this.framesWritten++;
+        this.bytesWritten += bytes;
+        this.totalLatencyMs += latencyMs;
+        this.maxWriteLatencyMs = Math.max(this.maxWriteLatencyMs, latencyMs);
+        this.blockedMs += blockedMs;
+    }
+
+    snapshot(): DeliveryStats {
+        return {
+            framesWritten: this.framesWritten,
+            bytesWritten: this.bytesWritten,
+            groupsOpened: this.groupsOpened,
+            groupsCancelled: this.groupsCancelled,
+            writeLatencyMs: this.framesWritten > 0 ? this.totalLatencyMs / this.framesWritten : 0,
+            maxWriteLatencyMs: this.maxWriteLatencyMs,
+            blockedMs: this.blockedMs,
+            framesDropped: this.framesDropped,
+        };
+    }
+}
+
+type TrackTotals = {
+    counters: Counters;
+    subscribers: number;
+    subscriptions: number;
+};
+
+// Counts what one subscription was sent, adding it to the totals of its track as well
+export class SubscriptionMeter {
+    readonly id: number;
+    readonly trackName: string;
+    readonly priority: number;
+    readonly startedAt: number = Date.now();
+    #counters: Counters = new Counters();
+    #totals: TrackTotals;
+    #onclose: () => void;
+    #closed: boolean = false;
+
+    constructor(id: number, trackName: string, priority: number, totals: TrackTotals, onclose: () => void) {
+        this.id = id;
+        this.trackName = trackName;
+        this.priority = priority;
+        this.#totals = totals;
+        this.#onclose = onclose;
+    }
+
+    // Wraps the write of a frame being handed over now, to count it once written.
+    // The time until the wrapper is called, e.g. waiting in the queue of the subscription, is the time blocked.
+    measure(frame: { byteLength: number }, write: () => Promise<Error | undefined>): () => Promise<Error | undefined> {
+        const queued = performance.now();
+        return async () => {
+            const started = performance.now();
+            const err = await write();
+            if (err) {
+                return err;
+            }
+            const ended = performance.now();
+            for (const counters of [this.#counters, this.#totals.counters]) {
+                counters.written(frame.byteLength, ended - queued, started - queued);
+            }
+            return undefined;
+        };
+    }
+
+    groupOpened(): void {
+        this.#counters.groupsOpened++;
+        this.#totals.counters.groupsOpened++;
+    }
+
+    groupCancelled(): void {
+        this.#counters.groupsCancelled++;
+        this.#totals.counters.groupsCancelled++;
+    }
+
+    frameDropped(): void {
+        this.#counters.framesDropped++;
+        this.#totals.counters.framesDropped++;
+    }
+
+    snapshot(): SubscriptionStats {
+        return {
+            id: this.id,
+            trackName: this.trackName,
+            priority: this.priority,
+            startedAt: this.startedAt,
+            ...this.#counters.snapshot(),
+        };
+    }
+
+    close(): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+        this.#totals.subscribers--;
+        this.#onclose();
+    }
+}
+
+// Delivery statistics of a publisher, per subscription and per track
+export class DeliveryMeter {
+    #nextID: number = 0;
+    #subscriptions: Map<number, SubscriptionMeter> = new Map();
+    #tracks: Map<string, TrackTotals> = new Map();
+
+    // Starts counting a new subscription; close the meter once it ends
+    subscribe(trackName: string, priority: number): SubscriptionMeter {
+        let totals = this.#tracks.get(trackName);
+        if (!totals) {
+            totals = { counters: new Counters(), subscribers: 0, subscriptions: 0 };
+            this.#tracks.set(trackName, totals);
+        }
+        totals.subscribers++;
+        totals.subscriptions++;
+
+        const id = this.#nextID++;
+        const meter = new SubscriptionMeter(id, trackName, priority, totals, () => {
+            this.#subscriptions.delete(id);
+        });
+        this.#subscriptions.set(id, meter);
+        return meter;
+    }
+
+    tracks(): TrackStats[] {
+        return Array.from(this.#tracks, ([trackName, totals]) => ({
+            trackName,
+            subscribers: totals.subscribers,
+            subscriptions: totals.subscriptions,
+            ...totals.counters.snapshot(),
+        }));
+    }
+
+    subscriptions(): SubscriptionStats[] {
+        return Array.from(this.#subscriptions.values(), (meter) => meter.snapshot());
+    }
+}